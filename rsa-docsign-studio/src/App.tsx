@@ -1,117 +1,312 @@
-import { useEffect, useState } from 'react'
+import { useCallback, useEffect, useRef, useState } from 'react'
 import './index.css'
-import { Button } from './components/ui/button'
-import { UploadArea } from './components/UploadArea'
+import { Button } from '@shared/components/ui/button'
+import { UploadArea, type UploadProgress } from './components/UploadArea'
 import { Timeline, type DocEvent } from './components/Timeline'
+import { exportPublicKeyJwk, exportPrivateKeyJwk, publicKeyId, shortKeyId } from './utils/rsa'
+import { generateEncryptionKeyPair, oaepHashOfKeyText } from '@shared/crypto/oaep'
+import { KeyViewer } from '@shared/components/KeyViewer'
+import { VerifierPanel } from './components/VerifierPanel'
+import { KeyringPanel } from '@shared/components/KeyringPanel'
+import { RecipientsPanel, type Recipient } from './components/RecipientsPanel'
+import { SignatureSchemeSelect } from '@shared/components/SignatureSchemeSelect'
+import { KeySettingsPanel } from '@shared/components/KeySettingsPanel'
+import { addKeyPair, ensureActiveKey, exportKeys, importKeys, keyring, setActiveKey, type ArchivedKey } from './utils/keyring'
+import { importRsaKey } from '@shared/crypto/keyformat'
 import {
-  generateEncryptionKeyPair,
-  generateSigningKeyPair,
-  signBytes,
-  verifyBytes,
-  generateAesKey,
-  aesEncrypt,
-  aesDecrypt,
-  exportAesKeyRaw,
-  importAesKeyRaw,
-  arrayBufferToBase64,
-  base64ToArrayBuffer,
-  exportPublicKeyJwk,
-  exportPrivateKeyJwk,
-} from './utils/rsa'
-import { KeyViewer } from './components/KeyViewer'
+  LEGACY_SIGNATURE_ALGORITHM,
+  SCHEME_LABELS,
+  algorithmForKey,
+  generateSignatureKeyPair,
+  schemeOfKey,
+  type SignatureAlgorithm,
+} from '@shared/crypto/signature'
+import { DEFAULT_RSA_PARAMS, rsaParamsOf, type RsaHash, type RsaKeyParams } from '@shared/crypto/keyparams'
+import { decryptDocument, signDocument, verifyDocument } from './utils/document'
+import { BUNDLE_EXTENSION, bundleToEvent, createBundle, parseBundle, serializeBundle, type SignedBundle } from './utils/bundle'
+import { ARCHIVE_EXTENSION, serializeArchive, type ArchiveKey } from '@shared/crypto/archive'
+import { archive, clearBlobs, deleteBlob, loadBlob, saveArchive, saveBlob, sealArchive } from './utils/archive'
+import { UnlockScreen } from '@shared/components/UnlockScreen'
+import { downloadBlob } from '@shared/lib/utils'
+
+const OWNERS = ['Me']
+
+// The timeline as the encrypted archive holds it. Each event's bytes (its
+// payload, or its ciphertext when encrypted) are sealed in a file record under
+// the event id instead, so a change to the timeline only writes what changed.
+interface DocSignArchive {
+  events: ArchivedEvent[]
+}
+
+// An event without its bytes or anything worked out since it was loaded
+type ArchivedEvent = Pick<DocEvent,
+  'id' | 'filename' | 'size' | 'mimeType' | 'sha256' | 'signature' | 'signatureAlgorithm' | 'iv' | 'chunkSize' |
+  'wrappedKey' | 'recipients' | 'oaepHash' | 'signerJwk' | 'imported' | 'createdAt'>
+
+// An exported archive leaves its file records behind, so it carries each event
+// as a bundle, which already has what verifying and decrypting it again needs,
+// and the keyring, without which nothing encrypted to it could be read.
+// Archives saved before file records existed look the same, without the keys.
+interface DocSignExport {
+  events: { id: string, imported?: boolean, bundle: SignedBundle }[]
+  keys?: ArchivedKey[]
+}
+
+const isExport = (contents: DocSignArchive | DocSignExport): contents is DocSignExport =>
+  contents.events.every((e) => 'bundle' in e)
+
+const archivedEvent = (e: DocEvent): ArchivedEvent => ({
+  id: e.id,
+  filename: e.filename,
+  size: e.size,
+  mimeType: e.mimeType,
+  sha256: e.sha256,
+  signature: e.signature,
+  signatureAlgorithm: e.signatureAlgorithm,
+  iv: e.iv,
+  chunkSize: e.chunkSize,
+  wrappedKey: e.wrappedKey,
+  recipients: e.recipients,
+  oaepHash: e.oaepHash,
+  signerJwk: e.signerJwk,
+  imported: e.imported,
+  createdAt: e.createdAt,
+})
+
+async function exportContents(events: DocEvent[], keys: ArchivedKey[]): Promise<DocSignExport> {
+  // Events made here and imported ones both carry their signer's key
+  return {
+    events: await Promise.all(events.flatMap((e) => (e.signerJwk
+      ? [createBundle(e, e.signerJwk).then((bundle) => ({ id: e.id, imported: e.imported, bundle }))]
+      : []))),
+    keys,
+  }
+}
 
 function App() {
   const [encKeys, setEncKeys] = useState<{ publicKey: CryptoKey, privateKey: CryptoKey } | null>(null)
   const [sigKeys, setSigKeys] = useState<{ publicKey: CryptoKey, privateKey: CryptoKey } | null>(null)
   const [events, setEvents] = useState<DocEvent[]>([])
   const [showKeys, setShowKeys] = useState(false)
+  const [verifierMode, setVerifierMode] = useState(false)
   const [encryptToSelf, setEncryptToSelf] = useState(true)
+  const [recipients, setRecipients] = useState<Recipient[]>([])
   const [tamper, setTamper] = useState(false)
   const [pubJwk, setPubJwk] = useState<JsonWebKey | undefined>(undefined)
   const [privJwk, setPrivJwk] = useState<JsonWebKey | undefined>(undefined)
+  const [sigPubJwk, setSigPubJwk] = useState<JsonWebKey | undefined>(undefined)
+  const [importError, setImportError] = useState<string | null>(null)
+  const [progress, setProgress] = useState<UploadProgress | null>(null)
+  const [uploadError, setUploadError] = useState<string | null>(null)
+  const [sigAlgorithm, setSigAlgorithm] = useState<SignatureAlgorithm>(LEGACY_SIGNATURE_ALGORITHM)
+  const [keyParams, setKeyParams] = useState<RsaKeyParams>(DEFAULT_RSA_PARAMS)
+  // The unlocked archive key; nothing is shown until there is one. Saves run one after another.
+  const [vault, setVault] = useState<ArchiveKey | null>(null)
+  const [archiveError, setArchiveError] = useState<string | null>(null)
+  const [schemeError, setSchemeError] = useState<string | null>(null)
+  const [exportNote, setExportNote] = useState<string | null>(null)
+  const [schemeSwitching, setSchemeSwitching] = useState(false)
+  const saving = useRef(Promise.resolve())
+  // The bytes in each file record, by event id, so a save can skip the ones already written
+  const storedFiles = useRef(new Map<string, Blob>())
+
+  const loadKeys = useCallback(async () => {
+    const [e, s] = await Promise.all([
+      ensureActiveKey('Me', 'encrypt', () => generateEncryptionKeyPair()),
+      ensureActiveKey('Me', 'sign', () => generateSignatureKeyPair(LEGACY_SIGNATURE_ALGORITHM.scheme)),
+    ])
+    // The active signing key decides the scheme (the keyring panel can switch keys)
+    const scheme = schemeOfKey(s.publicKey) ?? LEGACY_SIGNATURE_ALGORITHM.scheme
+    setSigAlgorithm((prev) => (prev.scheme === scheme ? prev : { scheme }))
+    setEncKeys({ publicKey: e.publicKey, privateKey: e.privateKey })
+    setSigKeys({ publicKey: s.publicKey, privateKey: s.privateKey })
+    setPubJwk(await exportPublicKeyJwk(e.publicKey))
+    setPrivJwk(await exportPrivateKeyJwk(e.privateKey).catch(() => undefined))
+    setSigPubJwk(await exportPublicKeyJwk(s.publicKey))
+  }, [])
 
   useEffect(() => {
-    const init = async () => {
-      const [e, s] = await Promise.all([generateEncryptionKeyPair(), generateSigningKeyPair()])
-      setEncKeys(e)
-      setSigKeys(s)
-      setPubJwk(await exportPublicKeyJwk(e.publicKey))
-      setPrivJwk(await exportPrivateKeyJwk(e.privateKey))
+    loadKeys()
+  }, [loadKeys])
+
+  // The active key only changes once a key of the new scheme is found or generated,
+  // so a failure (e.g. Ed25519 missing from this browser) leaves the old one in place
+  const changeSigAlgorithm = async (alg: SignatureAlgorithm) => {
+    setSchemeSwitching(true)
+    try {
+      if (alg.scheme !== sigAlgorithm.scheme) {
+        await ensureActiveKey('Me', 'sign', () => generateSignatureKeyPair(alg.scheme, true, keyParams), (k) => schemeOfKey(k.publicKey) === alg.scheme)
+        await loadKeys()
+      }
+      setSigAlgorithm(alg)
+      setSchemeError(null)
+    } catch (err) {
+      setSchemeError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setSchemeSwitching(false)
     }
-    init()
-  }, [])
+  }
+
+  // Replaces both active keys with fresh ones built from the current settings
+  const regenerateKeys = async () => {
+    const enc = await generateEncryptionKeyPair(true, keyParams)
+    const sig = await generateSignatureKeyPair(sigAlgorithm.scheme, true, keyParams)
+    const encEntry = await addKeyPair(enc, { owner: 'Me', purpose: 'encrypt' })
+    const sigEntry = await addKeyPair(sig, { owner: 'Me', purpose: 'sign' })
+    await setActiveKey('Me', 'encrypt', encEntry.id)
+    await setActiveKey('Me', 'sign', sigEntry.id)
+    await loadKeys()
+  }
+
+  const importEncryptionKey = async (pair: { publicKey: CryptoKey, privateKey: CryptoKey }) => {
+    const entry = await addKeyPair(pair, { owner: 'Me', purpose: 'encrypt', label: 'Imported encryption key' })
+    await setActiveKey('Me', 'encrypt', entry.id)
+    await loadKeys()
+  }
+
+  // A JWK names its OAEP hash; for PEM and ssh-rsa keys the sender says which one the recipient uses
+  const addRecipient = async (keyText: string, label: string, hash: RsaHash) => {
+    const { key } = await importRsaKey(keyText, { name: 'RSA-OAEP', hash: oaepHashOfKeyText(keyText) ?? hash }, { public: ['encrypt'], private: ['decrypt'] })
+    if (key.type !== 'public') throw new Error('Paste the recipient\'s public key, not a private key')
+    const keyId = await publicKeyId(key)
+    if (recipients.some((r) => r.keyId === keyId)) throw new Error(`Key ${shortKeyId(keyId)} is already a recipient`)
+    setRecipients((prev) => [...prev, { keyId, label, publicKey: key }])
+  }
 
   const onFile = async (file: File) => {
     if (!encKeys || !sigKeys) return
-    const bytes = new Uint8Array(await file.arrayBuffer())
-    // Compute SHA-256 (hex), then sign the SHA string bytes so verify uses the same input
-    const digest = await crypto.subtle.digest('SHA-256', bytes)
-    const shaHex = Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('')
-    const signature = await signBytes(sigKeys.privateKey, new TextEncoder().encode(shaHex))
-    let ciphertext: string | undefined
-    let ivB64: string | undefined
-    let wrappedKeyB64: string | undefined
-    if (encryptToSelf) {
-      const aes = await generateAesKey()
-      const { iv, ciphertext: aesCT } = await aesEncrypt(aes, bytes)
-      const rawAes = await exportAesKeyRaw(aes)
-      const wrapped = await crypto.subtle.encrypt({ name: 'RSA-OAEP' }, encKeys.publicKey, rawAes)
-      ciphertext = arrayBufferToBase64(aesCT)
-      ivB64 = arrayBufferToBase64(iv.buffer)
-      wrappedKeyB64 = arrayBufferToBase64(wrapped)
-      if (tamper && ciphertext.length > 8) {
-        ciphertext = ciphertext.slice(0, -8) + 'AAAAAAA='
+    try {
+      const targets = encryptToSelf
+        ? [{ keyId: await publicKeyId(encKeys.publicKey), label: 'Me', publicKey: encKeys.publicKey }, ...recipients]
+        : recipients
+      const onProgress = (done: number, total: number) => setProgress({ label: targets.length ? 'Encrypting' : 'Hashing', done, total })
+      const evt = await signDocument(file, sigKeys, algorithmForKey(sigAlgorithm, sigKeys.privateKey), targets, onProgress)
+      if (tamper && evt.ciphertext) {
+        evt.ciphertext = new Blob([evt.ciphertext.slice(0, evt.ciphertext.size - 8), new Uint8Array(8)])
       }
+      setUploadError(null)
+      setEvents((prev) => [evt, ...prev])
+    } catch (err) {
+      // e.g. the file became unreadable (moved or deleted) while it was being read
+      setUploadError(`${file.name}: ${err instanceof Error ? err.message : String(err)}`)
+    } finally {
+      setProgress(null)
     }
-    const evt: DocEvent = {
-      id: crypto.randomUUID(),
-      filename: file.name,
-      size: file.size,
-      sha256: shaHex,
-      signature,
-      ciphertext,
-      iv: ivB64,
-      wrappedKey: wrappedKeyB64,
-      createdAt: Date.now(),
+  }
+
+  const verifyEvent = async (e: DocEvent): Promise<DocEvent> => (sigKeys ? verifyDocument(e, sigKeys.publicKey) : e)
+
+  const decryptEvent = async (e: DocEvent): Promise<DocEvent> => {
+    if (!encKeys) return e
+    try {
+      return await decryptDocument(e, encKeys, (done, total) => setProgress({ label: 'Decrypting', done, total }))
+    } finally {
+      setProgress(null)
     }
-    setEvents((prev) => [evt, ...prev])
   }
 
   const onVerify = async (id: string) => {
-    if (!sigKeys) return
-    const current = [...events]
-    const idx = current.findIndex((e) => e.id === id)
-    if (idx === -1) return
-    const e = current[idx]
+    const e = events.find((x) => x.id === id)
+    if (!e) return
+    const updated = await verifyEvent(e)
+    setEvents((prev) => prev.map((x) => (x.id === id ? updated : x)))
+  }
+
+  const onDecrypt = async (id: string) => {
+    const e = events.find((x) => x.id === id)
+    if (!e) return
+    const updated = await decryptEvent(e)
+    setEvents((prev) => prev.map((x) => (x.id === id ? updated : x)))
+  }
+
+  const onExport = async (id: string) => {
+    const e = events.find((x) => x.id === id)
+    if (!e || !sigKeys) return
+    const signerJwk = e.signerJwk ?? (await exportPublicKeyJwk(sigKeys.publicKey))
+    const bundle = await createBundle(e, signerJwk)
+    downloadBlob(new Blob([serializeBundle(bundle)], { type: 'application/json' }), e.filename + BUNDLE_EXTENSION)
+  }
+
+  const onImport = async (file: File) => {
     try {
-      // Verify over the SHA-256 hex string bytes, matching what we sign
-      const shaBytes = new TextEncoder().encode(e.sha256)
-      const ok = await verifyBytes(sigKeys.publicKey, shaBytes, e.signature || '')
-      current[idx] = { ...e, authentic: ok }
-    } catch {
-      current[idx] = { ...e, authentic: false }
+      let evt = bundleToEvent(parseBundle(await file.text()))
+      evt = await verifyEvent(evt)
+      evt = await decryptEvent(evt)
+      setImportError(null)
+      setEvents((prev) => [evt, ...prev])
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : String(err))
     }
-    setEvents(current)
   }
 
-  const onDecrypt = async (id: string) => {
-    if (!encKeys) return
-    const current = [...events]
-    const idx = current.findIndex((e) => e.id === id)
-    if (idx === -1) return
-    const e = current[idx]
-    if (!e.ciphertext || !e.iv || !e.wrappedKey) return
+  const restoreArchive = async (archiveKey: ArchiveKey, contents: DocSignArchive | DocSignExport | null) => {
+    await saving.current // let the last timeline's saves finish before its file records are touched
+    const stored = new Map<string, Blob>()
+    if (!contents || isExport(contents)) {
+      // A new or imported timeline owns none of the file records; its own are written on the first save
+      await clearBlobs()
+      if (contents?.keys) {
+        await importKeys(contents.keys)
+        await loadKeys()
+      }
+      if (contents) setEvents(contents.events.map(({ id, imported, bundle }) => ({ ...bundleToEvent(bundle), id, imported })))
+    } else {
+      setEvents(await Promise.all(contents.events.map(async (e): Promise<DocEvent> => {
+        const file = await loadBlob(archiveKey, e.id)
+        if (!file) throw new Error(`Archive is corrupted: the file record for ${e.filename} is missing`)
+        stored.set(e.id, file)
+        return e.iv ? { ...e, ciphertext: file } : { ...e, payload: file }
+      })))
+    }
+    storedFiles.current = stored
+    setVault(archiveKey)
+  }
+
+  // Forgets the timeline; it comes back from the archive with the passphrase
+  const lock = () => {
+    setVault(null)
+    setEvents([])
+    storedFiles.current = new Map()
+  }
+
+  const exportArchive = async () => {
+    if (!vault) return
     try {
-      const rawAes = await crypto.subtle.decrypt({ name: 'RSA-OAEP' }, encKeys.privateKey, base64ToArrayBuffer(e.wrappedKey))
-      const aes = await importAesKeyRaw(rawAes)
-      await aesDecrypt(aes, new Uint8Array(base64ToArrayBuffer(e.iv)), base64ToArrayBuffer(e.ciphertext))
-      current[idx] = { ...e, decryptedOk: true }
-    } catch {
-      current[idx] = { ...e, decryptedOk: false, tampered: true }
+      const { keys, leftOut } = await exportKeys()
+      const file = await sealArchive(vault, await exportContents(events, keys))
+      downloadBlob(new Blob([serializeArchive(file)], { type: 'application/json' }), `rsa-docsign-studio${ARCHIVE_EXTENSION}`)
+      setExportNote(leftOut.length ? `Exported without ${leftOut.map((k) => k.label).join(', ')}: non-extractable keys can't leave this browser` : null)
+    } catch (err) {
+      setArchiveError(err instanceof Error ? err.message : String(err))
     }
-    setEvents(current)
   }
 
+  // Every change to the timeline is sealed back into the archive. File records are
+  // written only for new or changed bytes, before the archive that refers to them,
+  // and the ones no event refers to any more are dropped after it.
+  useEffect(() => {
+    if (!vault) return
+    saving.current = saving.current
+      .then(async () => {
+        const stored = storedFiles.current
+        for (const e of events) {
+          const file = e.payload ?? e.ciphertext
+          if (file && stored.get(e.id) !== file) {
+            await saveBlob(vault, e.id, file)
+            stored.set(e.id, file)
+          }
+        }
+        await saveArchive(await sealArchive(vault, { events: events.map(archivedEvent) }))
+        const ids = new Set(events.map((e) => e.id))
+        for (const id of [...stored.keys()].filter((id) => !ids.has(id))) {
+          await deleteBlob(id)
+          stored.delete(id)
+        }
+        setArchiveError(null)
+      })
+      .catch((err) => setArchiveError(err instanceof Error ? err.message : String(err)))
+  }, [vault, events])
+
   const onTamperSignature = (id: string) => {
     const current = [...events]
     const idx = current.findIndex((e) => e.id === id)
@@ -120,17 +315,20 @@ function App() {
     // Flip a character in the signature (if present) to invalidate it
     if (e.signature && e.signature.length > 5) {
       const flipped = e.signature.substring(0, 5) + (e.signature[5] === 'A' ? 'B' : 'A') + e.signature.substring(6)
-      current[idx] = { ...e, signature: flipped, authentic: false }
+      current[idx] = { ...e, signature: flipped, authentic: false, verifyReason: undefined }
       setEvents(current)
     }
   }
 
+  if (!vault) return <UnlockScreen<DocSignArchive | DocSignExport> title="RSA DocSign Studio" store={archive} contents="Documents and their timeline" onUnlock={restoreArchive} />
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-900 to-black text-slate-100">
       <div className="max-w-5xl mx-auto px-4 py-6 space-y-6">
         <div className="flex items-center justify-between">
           <h1 className="text-2xl font-bold">🔏 RSA DocSign Studio</h1>
           <div className="flex items-center gap-3 text-sm">
+            <SignatureSchemeSelect value={sigAlgorithm} onChange={changeSigAlgorithm} disabled={!sigKeys || schemeSwitching} />
             <label className="opacity-80 flex items-center gap-2">
               <input type="checkbox" checked={encryptToSelf} onChange={(e) => setEncryptToSelf(e.target.checked)} />
               Encrypt to my public key
@@ -139,17 +337,39 @@ function App() {
               <input type="checkbox" checked={tamper} onChange={(e) => setTamper(e.target.checked)} />
               Tamper ciphertext
             </label>
+            <Button variant="outline" onClick={() => setVerifierMode((v) => !v)}>{verifierMode ? 'Close Verifier' : 'Verifier Mode'}</Button>
             <Button variant="outline" onClick={() => setShowKeys((s) => !s)}>{showKeys ? 'Hide Keys' : 'Show Keys'}</Button>
+            <Button variant="outline" onClick={exportArchive}>Export History</Button>
+            <Button variant="ghost" onClick={lock}>🔒 Lock</Button>
           </div>
         </div>
+        {archiveError && <div className="text-xs text-red-400">Saving the encrypted history failed: {archiveError}</div>}
+        {exportNote && <div className="text-xs text-amber-300">{exportNote}</div>}
+        {schemeError && <div className="text-xs text-red-400">Switching the signature scheme failed: {schemeError}</div>}
+
+        {verifierMode && <VerifierPanel />}
+
+        <KeySettingsPanel
+          value={keyParams}
+          onChange={setKeyParams}
+          onRegenerate={regenerateKeys}
+          current={encKeys && rsaParamsOf(encKeys.publicKey)}
+          disabled={!encKeys || !sigKeys}
+        />
+
+        <RecipientsPanel
+          recipients={recipients}
+          onAdd={addRecipient}
+          onRemove={(keyId) => setRecipients((prev) => prev.filter((r) => r.keyId !== keyId))}
+        />
 
-        <UploadArea onFile={onFile} disabled={!encKeys || !sigKeys} />
+        <UploadArea onFile={onFile} onImport={onImport} importError={importError} uploadError={uploadError} disabled={!encKeys || !sigKeys} progress={progress} />
 
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
           {/* Sender POV: shows hash + signature (no decrypt) */}
           <div className="space-y-3">
             <div className="font-semibold">Sender POV</div>
-            <Timeline events={events} onVerify={onVerify} onTamperSignature={onTamperSignature} showCiphertext={false} showIv={false} showWrappedKey={false} />
+            <Timeline events={events} onVerify={onVerify} onTamperSignature={onTamperSignature} onExport={onExport} showCiphertext={false} showIv={false} showWrappedKey={false} />
           </div>
           {/* Receiver POV: verify + decrypt (all fields) */}
           <div className="space-y-3">
@@ -161,16 +381,28 @@ function App() {
             <div className="font-semibold">Observer POV</div>
             <Timeline events={events} actions={false} showHash={false} showSignature={false} showCiphertext={true} showIv={true} showWrappedKey={false} />
             {showKeys && (
-              <KeyViewer title="My RSA Encryption Keys" publicJwk={pubJwk} privateJwk={privJwk} />
+              <>
+                <KeyViewer
+                  title="My RSA Encryption Keys"
+                  publicJwk={pubJwk}
+                  privateJwk={privJwk}
+                  privateKey={encKeys?.privateKey}
+                  backupName="docsign-encryption"
+                  onImportKey={importEncryptionKey}
+                />
+                <KeyViewer title={`My ${SCHEME_LABELS[sigAlgorithm.scheme]} Signing Key (share to let others verify)`} publicJwk={sigPubJwk} publicOnly />
+                <KeyringPanel keyring={keyring} owners={OWNERS} onChange={loadKeys} signatureScheme={sigAlgorithm.scheme} rsaParams={keyParams} />
+              </>
             )}
             <div className="rounded-xl border border-slate-700 bg-slate-900/60 p-4">
               <div className="font-semibold mb-2">How it works</div>
               <ol className="list-decimal pl-5 text-sm space-y-1 opacity-90">
                 <li>Generate RSA encryption and signing keys</li>
-                <li>Upload a file → we compute SHA-256</li>
-                <li>Sign file bytes with your private signing key</li>
-                <li>Optionally encrypt file to your public key</li>
+                <li>Upload a file → we read it in 1 MB chunks, hashing (SHA-256) and encrypting as we go (the encrypted copy is kept in memory)</li>
+                <li>Sign the hash with your private signing key (RSASSA-PKCS1-v1_5, RSA-PSS, ECDSA or Ed25519)</li>
+                <li>Optionally encrypt the file to your public key and any added recipients</li>
                 <li>Verify signature and test decryption</li>
+                <li>Export a .rsasig.json bundle to share, or import one to verify it</li>
               </ol>
             </div>
           </div>
@@ -0,0 +1,83 @@
+import { useState } from "react";
+import { Button } from "@shared/components/ui/button";
+import { shortKeyId } from "../utils/rsa";
+import { RSA_HASHES, rsaParamsOf, type RsaHash } from "@shared/crypto/keyparams";
+
+export interface Recipient {
+  keyId: string;
+  label: string;
+  publicKey: CryptoKey;
+}
+
+interface RecipientsPanelProps {
+  recipients: Recipient[];
+  onAdd: (keyText: string, label: string, hash: RsaHash) => Promise<void>;
+  onRemove: (keyId: string) => void;
+}
+
+export function RecipientsPanel({ recipients, onAdd, onRemove }: RecipientsPanelProps) {
+  const [keyText, setKeyText] = useState("");
+  const [label, setLabel] = useState("");
+  const [hash, setHash] = useState<RsaHash>("SHA-256");
+  const [error, setError] = useState<string | null>(null);
+
+  const add = async () => {
+    try {
+      await onAdd(keyText, label.trim() || `Recipient ${recipients.length + 1}`, hash);
+      setKeyText("");
+      setLabel("");
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="rounded-xl border border-slate-700 bg-slate-900/60 p-4 space-y-3">
+      <div>
+        <div className="font-semibold">Recipients</div>
+        <div className="text-xs opacity-70">
+          The file's AES key is wrapped once for each recipient's RSA-OAEP public key. All of a document's recipients must use the same OAEP hash.
+        </div>
+      </div>
+      <div className="space-y-1">
+        {recipients.map((r) => (
+          <div key={r.keyId} className="flex items-center gap-2 text-sm">
+            <span className="font-mono text-xs text-sky-300">{shortKeyId(r.keyId)}</span>
+            <span className="flex-1">{r.label}</span>
+            <span className="text-xs opacity-70">OAEP {rsaParamsOf(r.publicKey)?.hash}</span>
+            <Button size="sm" variant="ghost" onClick={() => onRemove(r.keyId)}>Remove</Button>
+          </div>
+        ))}
+        {recipients.length === 0 && <div className="text-xs opacity-70">No extra recipients.</div>}
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-2 text-xs">
+        <input
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          placeholder="Name"
+          className="rounded-md bg-slate-800/70 border border-slate-700 px-2 py-1"
+        />
+        <textarea
+          value={keyText}
+          onChange={(e) => setKeyText(e.target.value)}
+          rows={2}
+          placeholder="Recipient public key (JWK, PEM or ssh-rsa)"
+          className="md:col-span-2 rounded-md bg-slate-800/70 border border-slate-700 px-2 py-1 font-mono"
+        />
+        <div className="flex flex-col gap-2">
+          <select
+            value={hash}
+            onChange={(e) => setHash(e.target.value as RsaHash)}
+            title="PEM and ssh-rsa keys don't say which hash their owner uses with RSA-OAEP; a JWK's alg does, and wins"
+            className="rounded-md bg-slate-800/70 border border-slate-700 px-2 py-1"
+          >
+            {RSA_HASHES.map((h) => <option key={h} value={h}>OAEP {h}</option>)}
+          </select>
+          <Button size="sm" variant="outline" disabled={!keyText.trim()} onClick={add}>Add Recipient</Button>
+        </div>
+      </div>
+      {error && <div className="text-xs text-red-400">{error}</div>}
+    </div>
+  );
+}
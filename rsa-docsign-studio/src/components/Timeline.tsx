@@ -1,17 +1,42 @@
+import { useEffect, useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { Button } from "./ui/button";
+import { Button } from "@shared/components/ui/button";
+import { base64ToBytes, bytesToBase64 } from "@shared/crypto/base64";
+import { shortKeyId } from "../utils/rsa";
+import { downloadBlob } from "@shared/lib/utils";
+import { KeyFingerprint } from "@shared/components/KeyFingerprint";
+import { LEGACY_SIGNATURE_ALGORITHM, describeAlgorithm, type SignatureAlgorithm } from "@shared/crypto/signature";
+import type { RsaHash } from "@shared/crypto/keyparams";
+
+// One RSA-OAEP wrapped copy of the AES key per recipient, found by key ID
+export interface KeyRecipient {
+  keyId: string; // SHA-256 of the recipient's SPKI (hex)
+  label: string;
+  wrappedKey: string; // base64
+}
 
 export interface DocEvent {
   id: string;
   filename: string;
   size: number;
+  mimeType?: string;
   sha256: string;
   signature?: string;
-  ciphertext?: string; // AES-GCM ciphertext (base64)
-  iv?: string; // AES-GCM IV (base64)
-  wrappedKey?: string; // RSA-OAEP wrapped AES key (base64)
+  signatureAlgorithm?: SignatureAlgorithm; // absent on events from before schemes: PKCS#1 v1.5
+  payload?: Blob; // original bytes, kept only when not encrypted
+  ciphertext?: Blob; // AES-GCM ciphertext
+  iv?: string; // AES-GCM IV, or the chunk nonce prefix when chunked (base64)
+  chunkSize?: number; // set when encrypted chunk by chunk (see utils/stream)
+  wrappedKey?: string; // RSA-OAEP wrapped AES key (base64), single-recipient documents only
+  recipients?: KeyRecipient[];
+  oaepHash?: RsaHash; // the recipients' RSA-OAEP hash; absent means SHA-256
+  signerJwk?: JsonWebKey; // signer public key, set for imported bundles
+  imported?: boolean;
   decryptedOk?: boolean;
+  decryptError?: string;
+  decrypted?: Blob;
   authentic?: boolean;
+  verifyReason?: string;
   tampered?: boolean;
   createdAt: number;
 }
@@ -27,76 +52,208 @@ interface TimelineProps {
   showWrappedKey?: boolean;
   actions?: boolean;
   onTamperSignature?: (id: string) => void;
+  onExport?: (id: string) => void;
+}
+
+const PREVIEW_BYTES = 96;
+
+// Shows the start of a (possibly very large) blob without reading all of it
+function BlobPreview({ blob }: { blob: Blob }) {
+  const [head, setHead] = useState("");
+  useEffect(() => {
+    let cancelled = false;
+    blob.slice(0, PREVIEW_BYTES).arrayBuffer().then((buf) => {
+      if (!cancelled) setHead(bytesToBase64(new Uint8Array(buf)));
+    });
+    return () => { cancelled = true; };
+  }, [blob]);
+  return <>{head}{blob.size > PREVIEW_BYTES && `… (${blob.size} bytes)`}</>;
+}
+
+type PreviewKind = "image" | "text" | "pdf";
+
+const EXTENSION_KINDS: Record<string, PreviewKind> = {
+  png: "image", jpg: "image", jpeg: "image", gif: "image", webp: "image", svg: "image",
+  txt: "text", md: "text", csv: "text", json: "text", log: "text", xml: "text",
+  pdf: "pdf",
+};
+
+// Bundles from older versions carry no MIME type, so fall back to the extension
+function previewKind(mimeType: string | undefined, filename: string): PreviewKind | null {
+  if (mimeType?.startsWith("image/")) return "image";
+  if (mimeType === "application/pdf") return "pdf";
+  if (mimeType?.startsWith("text/") || mimeType === "application/json") return "text";
+  return EXTENSION_KINDS[filename.split(".").pop()?.toLowerCase() ?? ""] ?? null;
 }
 
-export function Timeline({ events, onVerify, onDecrypt, showHash = true, showSignature = true, showCiphertext = true, showIv = true, showWrappedKey = true, actions = true, onTamperSignature }: TimelineProps) {
+const TEXT_PREVIEW_BYTES = 64 * 1024;
+
+function FilePreview({ blob, kind }: { blob: Blob; kind: PreviewKind }) {
+  const [url, setUrl] = useState<string | null>(null);
+  const [text, setText] = useState<string | null>(null);
+  useEffect(() => {
+    if (kind === "text") {
+      let cancelled = false;
+      blob.slice(0, TEXT_PREVIEW_BYTES).text().then((t) => {
+        if (!cancelled) setText(t);
+      });
+      return () => { cancelled = true; };
+    }
+    // PDF viewers and <img> sniff poorly without a type, so set one explicitly
+    const typed = new Blob([blob], { type: kind === "pdf" ? "application/pdf" : blob.type });
+    const objectUrl = URL.createObjectURL(typed);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob, kind]);
+
+  if (kind === "text") {
+    return (
+      <pre className="text-xs bg-slate-800/70 p-2 rounded border border-slate-700 overflow-auto max-h-64 whitespace-pre-wrap">
+        {text}{blob.size > TEXT_PREVIEW_BYTES && "\n…"}
+      </pre>
+    );
+  }
+  if (!url) return null;
+  if (kind === "image") return <img src={url} alt="Preview" className="max-h-64 rounded border border-slate-700" />;
+  return <iframe src={url} title="PDF preview" className="w-full h-80 rounded border border-slate-700 bg-white" />;
+}
+
+function DownloadLink({ onClick }: { onClick: () => void }) {
+  return (
+    <button type="button" className="ml-2 text-sky-300 hover:underline" onClick={onClick}>
+      Download
+    </button>
+  );
+}
+
+export function Timeline({ events, onVerify, onDecrypt, showHash = true, showSignature = true, showCiphertext = true, showIv = true, showWrappedKey = true, actions = true, onTamperSignature, onExport }: TimelineProps) {
+  const [previewId, setPreviewId] = useState<string | null>(null);
   return (
     <div className="rounded-2xl border border-slate-700 bg-slate-900/60 p-4 h-[60vh] overflow-y-auto">
       <AnimatePresence initial={false}>
-        {events.map((e) => (
-          <motion.div key={e.id} layout className="mb-4">
-            <div className="flex items-center justify-between">
-              <div>
-                <div className="font-semibold">{e.filename}</div>
-                <div className="text-xs opacity-70">{(e.size / 1024).toFixed(2)} KB • {new Date(e.createdAt).toLocaleTimeString()}</div>
-              </div>
-              {actions && (
-                <div className="flex items-center gap-2">
-                  {onDecrypt && e.ciphertext && (
-                    <Button size="sm" onClick={() => onDecrypt(e.id)}>Decrypt</Button>
-                  )}
-                  {onVerify && (
-                    <Button size="sm" variant="outline" onClick={() => onVerify(e.id)}>Verify Signature</Button>
-                  )}
-                  {onTamperSignature && (
-                    <Button size="sm" variant="destructive" onClick={() => onTamperSignature(e.id)}>Tamper Signature</Button>
-                  )}
-                </div>
-              )}
-            </div>
-            <div className="mt-2 grid grid-cols-1 md:grid-cols-2 gap-3">
-              {showHash && (
-                <div>
-                  <div className="text-xs opacity-70 mb-1">SHA-256</div>
-                  <pre className="text-xs bg-slate-800/70 p-2 rounded border border-slate-700 overflow-auto">{e.sha256}</pre>
-                </div>
-              )}
-              {showSignature && e.signature && (
+        {events.map((e) => {
+          // The receiver can take back the original once it's decrypted (or if it never was encrypted)
+          const original = onDecrypt ? e.decrypted ?? e.payload : undefined;
+          const kind = previewKind(e.mimeType, e.filename);
+          const { signature, ciphertext, wrappedKey } = e;
+          return (
+            <motion.div key={e.id} layout className="mb-4">
+              <div className="flex items-center justify-between">
                 <div>
-                  <div className="text-xs opacity-70 mb-1">Signature (base64)</div>
-                  <pre className="text-xs bg-slate-800/70 p-2 rounded border border-slate-700 overflow-auto">{e.signature}</pre>
+                  <div className="font-semibold">
+                    {e.filename}
+                    {e.imported && <span className="ml-2 text-xs font-normal text-sky-300">imported</span>}
+                  </div>
+                  <div className="text-xs opacity-70">{(e.size / 1024).toFixed(2)} KB • {new Date(e.createdAt).toLocaleTimeString()}</div>
                 </div>
-              )}
-              {showCiphertext && e.ciphertext && (
-                <div className="md:col-span-2">
-                  <div className="text-xs opacity-70 mb-1">Ciphertext (base64)</div>
-                  <pre className="text-xs bg-yellow-900/30 text-yellow-200 p-2 rounded border border-yellow-700/50 overflow-auto">{e.ciphertext}</pre>
-                </div>
-              )}
-              {showIv && e.iv && (
-                <div>
-                  <div className="text-xs opacity-70 mb-1">AES-GCM IV (base64)</div>
-                  <pre className="text-xs bg-slate-800/70 p-2 rounded border border-slate-700 overflow-auto">{e.iv}</pre>
-                </div>
-              )}
-              {showWrappedKey && e.wrappedKey && (
-                <div>
-                  <div className="text-xs opacity-70 mb-1">Wrapped AES Key (RSA-OAEP, base64)</div>
-                  <pre className="text-xs bg-slate-800/70 p-2 rounded border border-slate-700 overflow-auto">{e.wrappedKey}</pre>
-                </div>
-              )}
-            </div>
-            <div className="mt-2">
-              {typeof e.authentic !== 'undefined' && (
-                <div className={e.authentic ? "text-green-400" : "text-red-400"}>
-                  {e.authentic ? "✅ Authentic" : "❌ Forged"}
+                {actions && (
+                  <div className="flex items-center gap-2">
+                    {onDecrypt && e.ciphertext && (
+                      <Button size="sm" onClick={() => onDecrypt(e.id)}>Decrypt</Button>
+                    )}
+                    {original && (
+                      <Button size="sm" variant="secondary" onClick={() => downloadBlob(original, e.filename)}>Download</Button>
+                    )}
+                    {original && kind && (
+                      <Button size="sm" variant="ghost" onClick={() => setPreviewId(previewId === e.id ? null : e.id)}>
+                        {previewId === e.id ? "Hide Preview" : "Preview"}
+                      </Button>
+                    )}
+                    {onVerify && (
+                      <Button size="sm" variant="outline" onClick={() => onVerify(e.id)}>Verify Signature</Button>
+                    )}
+                    {onExport && (
+                      <Button size="sm" variant="secondary" onClick={() => onExport(e.id)}>Export Bundle</Button>
+                    )}
+                    {onTamperSignature && (
+                      <Button size="sm" variant="destructive" onClick={() => onTamperSignature(e.id)}>Tamper Signature</Button>
+                    )}
+                  </div>
+                )}
+              </div>
+              <div className="mt-2 grid grid-cols-1 md:grid-cols-2 gap-3">
+                {showHash && (
+                  <div>
+                    <div className="text-xs opacity-70 mb-1">SHA-256</div>
+                    <pre className="text-xs bg-slate-800/70 p-2 rounded border border-slate-700 overflow-auto">{e.sha256}</pre>
+                  </div>
+                )}
+                {showSignature && signature && (
+                  <div>
+                    <div className="text-xs opacity-70 mb-1">
+                      Signature (base64) • {describeAlgorithm(e.signatureAlgorithm ?? LEGACY_SIGNATURE_ALGORITHM)}
+                      <DownloadLink onClick={() => downloadBlob(new Blob([base64ToBytes(signature)]), `${e.filename}.sig`)} />
+                    </div>
+                    <pre className="text-xs bg-slate-800/70 p-2 rounded border border-slate-700 overflow-auto">{e.signature}</pre>
+                  </div>
+                )}
+                {showSignature && e.signerJwk && (
+                  <div>
+                    <div className="text-xs opacity-70 mb-1">Signer</div>
+                    <div className="bg-slate-800/70 p-2 rounded border border-slate-700">
+                      <KeyFingerprint publicKey={e.signerJwk} />
+                    </div>
+                  </div>
+                )}
+                {showCiphertext && ciphertext && (
+                  <div className="md:col-span-2">
+                    <div className="text-xs opacity-70 mb-1">
+                      Ciphertext (base64){e.chunkSize && ` • ${Math.ceil(e.size / e.chunkSize) || 1} chunks of ${e.chunkSize / 1024} KB`}
+                      <DownloadLink onClick={() => downloadBlob(ciphertext, `${e.filename}.enc`)} />
+                    </div>
+                    <pre className="text-xs bg-yellow-900/30 text-yellow-200 p-2 rounded border border-yellow-700/50 overflow-auto"><BlobPreview blob={ciphertext} /></pre>
+                  </div>
+                )}
+                {showIv && e.iv && (
+                  <div>
+                    <div className="text-xs opacity-70 mb-1">{e.chunkSize ? "Chunk nonce prefix (base64)" : "AES-GCM IV (base64)"}</div>
+                    <pre className="text-xs bg-slate-800/70 p-2 rounded border border-slate-700 overflow-auto">{e.iv}</pre>
+                  </div>
+                )}
+                {showWrappedKey && e.recipients && (
+                  <div className="md:col-span-2">
+                    <div className="text-xs opacity-70 mb-1">Recipients ({e.recipients.length}) • wrapped AES key per key ID</div>
+                    <div className="space-y-1">
+                      {e.recipients.map((r) => (
+                        <div key={r.keyId} className="text-xs bg-slate-800/70 p-2 rounded border border-slate-700 overflow-auto">
+                          <span className="font-mono text-sky-300">{shortKeyId(r.keyId)}</span> {r.label}
+                          <DownloadLink onClick={() => downloadBlob(new Blob([base64ToBytes(r.wrappedKey)]), `${e.filename}.${r.keyId.slice(0, 16)}.wrappedkey`)} />
+                          <div className="font-mono opacity-70 truncate">{r.wrappedKey}</div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                {showWrappedKey && wrappedKey && (
+                  <div>
+                    <div className="text-xs opacity-70 mb-1">
+                      Wrapped AES Key (RSA-OAEP, base64)
+                      <DownloadLink onClick={() => downloadBlob(new Blob([base64ToBytes(wrappedKey)]), `${e.filename}.wrappedkey`)} />
+                    </div>
+                    <pre className="text-xs bg-slate-800/70 p-2 rounded border border-slate-700 overflow-auto">{e.wrappedKey}</pre>
+                  </div>
+                )}
+              </div>
+              {original && kind && previewId === e.id && (
+                <div className="mt-2">
+                  <FilePreview blob={original} kind={kind} />
                 </div>
               )}
-              {e.tampered && <div className="text-yellow-400">⚠️ Tampered</div>}
-            </div>
-            <div className="h-px bg-slate-700/50 my-3" />
-          </motion.div>
-        ))}
+              <div className="mt-2">
+                {typeof e.authentic !== 'undefined' && (
+                  <div className={e.authentic ? "text-green-400" : "text-red-400"}>
+                    {e.authentic ? "✅ Authentic" : "❌ Forged"}
+                    {e.verifyReason && <span className="ml-2 text-xs opacity-80">{e.verifyReason}</span>}
+                  </div>
+                )}
+                {e.decryptedOk && <div className="text-green-400">🔓 Decrypted</div>}
+                {e.decryptError && <div className="text-orange-300">🔒 {e.decryptError}</div>}
+                {e.tampered && <div className="text-yellow-400">⚠️ Tampered</div>}
+              </div>
+              <div className="h-px bg-slate-700/50 my-3" />
+            </motion.div>
+          );
+        })}
       </AnimatePresence>
     </div>
   );
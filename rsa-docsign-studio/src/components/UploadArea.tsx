@@ -1,13 +1,24 @@
 import { useRef } from "react";
-import { Button } from "./ui/button";
+import { Button } from "@shared/components/ui/button";
+
+export interface UploadProgress {
+  label: string;
+  done: number;
+  total: number;
+}
 
 interface UploadAreaProps {
   onFile: (file: File) => void;
+  onImport?: (file: File) => void;
+  importError?: string | null;
+  uploadError?: string | null;
   disabled?: boolean;
+  progress?: UploadProgress | null;
 }
 
-export function UploadArea({ onFile, disabled }: UploadAreaProps) {
+export function UploadArea({ onFile, onImport, importError, uploadError, disabled, progress }: UploadAreaProps) {
   const inputRef = useRef<HTMLInputElement | null>(null);
+  const importRef = useRef<HTMLInputElement | null>(null);
   return (
     <div className="rounded-xl border border-slate-700 bg-slate-900/60 p-4">
       <div className="flex items-center justify-between">
@@ -17,6 +28,8 @@ export function UploadArea({ onFile, disabled }: UploadAreaProps) {
             PDF, images, or any file. We'll hash and optionally encrypt.
             {disabled && <span className="ml-2 text-yellow-300">Generating keys…</span>}
           </div>
+          {uploadError && <div className="text-xs text-red-400 mt-1">Upload failed: {uploadError}</div>}
+          {importError && <div className="text-xs text-red-400 mt-1">Import failed: {importError}</div>}
         </div>
         <div className="flex items-center gap-2">
           <input
@@ -26,13 +39,46 @@ export function UploadArea({ onFile, disabled }: UploadAreaProps) {
             onChange={(e) => {
               const f = e.target.files?.[0];
               if (f) onFile(f);
+              e.target.value = "";
             }}
           />
-          <Button disabled={disabled} onClick={() => inputRef.current?.click()}>
+          <Button disabled={disabled || !!progress} onClick={() => inputRef.current?.click()}>
             {disabled ? 'Preparing…' : 'Choose File'}
           </Button>
+          {onImport && (
+            <>
+              <input
+                ref={importRef}
+                type="file"
+                accept=".rsasig.json,application/json"
+                className="hidden"
+                onChange={(e) => {
+                  const f = e.target.files?.[0];
+                  if (f) onImport(f);
+                  e.target.value = "";
+                }}
+              />
+              <Button variant="outline" disabled={disabled || !!progress} onClick={() => importRef.current?.click()}>
+                Import Bundle
+              </Button>
+            </>
+          )}
         </div>
       </div>
+      {progress && (
+        <div className="mt-3">
+          <div className="flex justify-between text-xs opacity-80 mb-1">
+            <span>{progress.label}…</span>
+            <span>{(progress.done / 1048576).toFixed(1)} / {(progress.total / 1048576).toFixed(1)} MB</span>
+          </div>
+          <div className="h-2 rounded bg-slate-800 overflow-hidden">
+            <div
+              className="h-full bg-sky-500 transition-[width]"
+              style={{ width: `${progress.total ? (100 * progress.done) / progress.total : 100}%` }}
+            />
+          </div>
+        </div>
+      )}
     </div>
   );
 }
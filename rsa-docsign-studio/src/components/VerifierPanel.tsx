@@ -0,0 +1,76 @@
+import { useState } from "react";
+import { Button } from "@shared/components/ui/button";
+import { SignatureSchemeSelect } from "@shared/components/SignatureSchemeSelect";
+import { LEGACY_SIGNATURE_ALGORITHM, type SignatureAlgorithm } from "@shared/crypto/signature";
+import { verifyDetached, type DetachedResult } from "../utils/detached";
+
+export function VerifierPanel() {
+  const [doc, setDoc] = useState<File | null>(null);
+  const [sigText, setSigText] = useState("");
+  const [sigFile, setSigFile] = useState<File | null>(null);
+  const [keyText, setKeyText] = useState("");
+  const [algorithm, setAlgorithm] = useState<SignatureAlgorithm>(LEGACY_SIGNATURE_ALGORITHM);
+  const [result, setResult] = useState<DetachedResult | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const canVerify = !!doc && (!!sigFile || !!sigText.trim()) && !!keyText.trim();
+
+  const run = async () => {
+    if (!doc) return;
+    setBusy(true);
+    try {
+      const bytes = new Uint8Array(await doc.arrayBuffer());
+      const signature = sigFile ? new Uint8Array(await sigFile.arrayBuffer()) : sigText;
+      setResult(await verifyDetached(bytes, signature, keyText, algorithm));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="rounded-xl border border-slate-700 bg-slate-900/60 p-4 space-y-3">
+      <div>
+        <div className="font-semibold">Verify a detached signature</div>
+        <div className="text-xs opacity-70">Check a document someone else signed against their public key.</div>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-sm">
+        <label className="space-y-1">
+          <div className="text-xs opacity-80">Document</div>
+          <input type="file" onChange={(e) => { setDoc(e.target.files?.[0] ?? null); setResult(null); }} />
+        </label>
+        <div className="space-y-1">
+          <div className="text-xs opacity-80">Signature (base64 or file)</div>
+          <textarea
+            value={sigText}
+            onChange={(e) => { setSigText(e.target.value); setResult(null); }}
+            disabled={!!sigFile}
+            rows={3}
+            placeholder="Paste base64 signature…"
+            className="w-full rounded-md bg-slate-800/70 border border-slate-700 px-2 py-1 font-mono text-xs"
+          />
+          <input type="file" onChange={(e) => { setSigFile(e.target.files?.[0] ?? null); setResult(null); }} />
+        </div>
+        <label className="space-y-1">
+          <div className="text-xs opacity-80">Signer public key (JWK, or RSA SPKI/PKCS#1 PEM or ssh-rsa)</div>
+          <textarea
+            value={keyText}
+            onChange={(e) => { setKeyText(e.target.value); setResult(null); }}
+            rows={5}
+            placeholder="-----BEGIN PUBLIC KEY-----"
+            className="w-full rounded-md bg-slate-800/70 border border-slate-700 px-2 py-1 font-mono text-xs"
+          />
+        </label>
+      </div>
+      <div className="flex items-center gap-3">
+        <SignatureSchemeSelect value={algorithm} onChange={(alg) => { setAlgorithm(alg); setResult(null); }} />
+        <Button disabled={!canVerify || busy} onClick={run}>{busy ? "Verifying…" : "Verify"}</Button>
+        {result && (
+          <div className={result.authentic ? "text-green-400" : "text-red-400"}>
+            {result.authentic ? "✅ Authentic" : "❌ Forged"}
+            <span className="ml-2 text-xs opacity-80">{result.reason}</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,10 @@
+import { createArchiveStore } from "@shared/crypto/archive";
+
+// This app's saved history, kept apart from the other apps' in its own database
+export const archive = createArchiveStore({
+  format: "rsa-docsign-studio-archive",
+  name: "an RSA DocSign Studio archive",
+  dbName: "rsa-docsign-studio-archive",
+});
+
+export const { clearBlobs, deleteArchive, deleteBlob, loadArchive, loadBlob, parseArchive, saveArchive, saveBlob, sealArchive } = archive;
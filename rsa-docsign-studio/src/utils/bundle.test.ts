@@ -0,0 +1,246 @@
+import { describe, expect, it } from "vitest";
+import type { DocEvent } from "../components/Timeline";
+import type { Recipient } from "../components/RecipientsPanel";
+import { BUNDLE_FORMAT, BUNDLE_VERSION, bundleToEvent, createBundle, parseBundle, serializeBundle, type SignedBundle } from "./bundle";
+import { decryptDocument, signDocument, verifyDocument } from "./document";
+import { publicKeyId } from "./rsa";
+import { base64ToBytes, bytesToBase64 } from "@shared/crypto/base64";
+import { generateEncryptionKeyPair } from "@shared/crypto/oaep";
+import { DEFAULT_RSA_PARAMS } from "@shared/crypto/keyparams";
+import { generateSignatureKeyPair, type SignatureAlgorithm } from "@shared/crypto/signature";
+
+const SHA256 = "9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08";
+const SIGNER: JsonWebKey = { kty: "RSA", n: "sXch", e: "AQAB" };
+const BYTES = new TextEncoder().encode("the contract, signed");
+
+function baseEvent(): DocEvent {
+  return {
+    id: "evt-1",
+    filename: "contract.txt",
+    size: BYTES.length,
+    mimeType: "text/plain",
+    sha256: SHA256,
+    signature: "c2lnbmF0dXJl",
+    signatureAlgorithm: { scheme: "RSA-PSS", saltLength: 32, hash: "SHA-384" },
+    createdAt: 1_700_000_000_000,
+  };
+}
+
+const plainEvent = (): DocEvent => ({ ...baseEvent(), payload: new Blob([BYTES]) });
+
+const encryptedEvent = (): DocEvent => ({
+  ...baseEvent(),
+  ciphertext: new Blob([BYTES.map((b) => b ^ 0x5a)]),
+  iv: "bm9uY2VwcmVm",
+  chunkSize: 65536,
+  recipients: [
+    { keyId: "a".repeat(64), label: "Alice", wrappedKey: "d3JhcHBlZC1h" },
+    { keyId: "b".repeat(64), label: "Bob", wrappedKey: "d3JhcHBlZC1i" },
+  ],
+});
+
+const bytesOf = async (blob: Blob | undefined) => new Uint8Array(await blob!.arrayBuffer());
+
+// Round-trips a bundle through its JSON file form
+async function exported(evt: DocEvent, signer: JsonWebKey = SIGNER): Promise<SignedBundle> {
+  return parseBundle(serializeBundle(await createBundle(evt, signer)));
+}
+
+// A bundle's JSON with some fields replaced, or removed when set to undefined
+function tampered(bundle: SignedBundle, changes: Record<string, unknown>): string {
+  return JSON.stringify({ ...bundle, ...changes });
+}
+
+// Real keys, made once: a signer, and encryption keys for two recipients and an outsider
+const PSS: SignatureAlgorithm = { scheme: "RSA-PSS", saltLength: 32 };
+const keys = Promise.all([
+  generateSignatureKeyPair("RSA-PSS"),
+  generateSignatureKeyPair("RSA-PSS"),
+  generateEncryptionKeyPair(),
+  generateEncryptionKeyPair(),
+  generateEncryptionKeyPair(),
+  generateEncryptionKeyPair(true, { ...DEFAULT_RSA_PARAMS, hash: "SHA-384" }),
+]).then(([signer, impostor, alice, bob, carol, dave]) => ({ signer, impostor, alice, bob, carol, dave }));
+
+async function recipient(label: string, pair: CryptoKeyPair): Promise<Recipient> {
+  return { keyId: await publicKeyId(pair.publicKey), label, publicKey: pair.publicKey };
+}
+
+const contract = () => new File([BYTES], "contract.txt", { type: "text/plain", lastModified: 0 });
+
+// Signs (and encrypts, with recipients) a document, then takes it through a bundle file and back
+async function signedAndImported(recipients: Recipient[]): Promise<{ source: DocEvent; bundle: SignedBundle; imported: DocEvent }> {
+  const { signer } = await keys;
+  const source = await signDocument(contract(), signer, PSS, recipients);
+  const bundle = await exported(source, source.signerJwk);
+  return { source, bundle, imported: bundleToEvent(bundle) };
+}
+
+// A bundle file with one byte of a base64 field flipped
+function flipped(bundle: SignedBundle, field: "payload" | "ciphertext" | "signature"): SignedBundle {
+  const bytes = base64ToBytes(bundle[field]!);
+  bytes[bytes.length - 1] ^= 1;
+  return parseBundle(tampered(bundle, { [field]: bytesToBase64(bytes) }));
+}
+
+describe("sign → bundle → verify / decrypt", () => {
+  it("round-trips a signed document", async () => {
+    const { signer } = await keys;
+    const { source, bundle, imported } = await signedAndImported([]);
+    expect(bundle.format).toBe(BUNDLE_FORMAT);
+    expect(bundle.version).toBe(BUNDLE_VERSION);
+    expect(bundle.ciphertext).toBeUndefined();
+    expect(bundle.algorithms).toEqual({ hash: "SHA-256", signature: "RSA-PSS", saltLength: 32 });
+    expect(imported).toMatchObject({
+      filename: "contract.txt",
+      size: BYTES.length,
+      mimeType: "text/plain",
+      sha256: source.sha256,
+      signature: source.signature,
+      signatureAlgorithm: PSS,
+      signerJwk: source.signerJwk,
+      imported: true,
+    });
+    expect(imported.id).not.toBe(source.id);
+    expect(await bytesOf(imported.payload)).toEqual(BYTES);
+
+    const verified = await verifyDocument(imported, signer.publicKey);
+    expect(verified.authentic).toBe(true);
+    expect(verified.tampered).toBeUndefined();
+  });
+
+  it("round-trips a signed and encrypted document to each recipient", async () => {
+    const { signer, alice, bob } = await keys;
+    const { bundle, imported } = await signedAndImported([await recipient("Alice", alice), await recipient("Bob", bob)]);
+    expect(bundle.payload).toBeUndefined();
+    expect(bundle.algorithms.encryption).toBe("AES-GCM-256-CHUNKED");
+    expect(bundle.recipients?.map((r) => r.label)).toEqual(["Alice", "Bob"]);
+    expect((await verifyDocument(imported, signer.publicKey)).authentic).toBe(true);
+
+    for (const pair of [alice, bob]) {
+      const opened = await decryptDocument(imported, pair);
+      expect(opened.decryptedOk).toBe(true);
+      expect(await bytesOf(opened.decrypted)).toEqual(BYTES);
+    }
+  });
+
+  it("records the recipients' OAEP hash and unwraps with it", async () => {
+    const { alice, dave } = await keys;
+    const { bundle, imported } = await signedAndImported([await recipient("Dave", dave)]);
+    expect(bundle.algorithms.keyWrap).toBe("RSA-OAEP-SHA-384");
+    expect(imported.oaepHash).toBe("SHA-384");
+    expect((await decryptDocument(imported, dave)).decryptedOk).toBe(true);
+
+    const sha256 = (await signedAndImported([await recipient("Alice", alice)])).bundle;
+    expect(sha256.algorithms.keyWrap).toBe("RSA-OAEP-SHA-256");
+    expect(bundleToEvent(sha256).oaepHash).toBeUndefined();
+
+    await expect(signedAndImported([await recipient("Alice", alice), await recipient("Dave", dave)])).rejects.toThrow(
+      "different RSA-OAEP hashes (Alice: SHA-256, Dave: SHA-384)",
+    );
+  });
+
+  it("catches a tampered bundle", async () => {
+    const { signer, alice } = await keys;
+    const plain = (await signedAndImported([])).bundle;
+    const payload = await verifyDocument(bundleToEvent(flipped(plain, "payload")), signer.publicKey);
+    expect(payload).toMatchObject({ authentic: false, tampered: true, verifyReason: "Document no longer matches the signed SHA-256" });
+    expect((await verifyDocument(bundleToEvent(flipped(plain, "signature")), signer.publicKey)).authentic).toBe(false);
+
+    const sealed = (await signedAndImported([await recipient("Alice", alice)])).bundle;
+    const opened = await decryptDocument(bundleToEvent(flipped(sealed, "ciphertext")), alice);
+    expect(opened).toMatchObject({ decryptedOk: false, tampered: true });
+    expect(opened.decrypted).toBeUndefined();
+  });
+
+  it("refuses the wrong keys", async () => {
+    const { signer, impostor, alice, carol } = await keys;
+    const { bundle, imported } = await signedAndImported([await recipient("Alice", alice)]);
+
+    const opened = await decryptDocument(imported, carol);
+    expect(opened.decryptedOk).toBe(false);
+    expect(opened.decryptError).toMatch(/^Not encrypted to your key .*; recipients: Alice/);
+
+    // Someone else's key put in as the signer's
+    const impostorJwk = await crypto.subtle.exportKey("jwk", impostor.publicKey);
+    const swapped = bundleToEvent(parseBundle(tampered(bundle, { signer: { publicKeyJwk: impostorJwk } })));
+    expect((await verifyDocument(swapped, signer.publicKey)).authentic).toBe(false);
+  });
+});
+
+describe("createBundle / parseBundle / bundleToEvent", () => {
+  it("records events from before signature schemes as PKCS#1 v1.5", async () => {
+    const bundle = await exported({ ...plainEvent(), signatureAlgorithm: undefined });
+    expect(bundle.algorithms.signature).toBe("RSASSA-PKCS1-v1_5");
+    expect(bundleToEvent(bundle).signatureAlgorithm).toEqual({ scheme: "RSASSA-PKCS1-v1_5" });
+  });
+
+  it("refuses to export an unsigned or incomplete document", async () => {
+    await expect(createBundle({ ...plainEvent(), signature: undefined }, SIGNER)).rejects.toThrow("no signature");
+    await expect(createBundle({ ...encryptedEvent(), iv: undefined }, SIGNER)).rejects.toThrow("missing its IV");
+    await expect(createBundle({ ...baseEvent() }, SIGNER)).rejects.toThrow("neither a payload nor a ciphertext");
+  });
+});
+
+describe("parseBundle", () => {
+  it("rejects files that are not bundles", () => {
+    expect(() => parseBundle("not json")).toThrow("not valid JSON");
+    expect(() => parseBundle("null")).toThrow("not an object");
+    expect(() => parseBundle(JSON.stringify({ format: "something-else", version: 3 }))).toThrow("Not an RSA DocSign bundle");
+  });
+
+  it("rejects unsupported versions", async () => {
+    const bundle = await createBundle(plainEvent(), SIGNER);
+    for (const version of [0, 4, "3", undefined]) {
+      expect(() => parseBundle(tampered(bundle, { version }))).toThrow("Unsupported bundle version");
+    }
+  });
+
+  it("accepts a v1 bundle with a single wrapped key and rejects tampered ones", async () => {
+    const v1 = {
+      ...(await createBundle({ ...encryptedEvent(), chunkSize: undefined, recipients: undefined, wrappedKey: "d3JhcHBlZA" }, SIGNER)),
+      version: 1,
+    };
+    expect(v1.algorithms.encryption).toBe("AES-GCM-256");
+    expect(bundleToEvent(parseBundle(JSON.stringify(v1))).wrappedKey).toBe("d3JhcHBlZA");
+
+    expect(() => parseBundle(tampered(v1, { wrappedKey: undefined }))).toThrow("missing its wrapped key");
+    expect(() => parseBundle(tampered(v1, { iv: "" }))).toThrow("missing its IV");
+    expect(() => parseBundle(tampered(v1, { sha256: SHA256.toUpperCase() }))).toThrow("invalid SHA-256");
+    expect(() => parseBundle(tampered(v1, { algorithms: { ...v1.algorithms, keyWrap: "RSA-OAEP-MD5" } }))).toThrow(
+      "unsupported encryption algorithms",
+    );
+  });
+
+  it("accepts a v2 bundle with per-recipient keys and rejects tampered ones", async () => {
+    const v2 = { ...(await createBundle({ ...encryptedEvent(), chunkSize: undefined }, SIGNER)), version: 2 };
+    expect(parseBundle(JSON.stringify(v2)).recipients).toHaveLength(2);
+
+    expect(() => parseBundle(tampered(v2, { recipients: [] }))).toThrow("malformed recipient list");
+    expect(() => parseBundle(tampered(v2, { recipients: [{ keyId: "a".repeat(64), label: "Alice" }] }))).toThrow(
+      "malformed recipient list",
+    );
+    expect(() => parseBundle(tampered(v2, { signature: "" }))).toThrow("no signature");
+    expect(() => parseBundle(tampered(v2, { signer: { publicKeyJwk: { kty: "oct", k: "c2VjcmV0" } } }))).toThrow(
+      "no signer key",
+    );
+    // Claiming chunked encryption without a chunk size
+    expect(() => parseBundle(tampered(v2, { algorithms: { ...v2.algorithms, encryption: "AES-GCM-256-CHUNKED" } }))).toThrow(
+      "unsupported encryption algorithms",
+    );
+  });
+
+  it("rejects tampered v3 bundles", async () => {
+    const v3 = await createBundle(encryptedEvent(), SIGNER);
+    expect(() => parseBundle(tampered(v3, { chunkSize: 0 }))).toThrow("invalid chunk size");
+    expect(() => parseBundle(tampered(v3, { chunkSize: 1.5 }))).toThrow("invalid chunk size");
+    expect(() => parseBundle(tampered(v3, { size: "12" }))).toThrow("missing file metadata");
+    expect(() => parseBundle(tampered(v3, { ciphertext: undefined }))).toThrow("neither a payload nor a ciphertext");
+    expect(() => parseBundle(tampered(v3, { algorithms: { ...v3.algorithms, hash: "SHA-1" } }))).toThrow("unsupported algorithms");
+    expect(() => parseBundle(tampered(v3, { algorithms: { ...v3.algorithms, signature: "DSA" } }))).toThrow("unsupported algorithms");
+    expect(() => parseBundle(tampered(v3, { algorithms: { ...v3.algorithms, saltLength: -1 } }))).toThrow("invalid RSA-PSS salt length");
+    expect(() => parseBundle(tampered(v3, { algorithms: { ...v3.algorithms, signatureHash: "MD5" } }))).toThrow(
+      "unsupported signature hash",
+    );
+  });
+});
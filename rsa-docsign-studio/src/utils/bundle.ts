@@ -0,0 +1,173 @@
+import type { DocEvent, KeyRecipient } from "../components/Timeline";
+import { base64ToBytes, bytesToBase64 } from "@shared/crypto/base64";
+import { LEGACY_SIGNATURE_ALGORITHM, SIGNATURE_SCHEMES, type SignatureScheme } from "@shared/crypto/signature";
+import { RSA_HASHES, type RsaHash } from "@shared/crypto/keyparams";
+
+// Portable container for a signed (and optionally encrypted) document.
+// Saved as `<filename>.rsasig.json` so it can be handed to someone else.
+export const BUNDLE_FORMAT = "rsa-docsign-bundle";
+// v1 carried a single `wrappedKey`; v2 adds one wrapped key per recipient;
+// v3 adds chunked ciphertext (`chunkSize`, with `iv` holding the nonce prefix)
+export const BUNDLE_VERSION = 3;
+const SUPPORTED_VERSIONS: readonly number[] = [1, 2, BUNDLE_VERSION];
+export const BUNDLE_EXTENSION = ".rsasig.json";
+
+export interface BundleAlgorithms {
+  hash: "SHA-256";
+  signature: SignatureScheme;
+  saltLength?: number; // RSA-PSS only
+  signatureHash?: RsaHash; // RSA schemes only; absent means SHA-256
+  encryption?: "AES-GCM-256" | "AES-GCM-256-CHUNKED";
+  keyWrap?: `RSA-OAEP-${RsaHash}`; // the recipients' OAEP hash; SHA-256 in bundles from before it was selectable
+}
+
+const KEY_WRAPS: readonly string[] = RSA_HASHES.map((h) => `RSA-OAEP-${h}`);
+
+export interface SignedBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  filename: string;
+  size: number;
+  mimeType?: string;
+  createdAt: number;
+  sha256: string;
+  signature: string;
+  payload?: string; // original bytes (base64), only when not encrypted
+  ciphertext?: string;
+  iv?: string;
+  chunkSize?: number;
+  wrappedKey?: string; // v1 only
+  recipients?: KeyRecipient[];
+  signer: { publicKeyJwk: JsonWebKey };
+  algorithms: BundleAlgorithms;
+}
+
+async function blobToBase64(blob: Blob): Promise<string> {
+  return bytesToBase64(new Uint8Array(await blob.arrayBuffer()));
+}
+
+export async function createBundle(evt: DocEvent, signerJwk: JsonWebKey): Promise<SignedBundle> {
+  if (!evt.signature) throw new Error("Document has no signature to export");
+  const { ciphertext, payload } = evt;
+  const signatureAlgorithm = evt.signatureAlgorithm ?? LEGACY_SIGNATURE_ALGORITHM;
+  const encrypted = Boolean(ciphertext);
+  if (encrypted && (!evt.iv || (!evt.wrappedKey && !evt.recipients?.length))) {
+    throw new Error("Encrypted document is missing its IV or wrapped key");
+  }
+  if (!encrypted && !payload) throw new Error("Document has neither a payload nor a ciphertext");
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    filename: evt.filename,
+    size: evt.size,
+    mimeType: evt.mimeType,
+    createdAt: evt.createdAt,
+    sha256: evt.sha256,
+    signature: evt.signature,
+    ...(ciphertext
+      ? {
+        ciphertext: await blobToBase64(ciphertext),
+        iv: evt.iv,
+        chunkSize: evt.chunkSize,
+        wrappedKey: evt.wrappedKey,
+        recipients: evt.recipients,
+      }
+      : { payload: payload && (await blobToBase64(payload)) }),
+    signer: { publicKeyJwk: signerJwk },
+    algorithms: {
+      hash: "SHA-256",
+      signature: signatureAlgorithm.scheme,
+      saltLength: signatureAlgorithm.saltLength,
+      signatureHash: signatureAlgorithm.hash,
+      ...(encrypted
+        ? { encryption: evt.chunkSize ? "AES-GCM-256-CHUNKED" : "AES-GCM-256", keyWrap: `RSA-OAEP-${evt.oaepHash ?? "SHA-256"}` } as const
+        : {}),
+    },
+  };
+}
+
+export function serializeBundle(bundle: SignedBundle): string {
+  return JSON.stringify(bundle, null, 2);
+}
+
+function isString(v: unknown): v is string {
+  return typeof v === "string" && v.length > 0;
+}
+
+export function parseBundle(text: string): SignedBundle {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("Bundle is not valid JSON");
+  }
+  if (!raw || typeof raw !== "object") throw new Error("Bundle is not an object");
+  const b = raw as Partial<SignedBundle>;
+  if (b.format !== BUNDLE_FORMAT) throw new Error("Not an RSA DocSign bundle");
+  if (!SUPPORTED_VERSIONS.includes(b.version as number)) throw new Error(`Unsupported bundle version: ${String(b.version)}`);
+  if (!isString(b.filename) || typeof b.size !== "number" || typeof b.createdAt !== "number") {
+    throw new Error("Bundle is missing file metadata");
+  }
+  if (!isString(b.sha256) || !/^[0-9a-f]{64}$/.test(b.sha256)) throw new Error("Bundle has an invalid SHA-256");
+  if (!isString(b.signature)) throw new Error("Bundle has no signature");
+  if (!b.signer?.publicKeyJwk || !["RSA", "EC", "OKP"].includes(b.signer.publicKeyJwk.kty ?? "")) {
+    throw new Error("Bundle has no signer key");
+  }
+  if (b.algorithms?.hash !== "SHA-256" || !SIGNATURE_SCHEMES.includes(b.algorithms.signature)) {
+    throw new Error("Bundle uses unsupported algorithms");
+  }
+  if (b.algorithms.saltLength !== undefined && (!Number.isInteger(b.algorithms.saltLength) || b.algorithms.saltLength < 0)) {
+    throw new Error("Bundle has an invalid RSA-PSS salt length");
+  }
+  if (b.algorithms.signatureHash !== undefined && !RSA_HASHES.includes(b.algorithms.signatureHash)) {
+    throw new Error("Bundle uses an unsupported signature hash");
+  }
+  if (isString(b.ciphertext)) {
+    if (!isString(b.iv)) throw new Error("Encrypted bundle is missing its IV");
+    if (b.recipients !== undefined) {
+      const ok = Array.isArray(b.recipients) && b.recipients.length > 0 &&
+        b.recipients.every((r) => r && isString(r.keyId) && typeof r.label === "string" && isString(r.wrappedKey));
+      if (!ok) throw new Error("Bundle has a malformed recipient list");
+    } else if (!isString(b.wrappedKey)) {
+      throw new Error("Encrypted bundle is missing its wrapped key");
+    }
+    const chunked = b.chunkSize !== undefined;
+    if (chunked && (!Number.isInteger(b.chunkSize) || (b.chunkSize as number) <= 0)) {
+      throw new Error("Bundle has an invalid chunk size");
+    }
+    if (b.algorithms.encryption !== (chunked ? "AES-GCM-256-CHUNKED" : "AES-GCM-256") || !KEY_WRAPS.includes(b.algorithms.keyWrap ?? "")) {
+      throw new Error("Bundle uses unsupported encryption algorithms");
+    }
+  } else if (!isString(b.payload)) {
+    throw new Error("Bundle has neither a payload nor a ciphertext");
+  }
+  return b as SignedBundle;
+}
+
+export function bundleToEvent(bundle: SignedBundle): DocEvent {
+  return {
+    id: crypto.randomUUID(),
+    filename: bundle.filename,
+    size: bundle.size,
+    mimeType: typeof bundle.mimeType === "string" ? bundle.mimeType : undefined,
+    sha256: bundle.sha256,
+    signature: bundle.signature,
+    signatureAlgorithm: {
+      scheme: bundle.algorithms.signature,
+      saltLength: bundle.algorithms.saltLength,
+      hash: bundle.algorithms.signatureHash,
+    },
+    payload: bundle.payload ? new Blob([base64ToBytes(bundle.payload)]) : undefined,
+    ciphertext: bundle.ciphertext ? new Blob([base64ToBytes(bundle.ciphertext)]) : undefined,
+    iv: bundle.iv,
+    chunkSize: bundle.chunkSize,
+    wrappedKey: bundle.wrappedKey,
+    recipients: bundle.recipients,
+    oaepHash: bundle.algorithms.keyWrap && bundle.algorithms.keyWrap !== "RSA-OAEP-SHA-256"
+      ? (bundle.algorithms.keyWrap.slice("RSA-OAEP-".length) as RsaHash)
+      : undefined,
+    signerJwk: bundle.signer.publicKeyJwk,
+    imported: true,
+    createdAt: bundle.createdAt,
+  };
+}
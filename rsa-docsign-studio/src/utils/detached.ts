@@ -0,0 +1,79 @@
+import { sha256 } from "../lib/utils";
+import { bytesToBase64 } from "@shared/crypto/base64";
+import { detectKeyFormat, isPrivateJwk, parseKey } from "@shared/crypto/keyformat";
+import { LEGACY_SIGNATURE_ALGORITHM, importVerifyKey, verifyWith, type SignatureAlgorithm } from "@shared/crypto/signature";
+
+export interface DetachedResult {
+  authentic: boolean;
+  reason: string;
+  signedOver?: "sha256-hex" | "raw-bytes";
+}
+
+// A signature file may hold base64 text or the raw signature bytes
+export function readSignature(input: string | Uint8Array): Uint8Array {
+  const text = typeof input === "string" ? input : new TextDecoder().decode(input);
+  const compact = text.replace(/\s+/g, "");
+  if (compact && /^[A-Za-z0-9+/]+={0,2}$/.test(compact)) {
+    try {
+      const binary = atob(compact);
+      return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+    } catch {
+      // fall through to raw bytes
+    }
+  }
+  if (typeof input === "string") throw new Error("Signature is not valid base64");
+  return input;
+}
+
+// The signer's public key as a JWK. A JWK may be any signing key type; the
+// PEM and OpenSSH forms only carry RSA keys.
+async function readPublicJwk(text: string): Promise<JsonWebKey> {
+  let jwk: JsonWebKey;
+  if (detectKeyFormat(text) === "jwk") {
+    try {
+      jwk = JSON.parse(text);
+    } catch {
+      throw new Error("Key looks like JSON but could not be parsed");
+    }
+  } else {
+    jwk = (await parseKey(text)).jwk;
+  }
+  if (isPrivateJwk(jwk)) throw new Error("Paste the signer's public key, not a private key");
+  return jwk;
+}
+
+// Checks a detached signature the way DocSign signs (over the SHA-256 hex string),
+// falling back to a signature over the raw file bytes. `algorithm` is the scheme
+// the signer used; for RSA keys it also picks PKCS#1 v1.5 or PSS and the salt.
+export async function verifyDetached(
+  file: Uint8Array,
+  signature: string | Uint8Array,
+  publicKeyText: string,
+  algorithm: SignatureAlgorithm = LEGACY_SIGNATURE_ALGORITHM,
+): Promise<DetachedResult> {
+  let publicKey: CryptoKey;
+  try {
+    publicKey = await importVerifyKey(await readPublicJwk(publicKeyText), algorithm);
+  } catch (err) {
+    return { authentic: false, reason: `Invalid public key: ${(err as Error).message}` };
+  }
+
+  let sig: Uint8Array;
+  try {
+    sig = readSignature(signature);
+  } catch (err) {
+    return { authentic: false, reason: (err as Error).message };
+  }
+
+  const b64sig = bytesToBase64(sig);
+  const shaHex = await sha256(file);
+  const overDigest = await verifyWith(algorithm, publicKey, new TextEncoder().encode(shaHex), b64sig);
+  if (overDigest.valid) {
+    return { authentic: true, reason: `${overDigest.reason} over the document's SHA-256 digest`, signedOver: "sha256-hex" };
+  }
+  const overBytes = await verifyWith(algorithm, publicKey, file, b64sig);
+  if (overBytes.valid) {
+    return { authentic: true, reason: `${overBytes.reason} over the raw document bytes`, signedOver: "raw-bytes" };
+  }
+  return { authentic: false, reason: overDigest.reason };
+}
@@ -0,0 +1,137 @@
+import type { DocEvent, KeyRecipient } from "../components/Timeline";
+import type { Recipient } from "../components/RecipientsPanel";
+import { aesDecrypt, exportAesKeyRaw, exportPublicKeyJwk, generateAesKey, importAesKeyRaw, publicKeyId, shortKeyId } from "./rsa";
+import { STREAM_CHUNK_SIZE, decryptBlob, encryptBlob, hashBlob, type ProgressFn } from "./stream";
+import { sha256 } from "../lib/utils";
+import { rsaParamsOf, type RsaHash } from "@shared/crypto/keyparams";
+import { arrayBufferToBase64, base64ToArrayBuffer, base64ToBytes, bytesToBase64 } from "@shared/crypto/base64";
+import { LEGACY_SIGNATURE_ALGORITHM, importVerifyKey, signWith, verifyWith, type SignatureAlgorithm } from "@shared/crypto/signature";
+
+interface KeyPair {
+  publicKey: CryptoKey;
+  privateKey: CryptoKey;
+}
+
+// The OAEP hash of an RSA-OAEP key (SHA-256 when the key doesn't say)
+function oaepHashOf(key: CryptoKey): RsaHash {
+  return rsaParamsOf(key)?.hash ?? "SHA-256";
+}
+
+// Signs a file and, with recipients, encrypts it to each of them. The file is
+// read chunk by chunk: hashed incrementally, and encrypted on the way when needed.
+// The bundle names one OAEP hash, so every recipient's key must use the same one.
+export async function signDocument(
+  file: File,
+  signing: KeyPair,
+  algorithm: SignatureAlgorithm,
+  recipients: Recipient[],
+  onProgress?: ProgressFn,
+): Promise<DocEvent> {
+  const encrypted = recipients.length > 0;
+  const hashes = [...new Set(recipients.map((r) => oaepHashOf(r.publicKey)))];
+  if (hashes.length > 1) {
+    const each = recipients.map((r) => `${r.label}: ${oaepHashOf(r.publicKey)}`).join(", ");
+    throw new Error(`Recipients' keys use different RSA-OAEP hashes (${each}); encrypt to keys with the same hash`);
+  }
+  let shaHex: string;
+  let ciphertext: Blob | undefined;
+  let iv: string | undefined;
+  let wrappedKeys: KeyRecipient[] | undefined;
+  if (!encrypted) {
+    shaHex = await hashBlob(file, onProgress);
+  } else {
+    const aes = await generateAesKey();
+    const result = await encryptBlob(file, aes, onProgress);
+    shaHex = result.sha256;
+    ciphertext = result.ciphertext;
+    iv = bytesToBase64(result.noncePrefix);
+    const rawAes = await exportAesKeyRaw(aes);
+    // One AES key for the file, wrapped separately for each recipient
+    wrappedKeys = await Promise.all(recipients.map(async (r) => ({
+      keyId: r.keyId,
+      label: r.label,
+      wrappedKey: arrayBufferToBase64(await crypto.subtle.encrypt({ name: "RSA-OAEP" }, r.publicKey, rawAes)),
+    })));
+  }
+  // Sign the SHA-256 hex string bytes so verify uses the same input
+  const signature = await signWith(algorithm, signing.privateKey, new TextEncoder().encode(shaHex));
+  return {
+    id: crypto.randomUUID(),
+    filename: file.name,
+    size: file.size,
+    mimeType: file.type || undefined,
+    sha256: shaHex,
+    signature,
+    signatureAlgorithm: algorithm,
+    signerJwk: await exportPublicKeyJwk(signing.publicKey),
+    payload: encrypted ? undefined : file,
+    ciphertext,
+    iv,
+    chunkSize: encrypted ? STREAM_CHUNK_SIZE : undefined,
+    recipients: wrappedKeys,
+    oaepHash: hashes[0] && hashes[0] !== "SHA-256" ? hashes[0] : undefined,
+    createdAt: Date.now(),
+  };
+}
+
+// Checks the signature with the signer key the event carries, or `ownKey` for
+// this browser's own documents from before signer keys were recorded
+export async function verifyDocument(e: DocEvent, ownKey: CryptoKey): Promise<DocEvent> {
+  try {
+    const alg = e.signatureAlgorithm ?? LEGACY_SIGNATURE_ALGORITHM;
+    const publicKey = e.signerJwk ? await importVerifyKey(e.signerJwk, alg) : ownKey;
+    // Verify over the SHA-256 hex string bytes, matching what we sign
+    const shaBytes = new TextEncoder().encode(e.sha256);
+    const check = await verifyWith(alg, publicKey, shaBytes, e.signature || "");
+    // A plaintext payload must also still hash to the signed digest
+    if (check.valid && e.payload && (await hashBlob(e.payload)) !== e.sha256) {
+      return { ...e, authentic: false, verifyReason: "Document no longer matches the signed SHA-256", tampered: true };
+    }
+    return { ...e, authentic: check.valid, verifyReason: check.reason };
+  } catch (err) {
+    return { ...e, authentic: false, verifyReason: err instanceof Error ? err.message : undefined };
+  }
+}
+
+// Unwraps the AES key with our encryption key, decrypts, and checks the result
+// against the signed SHA-256
+export async function decryptDocument(e: DocEvent, encryption: KeyPair, onProgress?: ProgressFn): Promise<DocEvent> {
+  if (!e.ciphertext || !e.iv) return e;
+  let wrappedKey = e.wrappedKey;
+  if (e.recipients) {
+    const myId = await publicKeyId(encryption.publicKey);
+    const mine = e.recipients.find((r) => r.keyId === myId);
+    if (!mine) {
+      const names = e.recipients.map((r) => `${r.label} (${shortKeyId(r.keyId)})`).join(", ");
+      return { ...e, decryptedOk: false, decryptError: `Not encrypted to your key ${shortKeyId(myId)}; recipients: ${names}` };
+    }
+    wrappedKey = mine.wrappedKey;
+  }
+  if (!wrappedKey) return e;
+  const wrapHash = e.oaepHash ?? "SHA-256";
+  if (oaepHashOf(encryption.privateKey) !== wrapHash) {
+    return { ...e, decryptedOk: false, decryptError: `Wrapped with RSA-OAEP ${wrapHash}, but your key uses ${oaepHashOf(encryption.privateKey)}` };
+  }
+  try {
+    const rawAes = await crypto.subtle.decrypt({ name: "RSA-OAEP" }, encryption.privateKey, base64ToArrayBuffer(wrappedKey));
+    const aes = await importAesKeyRaw(rawAes);
+    let plaintext: Blob;
+    let digest: string;
+    if (e.chunkSize) {
+      const result = await decryptBlob(e.ciphertext, aes, base64ToBytes(e.iv), e.chunkSize, onProgress);
+      plaintext = result.plaintext;
+      digest = result.sha256;
+    } else {
+      // Bundles from before chunking: one AES-GCM call over the whole file
+      const plain = await aesDecrypt(aes, base64ToBytes(e.iv), await e.ciphertext.arrayBuffer());
+      plaintext = new Blob([plain]);
+      digest = await sha256(plain);
+    }
+    if (digest !== e.sha256) return { ...e, decryptedOk: false, decryptError: undefined, tampered: true };
+    return { ...e, decryptedOk: true, decryptError: undefined, decrypted: plaintext };
+  } catch (err) {
+    // Chunked decryption explains what went wrong (modified, reordered, truncated)
+    const reason = e.chunkSize && err instanceof Error ? err.message : undefined;
+    return { ...e, decryptedOk: false, decryptError: reason, tampered: true };
+  }
+}
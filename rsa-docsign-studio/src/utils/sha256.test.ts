@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { Sha256 } from "./sha256";
+import { STREAM_CHUNK_SIZE, hashBlob } from "./stream";
+
+const hex = (bytes: ArrayBuffer) => Array.from(new Uint8Array(bytes), (b) => b.toString(16).padStart(2, "0")).join("");
+const subtleHex = async (data: Uint8Array) => hex(await crypto.subtle.digest("SHA-256", data));
+
+// Deterministic filler, so a failure can be reproduced byte for byte
+function bytes(length: number): Uint8Array {
+  const out = new Uint8Array(length);
+  let x = 0x2545f491;
+  for (let i = 0; i < length; i++) {
+    x = (Math.imul(x, 1103515245) + 12345) >>> 0;
+    out[i] = x >>> 24;
+  }
+  return out;
+}
+
+describe("Sha256", () => {
+  it("matches the FIPS 180-4 examples", () => {
+    expect(new Sha256().digestHex()).toBe("e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855");
+    expect(new Sha256().update(new TextEncoder().encode("abc")).digestHex())
+      .toBe("ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad");
+    expect(new Sha256().update(new TextEncoder().encode("abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq")).digestHex())
+      .toBe("248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1");
+  });
+
+  it("agrees with crypto.subtle around the 64-byte block and the length padding", async () => {
+    // 55 is the longest message whose padding fits in one block; 56 spills into a second
+    for (const length of [1, 55, 56, 63, 64, 65, 119, 120, 127, 128, 129, 1000]) {
+      const data = bytes(length);
+      expect(new Sha256().update(data).digestHex(), `${length} bytes`).toBe(await subtleHex(data));
+    }
+  });
+
+  it("gives the same digest however the input is split", async () => {
+    const data = bytes(300);
+    const expected = await subtleHex(data);
+    for (const cuts of [[0, 1, 64], [63, 65, 200], [10, 128, 129], [64, 128, 192]]) {
+      const hash = new Sha256();
+      let from = 0;
+      for (const cut of [...cuts, data.length]) {
+        hash.update(data.subarray(from, cut));
+        from = cut;
+      }
+      expect(hash.digestHex(), `cut at ${cuts.join(", ")}`).toBe(expected);
+    }
+  });
+
+  it("refuses to be used after the digest", () => {
+    const hash = new Sha256();
+    hash.digest();
+    expect(() => hash.update(new Uint8Array(1))).toThrow("Hash already finalized");
+    expect(() => hash.digest()).toThrow("Hash already finalized");
+  });
+});
+
+describe("hashBlob", () => {
+  it("hashes across stream chunk boundaries like crypto.subtle does in one go", async () => {
+    for (const length of [0, STREAM_CHUNK_SIZE, STREAM_CHUNK_SIZE + 1, 2 * STREAM_CHUNK_SIZE + 37]) {
+      const data = bytes(length);
+      expect(await hashBlob(new Blob([data])), `${length} bytes`).toBe(await subtleHex(data));
+    }
+  });
+});
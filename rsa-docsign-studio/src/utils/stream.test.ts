@@ -0,0 +1,91 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { STREAM_CHUNK_SIZE, decryptBlob, encryptBlob } from "./stream";
+
+const TAG_LENGTH = 16;
+const SEALED_CHUNK = STREAM_CHUNK_SIZE + TAG_LENGTH;
+
+const hex = (bytes: ArrayBuffer) => Array.from(new Uint8Array(bytes), (b) => b.toString(16).padStart(2, "0")).join("");
+
+function bytes(length: number): Uint8Array {
+  const out = new Uint8Array(length);
+  let x = 0x1b873593;
+  for (let i = 0; i < length; i++) {
+    x = (Math.imul(x, 1103515245) + 12345) >>> 0;
+    out[i] = x >>> 24;
+  }
+  return out;
+}
+
+const aesKey = () => crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, ["encrypt", "decrypt"]);
+
+// Two and a half chunks: two full ones and a short final one
+const FILE = bytes(2 * STREAM_CHUNK_SIZE + STREAM_CHUNK_SIZE / 2);
+
+async function sealed(data: Uint8Array = FILE) {
+  const key = await aesKey();
+  const result = await encryptBlob(new Blob([data]), key);
+  return { key, ...result, sealedBytes: new Uint8Array(await result.ciphertext.arrayBuffer()) };
+}
+
+describe("chunked AES-GCM", () => {
+  // Sealed once and tampered with by each test below
+  let sealedFile: Awaited<ReturnType<typeof sealed>>;
+  beforeAll(async () => {
+    sealedFile = await sealed();
+  });
+
+  it("round-trips files of every shape, hashing the plaintext on both sides", async () => {
+    for (const length of [0, 1, STREAM_CHUNK_SIZE, STREAM_CHUNK_SIZE + 1, FILE.length]) {
+      const data = length === FILE.length ? FILE : bytes(length);
+      const { key, ciphertext, noncePrefix, sha256 } = length === FILE.length ? sealedFile : await sealed(data);
+      const expected = hex(await crypto.subtle.digest("SHA-256", data));
+      expect(sha256, `${length} bytes`).toBe(expected);
+      expect(ciphertext.size).toBe(length + Math.max(1, Math.ceil(length / STREAM_CHUNK_SIZE)) * TAG_LENGTH);
+      const opened = await decryptBlob(ciphertext, key, noncePrefix, STREAM_CHUNK_SIZE);
+      expect(opened.sha256).toBe(expected);
+      // Compared by digest: deep-equal over megabytes of bytes is slower than the decryption
+      expect(hex(await crypto.subtle.digest("SHA-256", await opened.plaintext.arrayBuffer()))).toBe(expected);
+      expect(opened.plaintext.size).toBe(length);
+    }
+  });
+
+  it("reports a stream cut at a chunk boundary as truncated", async () => {
+    const { key, sealedBytes, noncePrefix } = sealedFile;
+    const cut = new Blob([sealedBytes.subarray(0, 2 * SEALED_CHUNK)]);
+    await expect(decryptBlob(cut, key, noncePrefix, STREAM_CHUNK_SIZE)).rejects.toThrow("Ciphertext is truncated");
+  });
+
+  it("rejects a stream cut inside a chunk", async () => {
+    const { key, sealedBytes, noncePrefix } = sealedFile;
+    const cut = new Blob([sealedBytes.subarray(0, SEALED_CHUNK + 100)]);
+    await expect(decryptBlob(cut, key, noncePrefix, STREAM_CHUNK_SIZE)).rejects.toThrow("Chunk 1 failed authentication");
+  });
+
+  it("rejects reordered chunks", async () => {
+    const { key, sealedBytes, noncePrefix } = sealedFile;
+    const swapped = new Blob([
+      sealedBytes.subarray(SEALED_CHUNK, 2 * SEALED_CHUNK),
+      sealedBytes.subarray(0, SEALED_CHUNK),
+      sealedBytes.subarray(2 * SEALED_CHUNK),
+    ]);
+    await expect(decryptBlob(swapped, key, noncePrefix, STREAM_CHUNK_SIZE)).rejects.toThrow("Chunk 0 failed authentication");
+  });
+
+  it("rejects a flipped byte in any chunk", async () => {
+    const { key, sealedBytes, noncePrefix } = sealedFile;
+    for (const [index, offset] of [[0, 5], [1, SEALED_CHUNK + 12345], [2, sealedBytes.length - 1]]) {
+      const tampered = sealedBytes.slice();
+      tampered[offset] ^= 0x01;
+      await expect(decryptBlob(new Blob([tampered]), key, noncePrefix, STREAM_CHUNK_SIZE))
+        .rejects.toThrow(`Chunk ${index} failed authentication`);
+    }
+  });
+
+  it("rejects the wrong nonce prefix", async () => {
+    const { key, ciphertext, noncePrefix } = await sealed(bytes(10));
+    await expect(decryptBlob(ciphertext, key, noncePrefix.subarray(1), STREAM_CHUNK_SIZE)).rejects.toThrow("Invalid chunk nonce prefix");
+    const other = noncePrefix.slice();
+    other[0] ^= 0xff;
+    await expect(decryptBlob(ciphertext, key, other, STREAM_CHUNK_SIZE)).rejects.toThrow("Chunk 0 failed authentication");
+  });
+});
@@ -0,0 +1,146 @@
+import { Sha256 } from "./sha256";
+
+// Chunked AES-GCM for files too large to encrypt in one call.
+//  - the input is read as a stream, so only one chunk of it is held at a time;
+//    the output is not streamed: every sealed (or opened) chunk is collected
+//    in memory and returned as one Blob, so peak memory grows with the file
+//  - the plaintext is split into STREAM_CHUNK_SIZE pieces, each sealed separately
+//  - chunk i uses IV = 8-byte random prefix || uint32 big-endian i, so swapping
+//    or reordering chunks breaks their tags
+//  - the last chunk is sealed with additional data 0x01 and every other chunk
+//    with 0x00, so cutting the file at a chunk boundary is detected too
+export const STREAM_CHUNK_SIZE = 1024 * 1024;
+export const STREAM_NONCE_PREFIX_LENGTH = 8;
+const TAG_LENGTH = 16;
+
+export type ProgressFn = (done: number, total: number) => void;
+
+export interface StreamEncryptResult {
+  ciphertext: Blob;
+  noncePrefix: Uint8Array;
+  sha256: string; // of the plaintext
+}
+
+export interface StreamDecryptResult {
+  plaintext: Blob;
+  sha256: string;
+}
+
+// Re-slices a byte stream into fixed-size chunks, holding one back so the
+// last chunk can be flagged. An empty stream yields one empty final chunk.
+async function* readChunks(
+  stream: ReadableStream<Uint8Array>,
+  size: number,
+): AsyncGenerator<{ chunk: Uint8Array; final: boolean }> {
+  const reader = stream.getReader();
+  let buf = new Uint8Array(size);
+  let fill = 0;
+  let held: Uint8Array | null = null;
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      let off = 0;
+      while (off < value.length) {
+        const n = Math.min(size - fill, value.length - off);
+        buf.set(value.subarray(off, off + n), fill);
+        fill += n;
+        off += n;
+        if (fill === size) {
+          if (held) yield { chunk: held, final: false };
+          held = buf;
+          buf = new Uint8Array(size);
+          fill = 0;
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+  if (held && fill === 0) {
+    yield { chunk: held, final: true };
+    return;
+  }
+  if (held) yield { chunk: held, final: false };
+  yield { chunk: buf.subarray(0, fill), final: true };
+}
+
+function chunkIv(prefix: Uint8Array, index: number): Uint8Array {
+  const iv = new Uint8Array(12);
+  iv.set(prefix, 0);
+  new DataView(iv.buffer).setUint32(8, index);
+  return iv;
+}
+
+function chunkAad(final: boolean): Uint8Array {
+  return new Uint8Array([final ? 1 : 0]);
+}
+
+export async function hashBlob(blob: Blob, onProgress?: ProgressFn): Promise<string> {
+  const hash = new Sha256();
+  let done = 0;
+  for await (const { chunk } of readChunks(blob.stream(), STREAM_CHUNK_SIZE)) {
+    hash.update(chunk);
+    done += chunk.length;
+    onProgress?.(done, blob.size);
+  }
+  return hash.digestHex();
+}
+
+export async function encryptBlob(blob: Blob, key: CryptoKey, onProgress?: ProgressFn): Promise<StreamEncryptResult> {
+  const noncePrefix = crypto.getRandomValues(new Uint8Array(STREAM_NONCE_PREFIX_LENGTH));
+  const hash = new Sha256();
+  const parts: ArrayBuffer[] = [];
+  let index = 0;
+  let done = 0;
+  for await (const { chunk, final } of readChunks(blob.stream(), STREAM_CHUNK_SIZE)) {
+    hash.update(chunk);
+    parts.push(await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv: chunkIv(noncePrefix, index++), additionalData: chunkAad(final) },
+      key,
+      chunk,
+    ));
+    done += chunk.length;
+    onProgress?.(done, blob.size);
+  }
+  return { ciphertext: new Blob(parts), noncePrefix, sha256: hash.digestHex() };
+}
+
+export async function decryptBlob(
+  ciphertext: Blob,
+  key: CryptoKey,
+  noncePrefix: Uint8Array,
+  chunkSize: number,
+  onProgress?: ProgressFn,
+): Promise<StreamDecryptResult> {
+  if (noncePrefix.length !== STREAM_NONCE_PREFIX_LENGTH) throw new Error("Invalid chunk nonce prefix");
+  const hash = new Sha256();
+  const parts: ArrayBuffer[] = [];
+  let index = 0;
+  let done = 0;
+  for await (const { chunk, final } of readChunks(ciphertext.stream(), chunkSize + TAG_LENGTH)) {
+    const iv = chunkIv(noncePrefix, index);
+    let plain: ArrayBuffer;
+    try {
+      plain = await crypto.subtle.decrypt({ name: "AES-GCM", iv, additionalData: chunkAad(final) }, key, chunk);
+    } catch {
+      if (final && (await opensAsMiddleChunk(key, iv, chunk))) throw new Error("Ciphertext is truncated");
+      throw new Error(`Chunk ${index} failed authentication (modified or out of order)`);
+    }
+    hash.update(new Uint8Array(plain));
+    parts.push(plain);
+    index++;
+    done += chunk.length;
+    onProgress?.(done, ciphertext.size);
+  }
+  return { plaintext: new Blob(parts), sha256: hash.digestHex() };
+}
+
+async function opensAsMiddleChunk(key: CryptoKey, iv: Uint8Array, chunk: Uint8Array): Promise<boolean> {
+  try {
+    await crypto.subtle.decrypt({ name: "AES-GCM", iv, additionalData: chunkAad(false) }, key, chunk);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,319 @@
+#!/usr/bin/env node
+// A WebSocket relay for running the messenger across machines: each agent's
+// tab joins under their name, and the relay forwards every envelope to the
+// connections of the agent it is addressed to. Envelopes are opaque strings
+// to the relay (sealed messages, signatures and public keys), so it never
+// sees a plaintext. No dependencies: the WebSocket protocol (RFC 6455) is
+// implemented here on top of node:http.
+//
+// It can also play a malicious relay, acting on addressed envelopes only so
+// agents can still find each other:
+//   --drop P     drop an envelope with probability P
+//   --delay MS   hold every envelope back MS milliseconds
+//   --jitter MS  plus a random extra delay of up to MS milliseconds
+//   --replay P   deliver an envelope a second time, --replay-after MS later
+//   --modify P   flip one character of an envelope with probability P
+//
+//   npm run relay -- --port 8787 --drop 0.1 --replay 0.2
+
+import { createServer } from "node:http";
+import { createHash, randomInt } from "node:crypto";
+import { parseArgs } from "node:util";
+
+// Wire protocol, one JSON text frame each way:
+//   client → relay: { type: "join", id }              announce which agent this connection is
+//                   { type: "send", to, payload }     `to` is an agent id, or "*" for everyone else
+//   relay → client: { type: "deliver", from, payload }
+//                   { type: "error", message }
+
+const WS_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+const MAX_MESSAGE_BYTES = 16 * 1024 * 1024;
+const BROADCAST = "*";
+
+const OPCODES = { continuation: 0x0, text: 0x1, binary: 0x2, close: 0x8, ping: 0x9, pong: 0xa };
+
+const { values: options } = parseArgs({
+  options: {
+    host: { type: "string", default: "0.0.0.0" },
+    port: { type: "string", default: "8787" },
+    drop: { type: "string", default: "0" },
+    delay: { type: "string", default: "0" },
+    jitter: { type: "string", default: "0" },
+    replay: { type: "string", default: "0" },
+    "replay-after": { type: "string", default: "3000" },
+    modify: { type: "string", default: "0" },
+    quiet: { type: "boolean", default: false },
+  },
+});
+
+function numberOption(name, { min = 0, max = Infinity } = {}) {
+  const value = Number(options[name]);
+  if (!Number.isFinite(value) || value < min || value > max) {
+    console.error(`--${name} must be a number from ${min} to ${max}, got "${options[name]}"`);
+    process.exit(1);
+  }
+  return value;
+}
+
+const config = {
+  port: numberOption("port", { min: 0, max: 65535 }),
+  drop: numberOption("drop", { max: 1 }),
+  delay: numberOption("delay"),
+  jitter: numberOption("jitter"),
+  replay: numberOption("replay", { max: 1 }),
+  replayAfter: numberOption("replay-after"),
+  modify: numberOption("modify", { max: 1 }),
+};
+const malicious = config.drop > 0 || config.delay > 0 || config.jitter > 0 || config.replay > 0 || config.modify > 0;
+
+function log(line) {
+  if (!options.quiet) console.log(`[relay ${new Date().toLocaleTimeString()}] ${line}`);
+}
+
+// ---- WebSocket framing -----------------------------------------------------
+
+function encodeFrame(opcode, payload) {
+  const length = payload.length;
+  const header = length < 126 ? Buffer.alloc(2) : length < 65536 ? Buffer.alloc(4) : Buffer.alloc(10);
+  header[0] = 0x80 | opcode; // FIN, never fragmented
+  if (length < 126) {
+    header[1] = length;
+  } else if (length < 65536) {
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+// Splits complete frames off the front of `buffer`; returns them and whatever is left over
+function decodeFrames(buffer) {
+  const frames = [];
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const first = buffer[offset];
+    const second = buffer[offset + 1];
+    let length = second & 0x7f;
+    let cursor = offset + 2;
+    if (length === 126) {
+      if (buffer.length - cursor < 2) break;
+      length = buffer.readUInt16BE(cursor);
+      cursor += 2;
+    } else if (length === 127) {
+      if (buffer.length - cursor < 8) break;
+      const big = buffer.readBigUInt64BE(cursor);
+      if (big > BigInt(MAX_MESSAGE_BYTES)) throw new Error("Frame too large");
+      length = Number(big);
+      cursor += 8;
+    }
+    if (length > MAX_MESSAGE_BYTES) throw new Error("Frame too large");
+    const masked = (second & 0x80) !== 0;
+    if (!masked) throw new Error("Client frames must be masked");
+    if (buffer.length - cursor < 4 + length) break;
+    const mask = buffer.subarray(cursor, cursor + 4);
+    cursor += 4;
+    const payload = Buffer.from(buffer.subarray(cursor, cursor + length));
+    for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    frames.push({ fin: (first & 0x80) !== 0, opcode: first & 0x0f, payload });
+    offset = cursor + length;
+  }
+  return { frames, rest: buffer.subarray(offset) };
+}
+
+// One client connection: reassembles fragmented messages and answers pings
+function connect(socket, onText, onClose) {
+  let pending = Buffer.alloc(0);
+  let fragments = null;
+  let closed = false;
+
+  const write = (opcode, payload) => {
+    if (!closed && socket.writable) socket.write(encodeFrame(opcode, payload));
+  };
+
+  const close = (code = 1000, reason = "") => {
+    if (closed) return;
+    const payload = Buffer.alloc(2 + Buffer.byteLength(reason));
+    payload.writeUInt16BE(code, 0);
+    payload.write(reason, 2);
+    write(OPCODES.close, payload);
+    closed = true;
+    socket.end();
+  };
+
+  socket.on("data", (chunk) => {
+    let decoded;
+    try {
+      decoded = decodeFrames(Buffer.concat([pending, chunk]));
+    } catch (err) {
+      close(1009, err.message);
+      return;
+    }
+    pending = decoded.rest;
+    for (const frame of decoded.frames) {
+      if (closed) return;
+      switch (frame.opcode) {
+        case OPCODES.ping:
+          write(OPCODES.pong, frame.payload);
+          break;
+        case OPCODES.pong:
+          break;
+        case OPCODES.close:
+          close(1000);
+          break;
+        case OPCODES.binary:
+          close(1003, "Text frames only");
+          break;
+        case OPCODES.text:
+        case OPCODES.continuation: {
+          if (frame.opcode === OPCODES.text) fragments = [];
+          if (!fragments) {
+            close(1002, "Continuation without a start");
+            break;
+          }
+          fragments.push(frame.payload);
+          if (fragments.reduce((n, f) => n + f.length, 0) > MAX_MESSAGE_BYTES) {
+            close(1009, "Message too large");
+            break;
+          }
+          if (frame.fin) {
+            const text = Buffer.concat(fragments).toString("utf8");
+            fragments = null;
+            onText(text);
+          }
+          break;
+        }
+        default:
+          close(1002, "Unknown opcode");
+      }
+    }
+  });
+  socket.on("close", () => {
+    closed = true;
+    onClose();
+  });
+  socket.on("error", () => socket.destroy());
+
+  return { sendText: (text) => write(OPCODES.text, Buffer.from(text, "utf8")), close };
+}
+
+// ---- Routing ----------------------------------------------------------------
+
+// Every open connection, by the agent id it joined as
+const agents = new Map();
+
+function deliver(to, from, payload) {
+  const targets = to === BROADCAST
+    ? [...agents.entries()].filter(([id]) => id !== from).flatMap(([, conns]) => [...conns])
+    : [...(agents.get(to) ?? [])];
+  const text = JSON.stringify({ type: "deliver", from, payload });
+  targets.forEach((conn) => conn.sendText(text));
+  return targets.length;
+}
+
+// Swaps one letter or digit for another; the relay can't tell what it hits
+function modify(payload) {
+  const positions = [];
+  for (let i = 0; i < payload.length; i++) if (/[A-Za-z0-9]/.test(payload[i])) positions.push(i);
+  if (positions.length === 0) return payload;
+  const at = positions[randomInt(positions.length)];
+  const alphabet = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789".replace(payload[at], "");
+  return payload.slice(0, at) + alphabet[randomInt(alphabet.length)] + payload.slice(at + 1);
+}
+
+// An addressed envelope, through whatever the malicious settings do to it
+function forward(from, to, payload) {
+  const route = `${from} → ${to} (${Buffer.byteLength(payload)} bytes)`;
+  if (to === BROADCAST) {
+    log(`${from} → everyone (${Buffer.byteLength(payload)} bytes): ${deliver(to, from, payload)} delivered`);
+    return;
+  }
+  if (Math.random() < config.drop) {
+    log(`${route}: dropped`);
+    return;
+  }
+  let body = payload;
+  const notes = [];
+  if (Math.random() < config.modify) {
+    body = modify(body);
+    notes.push("modified");
+  }
+  const wait = config.delay + (config.jitter > 0 ? randomInt(config.jitter + 1) : 0);
+  if (wait > 0) notes.push(`delayed ${wait} ms`);
+  const replayed = Math.random() < config.replay;
+  if (replayed) notes.push(`replaying in ${wait + config.replayAfter} ms`);
+  setTimeout(() => {
+    const n = deliver(to, from, body);
+    log(`${route}${notes.length ? ` [${notes.join(", ")}]` : ""}: ${n ? "delivered" : `${to} isn't connected`}`);
+  }, wait);
+  if (replayed) {
+    setTimeout(() => log(`${route}: replayed to ${deliver(to, from, body)} connection(s)`), wait + config.replayAfter);
+  }
+}
+
+const server = createServer((_req, res) => {
+  res.writeHead(200, { "Content-Type": "text/plain; charset=utf-8" });
+  res.end(`Secret Agent Messenger relay. Agents online: ${[...agents.keys()].join(", ") || "none"}\n`);
+});
+
+server.on("upgrade", (req, socket) => {
+  const key = req.headers["sec-websocket-key"];
+  if (req.headers.upgrade?.toLowerCase() !== "websocket" || typeof key !== "string") {
+    socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+    return;
+  }
+  const accept = createHash("sha1").update(key + WS_GUID).digest("base64");
+  socket.write(
+    "HTTP/1.1 101 Switching Protocols\r\n" +
+      "Upgrade: websocket\r\n" +
+      "Connection: Upgrade\r\n" +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`,
+  );
+
+  let id = null;
+  const conn = connect(
+    socket,
+    (text) => {
+      let msg;
+      try {
+        msg = JSON.parse(text);
+      } catch {
+        conn.sendText(JSON.stringify({ type: "error", message: "Not JSON" }));
+        return;
+      }
+      if (msg?.type === "join" && typeof msg.id === "string" && msg.id && msg.id !== BROADCAST && id === null) {
+        id = msg.id;
+        if (!agents.has(id)) agents.set(id, new Set());
+        agents.get(id).add(conn);
+        log(`${id} joined from ${req.socket.remoteAddress}`);
+      } else if (msg?.type === "send" && typeof msg.to === "string" && typeof msg.payload === "string") {
+        if (id === null) {
+          conn.sendText(JSON.stringify({ type: "error", message: "Join before sending" }));
+          return;
+        }
+        forward(id, msg.to, msg.payload);
+      } else {
+        conn.sendText(JSON.stringify({ type: "error", message: "Unknown request" }));
+      }
+    },
+    () => {
+      if (id === null) return;
+      const conns = agents.get(id);
+      conns?.delete(conn);
+      if (conns?.size === 0) agents.delete(id);
+      log(`${id} left`);
+    },
+  );
+});
+
+server.listen(config.port, options.host, () => {
+  const { port } = server.address();
+  log(`listening on ws://${options.host}:${port}`);
+  if (malicious) {
+    log(
+      `MALICIOUS: drop ${config.drop}, delay ${config.delay}+${config.jitter} ms, ` +
+        `replay ${config.replay} after ${config.replayAfter} ms, modify ${config.modify}`,
+    );
+  }
+});
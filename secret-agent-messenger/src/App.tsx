@@ -1,101 +1,721 @@
-import { useEffect, useState } from 'react'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import './index.css'
 import { AgentCard } from './components/AgentCard'
 import { ChatWindow, type ChatMessage } from './components/ChatWindow'
-import { Button } from './components/ui/button'
-import type { AgentKeys } from './utils/rsa'
+import { Button } from '@shared/components/ui/button'
+import type { AgentKeys, AgentName } from './utils/rsa'
 import {
-  generateEncryptionKeyPair,
-  generateSigningKeyPair,
-  encryptString,
-  decryptToString,
-  signString,
-  verifySignature,
   exportPublicKeyJwk,
   exportPrivateKeyJwk,
+  oaepLimit,
 } from './utils/rsa'
-import { KeyViewer } from './components/KeyViewer'
+import { generateEncryptionKeyPair } from '@shared/crypto/oaep'
+import { KeyViewer } from '@shared/components/KeyViewer'
+import { KeyringPanel } from '@shared/components/KeyringPanel'
+import { KeySettingsPanel } from '@shared/components/KeySettingsPanel'
+import { SignatureSchemeSelect } from '@shared/components/SignatureSchemeSelect'
+import { TextbookRsaPanel } from './components/TextbookRsaPanel'
+import { AttackLabPanel } from './components/AttackLabPanel'
+import { PaddingOraclePanel } from './components/PaddingOraclePanel'
+import { FingerprintCheck, type KeyComparison, type SafetyView } from './components/FingerprintCheck'
+import { GroupPanel } from './components/GroupPanel'
+import {
+  LEGACY_SIGNATURE_ALGORITHM,
+  algorithmForKey,
+  generateSignatureKeyPair,
+  schemeOfKey,
+  type SignatureAlgorithm,
+} from '@shared/crypto/signature'
+import { ENVELOPE_MODES, KEY_TRANSPORTS, eveTestGuess, openMessage, relayMessage, sealMessage, type EnvelopeMode, type KeyTransport } from './utils/envelope'
+import { addKeyPair, ensureActiveKey, exportKeys, importKeys, keyring, listKeys, listOwners, setActiveKey, type ArchivedKey } from './utils/keyring'
+import { DEFAULT_RSA_PARAMS, describeRsaParams, rsaParamsOf, type RsaKeyParams } from '@shared/crypto/keyparams'
+import { LEGACY_MODULUS_BITS, generateLegacyKey } from './utils/pkcs1'
+import { createMeta, createReplayGuard, type GuardMemory, type ReplayGuard } from './utils/replay'
+import { createHandshake, isRatchetCiphertext, openSession, preferredCurve, restoreSession, type Session, type SessionSnapshot } from './utils/session'
+import { ARCHIVE_EXTENSION, serializeArchive, type ArchiveKey } from '@shared/crypto/archive'
+import { archive, sealArchive } from './utils/archive'
+import type { TextbookKey } from './utils/textbook'
+import { downloadBlob } from '@shared/lib/utils'
+import { UnlockScreen } from '@shared/components/UnlockScreen'
+import { NetworkPanel } from './components/NetworkPanel'
+import { DEFAULT_RELAY_PORT, createBroadcastTransport, createRelayTransport, importPublishedKeys, joinWire, publishKeys, type LinkKind, type Peer, type Transport } from './utils/transport'
+import { fingerprintKey } from '@shared/crypto/fingerprint'
+import { TRUST_LABELS, acceptChangedKeys, observeKeys, trustOf, withContact, type Directory, type PinnedKeys } from '@shared/crypto/directory'
+
+// The starting cast; anyone else who owns keys in the keyring is a recruit
+const AGENT_NAMES: AgentName[] = ['Alice', 'Bob', 'Eve']
+
+const AGENT_EMOJI: Record<AgentName, string> = { Alice: '👩‍💻', Bob: '👨‍💻', Eve: '😈' }
+
+// How the public keys reached Alice and Bob
+//  - honest:       each got the other's real keys
+//  - swap-encrypt: Eve handed each of them her encryption key as the other's; she reads and forwards
+//  - swap-all:     Eve also handed over her signing key, so she can re-sign (and rewrite)
+type KeyExchange = 'honest' | 'swap-encrypt' | 'swap-all'
+
+const KEY_EXCHANGES: Record<KeyExchange, string> = {
+  honest: 'Honest key exchange',
+  'swap-encrypt': 'Eve swaps encryption keys: reads and forwards',
+  'swap-all': 'Eve swaps all keys: reads and re-signs',
+}
+
+type Agents = Partial<Record<AgentName, AgentKeys>>
+
+// The public key `holder` ended up with for `owner` after the exchange. Eve
+// only sits between Alice and Bob; everyone else's keys arrive intact.
+function heldKey(agents: Agents, exchange: KeyExchange, holder: AgentName, owner: AgentName, purpose: 'encrypt' | 'sign'): CryptoKey | undefined {
+  const between = (holder === 'Alice' && owner === 'Bob') || (holder === 'Bob' && owner === 'Alice')
+  const swapped = between && (purpose === 'encrypt' ? exchange !== 'honest' : exchange === 'swap-all')
+  return (swapped ? agents.Eve : agents[owner])?.[purpose].publicKey
+}
+
+// A record without one agent's entry
+function without<T>(record: Record<AgentName, T>, name: AgentName): Record<AgentName, T> {
+  const rest = { ...record }
+  delete rest[name]
+  return rest
+}
+
+// What the encrypted archive holds: the conversation, plus every key and
+// counter outside the keyring that reading it again depends on
+interface MessengerArchive {
+  history: ChatMessage[]
+  legacyBob: TextbookKey
+  sentSeq: Record<string, number>
+  guards: Record<AgentName, GuardMemory>
+  sessions: SessionSnapshot[]
+  directory?: Directory // absent in archives saved before peers' keys were pinned
+  keys?: ArchivedKey[] // exports only: a saved archive sits next to the keyring itself
+}
+
+async function archiveContents(
+  history: ChatMessage[],
+  legacyBob: TextbookKey,
+  sentSeq: Record<string, number>,
+  guards: Map<AgentName, ReplayGuard>,
+  sessions: Map<string, Session>,
+  directory: Directory,
+): Promise<MessengerArchive> {
+  return {
+    history,
+    legacyBob,
+    sentSeq,
+    guards: Object.fromEntries([...guards].map(([name, guard]) => [name, guard.memory()])),
+    sessions: await Promise.all([...sessions.values()].map((session) => session.snapshot())),
+    directory,
+  }
+}
+
+async function loadAgentKeys(name: AgentName): Promise<AgentKeys> {
+  const [enc, sig] = await Promise.all([
+    ensureActiveKey(name, 'encrypt', () => generateEncryptionKeyPair()),
+    ensureActiveKey(name, 'sign', () => generateSignatureKeyPair(LEGACY_SIGNATURE_ALGORITHM.scheme)),
+  ])
+  return {
+    name,
+    encrypt: { publicKey: enc.publicKey, privateKey: enc.privateKey },
+    sign: { publicKey: sig.publicKey, privateKey: sig.privateKey },
+  }
+}
 
 function App() {
   const [alice, setAlice] = useState<AgentKeys | null>(null)
   const [bob, setBob] = useState<AgentKeys | null>(null)
-  const [_eve, _setEve] = useState<AgentKeys | null>(null)
+  const [eve, setEve] = useState<AgentKeys | null>(null)
+  const [recruits, setRecruits] = useState<AgentKeys[]>([])
+  const [recruitNames, setRecruitNames] = useState<AgentName[]>([])
+  const [recruitName, setRecruitName] = useState('')
+  const [showGroups, setShowGroups] = useState(false)
   const [showKeys, setShowKeys] = useState(false)
   const [message, setMessage] = useState('')
   const [history, setHistory] = useState<ChatMessage[]>([])
+  const [sendError, setSendError] = useState<string | null>(null)
+  const [mode, setMode] = useState<EnvelopeMode>('sign-then-encrypt')
   const [tamper, setTamper] = useState(false)
+  const [sigAlgorithm, setSigAlgorithm] = useState<SignatureAlgorithm>(LEGACY_SIGNATURE_ALGORITHM)
   const [gameMode, setGameMode] = useState(false)
+  const [showTextbook, setShowTextbook] = useState(false)
+  const [showAttackLab, setShowAttackLab] = useState(false)
+  const [keyParams, setKeyParams] = useState<RsaKeyParams>(DEFAULT_RSA_PARAMS)
+  const [transport, setTransport] = useState<KeyTransport>('oaep')
+  // Bob's simulated legacy PKCS#1 v1.5 endpoint, and the message Eve is attacking through it
+  const [legacyBob, setLegacyBob] = useState(generateLegacyKey)
+  const [oracleTarget, setOracleTarget] = useState<string | null>(null)
+  const [keyExchange, setKeyExchange] = useState<KeyExchange>('honest')
+  const [eveRewrite, setEveRewrite] = useState('')
+  const [sender, setSender] = useState<AgentName>('Alice')
+  const [recipient, setRecipient] = useState<AgentName>('Bob')
+  const [showFingerprints, setShowFingerprints] = useState(false)
+  // The last sequence number per sender → recipient, and each agent's memory of what they have received
+  const sentSeq = useRef<Record<string, number>>({})
+  const guards = useRef(new Map<AgentName, ReplayGuard>())
+  // Each agent's side of their double ratchet sessions, by `${self}→${peer}`, and the last status seen on each
+  const sessions = useRef(new Map<string, Session>())
+  const [sessionStatus, setSessionStatus] = useState<Record<string, string>>({})
+  // The unlocked archive key; nothing is shown until there is one. Saves run one after another.
+  const [vault, setVault] = useState<ArchiveKey | null>(null)
+  const [archiveError, setArchiveError] = useState<string | null>(null)
+  const [schemeError, setSchemeError] = useState<string | null>(null)
+  const [exportNote, setExportNote] = useState<string | null>(null)
+  const [schemeSwitching, setSchemeSwitching] = useState(false)
+  const saving = useRef(Promise.resolve())
+  // With agents in separate tabs, this tab is `me` and the others are peers met over the transport
+  const [link, setLink] = useState<LinkKind>('local')
+  const [me, setMe] = useState<AgentName>('Alice')
+  const [tap, setTap] = useState(false)
+  const [peers, setPeers] = useState<Record<AgentName, Peer>>({})
+  // Each agent's pinned keys for the peers they met; a hello with other keys is held in `offered` until accepted
+  const [directory, setDirectory] = useState<Directory>({})
+  const [offered, setOffered] = useState<Record<AgentName, Peer>>({})
+  const [relayUrl, setRelayUrl] = useState(() => `ws://${location.hostname || 'localhost'}:${DEFAULT_RELAY_PORT}`)
+  const [networkError, setNetworkError] = useState<string | null>(null)
+  const transportRef = useRef<Transport<ChatMessage> | null>(null)
+  const networked = link !== 'local'
   const [aliceEncPubJwk, setAliceEncPubJwk] = useState<JsonWebKey | undefined>(undefined)
   const [aliceEncPrivJwk, setAliceEncPrivJwk] = useState<JsonWebKey | undefined>(undefined)
   const [bobEncPubJwk, setBobEncPubJwk] = useState<JsonWebKey | undefined>(undefined)
   const [bobEncPrivJwk, setBobEncPrivJwk] = useState<JsonWebKey | undefined>(undefined)
 
+  // A tab playing one agent over the network is that agent's seat: it loads only their keys,
+  // so no other agent's private keys are ever in it, and keeps its own archive
+  const seat = networked ? me : null
+  const store = useMemo(() => (seat ? archive.forSlot(seat) : archive), [seat])
+  const everyone = useMemo(() => [alice, bob, eve, ...recruits].filter((a) => a !== null), [alice, bob, eve, recruits])
+  const agents = useMemo<Agents>(() => Object.fromEntries(everyone.map((a) => [a.name, a])), [everyone])
+  const agentNames = [...AGENT_NAMES, ...recruitNames]
+  // The agents whose keys this tab holds
+  const holders = seat ? [seat] : agentNames
+  const keysReady = !!agents[seat ?? 'Alice']
+
+  const loadKeys = useCallback(async () => {
+    const others = (await listOwners()).filter((o) => !AGENT_NAMES.includes(o)).sort()
+    const loaded = await Promise.all((seat ? [seat] : [...AGENT_NAMES, ...others]).map(loadAgentKeys))
+    const byName = new Map(loaded.map((a) => [a.name, a]))
+    setAlice(byName.get('Alice') ?? null)
+    setBob(byName.get('Bob') ?? null)
+    setEve(byName.get('Eve') ?? null)
+    setRecruits(loaded.filter((a) => !AGENT_NAMES.includes(a.name)))
+    setRecruitNames(others)
+    // Alice's active signing key decides the scheme, or the seat's in a networked tab (the keyring panel can switch keys)
+    const scheme = schemeOfKey(byName.get(seat ?? 'Alice')!.sign.publicKey) ?? LEGACY_SIGNATURE_ALGORITHM.scheme
+    setSigAlgorithm((prev) => (prev.scheme === scheme ? prev : { scheme }))
+  }, [seat])
+
   useEffect(() => {
-    const init = async () => {
-      const [aEnc, aSig, bEnc, bSig, eEnc, eSig] = await Promise.all([
-        generateEncryptionKeyPair(),
-        generateSigningKeyPair(),
-        generateEncryptionKeyPair(),
-        generateSigningKeyPair(),
-        generateEncryptionKeyPair(),
-        generateSigningKeyPair(),
-      ])
-      setAlice({ name: 'Alice', encrypt: aEnc, sign: aSig })
-      setBob({ name: 'Bob', encrypt: bEnc, sign: bSig })
-      _setEve({ name: 'Eve', encrypt: eEnc, sign: eSig })
+    loadKeys()
+  }, [loadKeys])
+
+  // Every agent this tab holds signs with the selected scheme, reusing a stored key of that scheme when there is one.
+  // All the keys are found or generated before any agent's active key changes, so a failure
+  // (e.g. Ed25519 missing from this browser) leaves everyone on the old scheme.
+  const changeSigAlgorithm = async (alg: SignatureAlgorithm) => {
+    setSchemeSwitching(true)
+    try {
+      if (alg.scheme !== sigAlgorithm.scheme) {
+        const entries = await Promise.all(holders.map(async (name) => {
+          const stored = (await listKeys(name)).find((k) => k.purpose === 'sign' && schemeOfKey(k.publicKey) === alg.scheme)
+          return { name, stored, fresh: stored ? null : await generateSignatureKeyPair(alg.scheme, true, keyParams) }
+        }))
+        await Promise.all(entries.map(async ({ name, stored, fresh }) => {
+          const entry = stored ?? (await addKeyPair(fresh!, { owner: name, purpose: 'sign' }))
+          await setActiveKey(name, 'sign', entry.id)
+        }))
+        await loadKeys()
+      }
+      setSigAlgorithm(alg)
+      setSchemeError(null)
+    } catch (err) {
+      setSchemeError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setSchemeSwitching(false)
+    }
+  }
+
+  // Gives every agent this tab holds fresh encryption and signing keys built from the current settings
+  const regenerateKeys = async () => {
+    await Promise.all(holders.map(async (name) => {
+      const enc = await generateEncryptionKeyPair(true, keyParams)
+      const sig = await generateSignatureKeyPair(sigAlgorithm.scheme, true, keyParams)
+      const encEntry = await addKeyPair(enc, { owner: name, purpose: 'encrypt' })
+      const sigEntry = await addKeyPair(sig, { owner: name, purpose: 'sign' })
+      await setActiveKey(name, 'encrypt', encEntry.id)
+      await setActiveKey(name, 'sign', sigEntry.id)
+    }))
+    await loadKeys()
+  }
+
+  // A new agent is just a new keyring owner with keys from the current settings
+  const recruitAgent = async () => {
+    const name = recruitName.trim()
+    if (!name || agentNames.includes(name) || seat) return
+    setRecruitName('')
+    await Promise.all([
+      ensureActiveKey(name, 'encrypt', () => generateEncryptionKeyPair(true, keyParams)),
+      ensureActiveKey(name, 'sign', () => generateSignatureKeyPair(sigAlgorithm.scheme, true, keyParams)),
+    ])
+    await loadKeys()
+  }
+
+  // Each agent's memory of what they have received, started on their first delivery
+  const guardOf = (name: AgentName) => {
+    let guard = guards.current.get(name)
+    if (!guard) {
+      guard = createReplayGuard(name)
+      guards.current.set(name, guard)
     }
-    init()
-  }, [])
-
-  const sendFromAlice = async () => {
-    if (!alice || !bob || !message) return
-    const ciphertext = await encryptString(bob.encrypt.publicKey, message)
-    const signature = await signString(alice.sign.privateKey, message)
-    const maybeTampered = tamper ? ciphertext.slice(0, -8) + 'AAAAAAA=' : ciphertext
-    const entry: ChatMessage = {
-      id: crypto.randomUUID(),
-      sender: 'Alice',
-      ciphertext: maybeTampered,
-      signature,
-      timestamp: Date.now(),
+    return guard
+  }
+
+  const restoreArchive = async (archiveKey: ArchiveKey, contents: MessengerArchive | null) => {
+    if (contents) {
+      const restored = await Promise.all(contents.sessions.map(async (s) => [`${s.self}→${s.peer}`, await restoreSession(s)] as const))
+      sessions.current = new Map(restored)
+      guards.current = new Map(Object.entries(contents.guards).map(([name, memory]) => [name, createReplayGuard(name, memory)]))
+      sentSeq.current = contents.sentSeq
+      setLegacyBob(contents.legacyBob)
+      setHistory(contents.history)
+      setDirectory(contents.directory ?? {})
+      if (contents.keys) {
+        // A seat takes only its own agent's keys, whatever else the archive carries
+        await importKeys(seat ? contents.keys.filter((k) => k.owner === seat) : contents.keys)
+        await loadKeys()
+      }
     }
-    setHistory((h) => [...h, entry])
-    setMessage('')
+    setVault(archiveKey)
+  }
+
+  // Forgets everything unlocked; it all comes back from the archive with the passphrase
+  const lock = () => {
+    setVault(null)
+    setHistory([])
+    setDirectory({})
+    setSessionStatus({})
+    sessions.current = new Map()
+    guards.current = new Map()
+    sentSeq.current = {}
+  }
+
+  const exportArchive = async () => {
+    if (!vault) return
+    try {
+      // The keyring goes along, or the conversation couldn't be read anywhere else
+      const { keys, leftOut } = await exportKeys(seat ?? undefined)
+      const contents = await archiveContents(history, legacyBob, sentSeq.current, guards.current, sessions.current, directory)
+      const file = await sealArchive(vault, { ...contents, keys })
+      const name = seat ? `secret-agent-messenger-${seat.toLowerCase()}` : 'secret-agent-messenger'
+      downloadBlob(new Blob([serializeArchive(file)], { type: 'application/json' }), `${name}${ARCHIVE_EXTENSION}`)
+      setExportNote(leftOut.length ? `Exported without ${leftOut.map((k) => k.label).join(', ')}: non-extractable keys can't leave this browser` : null)
+    } catch (err) {
+      setArchiveError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  // Both sides of a pair's session come out of one handshake, the first time either sends.
+  // Each checks the other's signed offer against the signing key it holds for them.
+  const sessionOf = async (self: AgentName, peer: AgentName) => {
+    const existing = sessions.current.get(`${self}→${peer}`)
+    if (existing) return existing
+    const a = agents[self]
+    const b = agents[peer]
+    if (!a || !b) throw new Error(`No keys for ${a ? peer : self}`)
+    const curve = await preferredCurve()
+    const handshake = (agent: AgentKeys, other: AgentName, initiator: boolean) => createHandshake({
+      agent: agent.name,
+      peer: other,
+      curve,
+      initiator,
+      signKey: agent.sign.privateKey,
+      signatureAlgorithm: algorithmForKey(sigAlgorithm, agent.sign.privateKey),
+    })
+    const [ours, theirs] = await Promise.all([handshake(a, peer, true), handshake(b, self, false)])
+    const [mine, peers] = await Promise.all([
+      openSession({ own: ours, theirs: theirs.offer, peerVerifyKey: heldKey(agents, keyExchange, self, peer, 'sign') }),
+      openSession({ own: theirs, theirs: ours.offer, peerVerifyKey: heldKey(agents, keyExchange, peer, self, 'sign') }),
+    ])
+    sessions.current.set(`${self}→${peer}`, mine)
+    sessions.current.set(`${peer}→${self}`, peers)
+    return mine
+  }
+
+  const importEncryptionKey = (owner: AgentName) => async (pair: { publicKey: CryptoKey, privateKey: CryptoKey }) => {
+    const entry = await addKeyPair(pair, { owner, purpose: 'encrypt', label: `${owner} imported encryption key` })
+    await setActiveKey(owner, 'encrypt', entry.id)
+    await loadKeys()
   }
 
-  const decryptAsBob = async (id: string) => {
-    if (!bob || !alice) return
+  const keyComparisons = useMemo<KeyComparison[]>(() => {
+    const checks: [AgentName, AgentName, 'encrypt' | 'sign'][] = [
+      ['Alice', 'Bob', 'encrypt'], ['Bob', 'Alice', 'encrypt'], ['Bob', 'Alice', 'sign'], ['Alice', 'Bob', 'sign'],
+    ]
+    return checks.flatMap(([holder, owner, purpose]) => {
+      const held = heldKey(agents, keyExchange, holder, owner, purpose)
+      const actual = agents[owner]?.[purpose].publicKey
+      if (!held || !actual) return []
+      return [{ label: `${owner}'s ${purpose === 'encrypt' ? 'encryption' : 'signing'} key`, heldBy: holder, held, owner, actual }]
+    })
+  }, [agents, keyExchange])
+  const safetyViews = useMemo<SafetyView[]>(() => {
+    // Each screen: the viewer's own keys, and the keys they hold for the other
+    const identity = (viewer: AgentName, of: AgentName) => ({
+      id: of,
+      keys: [heldKey(agents, keyExchange, viewer, of, 'encrypt'), heldKey(agents, keyExchange, viewer, of, 'sign')].filter((k) => k !== undefined),
+    })
+    if (!agents.Alice || !agents.Bob || !agents.Eve) return []
+    return (['Alice', 'Bob'] as AgentName[]).map((viewer) => ({ viewer, pair: [identity(viewer, 'Alice'), identity(viewer, 'Bob')] }))
+  }, [agents, keyExchange])
+
+  const roleOf = (name: AgentName) => {
+    if (name === sender) return 'Sender'
+    if (name === recipient) return 'Receiver'
+    if (name === 'Eve') return keyExchange === 'honest' ? 'Eavesdropper' : 'Man in the middle'
+    return 'Off the line'
+  }
+
+  const chooseSender = (name: AgentName) => {
+    setSender(name)
+    if (name === recipient) setRecipient(agentNames.find((n) => n !== name) ?? recipient)
+  }
+
+  // Moving to another seat (or back to the local view) locks this one's archive
+  // first; the next one opens with its own passphrase
+  const switchSeat = async (nextLink: LinkKind, nextMe: AgentName) => {
+    if ((nextLink === 'local' ? null : nextMe) !== seat) {
+      await saving.current
+      lock()
+    }
+    setLink(nextLink)
+    setMe(nextMe)
+    // In a networked tab the sender is always whoever this tab plays
+    if (nextLink !== 'local') chooseSender(nextMe)
+  }
+
+  const playAs = (name: AgentName) => switchSeat(link, name)
+
+  // Pins the keys a peer's latest hello offered in place of the old ones; they start out unverified
+  const acceptOfferedKeys = (name: AgentName) => {
+    const peer = offered[name]
+    if (!peer) return
+    setDirectory((d) => {
+      const contact = d[me]?.[name]
+      return contact ? withContact(d, me, name, acceptChangedKeys(contact)) : d
+    })
+    setPeers((p) => ({ ...p, [name]: peer }))
+    setOffered((o) => without(o, name))
+  }
+  const chooseLink = (next: LinkKind) => switchSeat(next, me)
+
+  // Raw RSA-OAEP puts the whole message in one RSA block, so the recipient's key caps its size.
+  // Over a network the recipient's key is the one their tab announced.
+  const recipientKey = networked ? peers[recipient]?.encrypt : heldKey(agents, keyExchange, sender, recipient, 'encrypt')
+  // A peer whose hello brought keys other than the pinned ones gets nothing until those keys are accepted
+  const recipientChanged = networked && trustOf(directory[me]?.[recipient]) === 'changed'
+  const messageBytes = new TextEncoder().encode(message).length
+  const recipientLimit = recipientKey ? oaepLimit(recipientKey) : 0
+  const recipientParams = recipientKey && rsaParamsOf(recipientKey)
+  const rawRsa = transport === 'raw-oaep'
+  const rawBlocked = rawRsa && (mode === 'sign-then-encrypt' || messageBytes > recipientLimit)
+  // Sessions and the legacy endpoint keep their secrets in the tab that made them, so they stay local
+  const networkBlocked = networked && (transport === 'session' || transport === 'pkcs1')
+
+  const sendMessage = async () => {
+    const from = agents[sender]
+    const to = agents[recipient]
+    if (!from || !recipientKey || !message || rawBlocked || networkBlocked || recipientChanged) return
+    try {
+      const signatureAlgorithm = algorithmForKey(sigAlgorithm, from.sign.privateKey)
+      const channel = `${sender}→${recipient}`
+      const seq = (sentSeq.current[channel] ?? 0) + 1
+      const session = transport === 'session' ? await sessionOf(sender, recipient) : undefined
+      const sealed = await sealMessage({
+        mode,
+        sender,
+        recipient,
+        plaintext: message,
+        senderSignKey: from.sign.privateKey,
+        recipientEncryptKey: recipientKey,
+        signatureAlgorithm,
+        transport,
+        legacyKey: recipient === 'Bob' ? legacyBob : undefined,
+        session,
+        meta: createMeta(sender, recipient, seq),
+      })
+      // Only a sealed message uses up its number, so a failed send leaves no gap the recipient would flag
+      sentSeq.current[channel] = seq
+      if (session) setSessionStatus((s) => ({ ...s, [channel]: session.status() }))
+      // A swapped key means the message went to Eve, who passes it on; session messages never used it,
+      // and over a network the key came from the recipient's own tab
+      const relayed = networked || session || !to || !eve || recipientKey === to.encrypt.publicKey
+        ? null
+        : await relayMessage({
+          mode,
+          message: sealed,
+          sender,
+          recipient,
+          eveDecryptKey: eve.encrypt.privateKey,
+          recipientEncryptKey: to.encrypt.publicKey,
+          resign: keyExchange === 'swap-all'
+            ? { signKey: eve.sign.privateKey, algorithm: sigAlgorithm, rewrite: eveRewrite }
+            : undefined,
+        })
+      const delivered = relayed ? relayed.forwarded : sealed
+      const ciphertext = delivered.ciphertext
+      const maybeTampered = tamper ? ciphertext.slice(0, -8) + 'AAAAAAA=' : ciphertext
+      const entry: ChatMessage = {
+        id: crypto.randomUUID(),
+        sender,
+        recipient,
+        mode,
+        ciphertext: maybeTampered,
+        signature: delivered.signature,
+        signatureAlgorithm: delivered.signatureAlgorithm ?? signatureAlgorithm,
+        meta: delivered.meta,
+        intercepted: relayed ? { plaintext: relayed.plaintext, resigned: relayed.resigned } : undefined,
+        receivedAt: Date.now(),
+        timestamp: Date.now(),
+      }
+      setHistory((h) => [...h, entry])
+      transportRef.current?.send({ type: 'message', from: sender, to: recipient, message: entry })
+      setMessage('')
+      setSendError(null)
+    } catch (err) {
+      setSendError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  // The recipient opens it with their own private key and the sender's key as they hold it
+  const decryptMessage = async (id: string) => {
     const target = history.find((m) => m.id === id)
-    if (!target) return
+    const owner = target && agents[target.recipient]
+    if (!target || !owner) return
+    // Another tab's mail, kept by a tap: this tab has no business with the recipient's private key
+    if (networked && target.recipient !== me) return
+    // A session message key is gone once used, so an opened message stays opened
+    if (isRatchetCiphertext(target.ciphertext) && target.plaintext !== undefined) return
+    const session = sessions.current.get(`${target.recipient}→${target.sender}`)
     try {
-      const plaintext = await decryptToString(bob.encrypt.privateKey, target.ciphertext)
-      const authentic = await verifySignature(alice.sign.publicKey, plaintext, target.signature || '')
-      setHistory((prev) => prev.map((m) => (m.id === id ? { ...m, plaintext, authentic } : m)))
+      const { plaintext, authentic, reason, signatureAlgorithm, meta } = await openMessage({
+        mode: target.mode ?? 'sign-and-encrypt',
+        message: target,
+        recipient: target.recipient,
+        recipientDecryptKey: owner.encrypt.privateKey,
+        senderVerifyKey: networked
+          ? (name) => (name === me ? agents[me]?.sign.publicKey : peers[name]?.sign)
+          : (name) => heldKey(agents, keyExchange, target.recipient, name, 'sign'),
+        expectedSender: target.sender,
+        legacyDecryptKey: target.recipient === 'Bob' ? legacyBob : undefined,
+        session,
+      })
+      if (session && isRatchetCiphertext(target.ciphertext)) {
+        setSessionStatus((s) => ({ ...s, [`${target.recipient}→${target.sender}`]: session.status() }))
+      }
+      // Only metadata under a valid signature counts, and each delivery is checked once
+      const freshness = target.freshness ?? (authentic ? guardOf(target.recipient).check(meta, target.receivedAt ?? target.timestamp) : undefined)
+      setHistory((prev) => prev.map((m) => (m.id === id ? { ...m, plaintext, authentic, verifyReason: reason, signatureAlgorithm, freshness } : m)))
     } catch {
-      setHistory((prev) => prev.map((m) => (m.id === id ? { ...m, plaintext: undefined, authentic: false, tampered: true } : m)))
+      setHistory((prev) => prev.map((m) => (m.id === id ? { ...m, plaintext: undefined, authentic: false, verifyReason: 'Decryption failed', tampered: true } : m)))
     }
   }
 
+  // Eve delivers a captured message again, byte for byte
+  const eveReplay = (id: string) => {
+    const target = history.find((m) => m.id === id)
+    if (!target) return
+    const { ciphertext, signature, signatureAlgorithm, meta, mode: targetMode } = target
+    const copy: ChatMessage = {
+      id: crypto.randomUUID(), sender: target.sender, recipient: target.recipient, mode: targetMode,
+      ciphertext, signature, signatureAlgorithm, meta, eveAction: 'replayed', receivedAt: Date.now(), timestamp: Date.now(),
+    }
+    setHistory((h) => [...h, copy])
+    // On a real wire the copy goes out too, and nothing marks it as Eve's
+    if (networked) transportRef.current?.send({ type: 'message', from: copy.sender, to: copy.recipient, message: { ...copy, eveAction: undefined } })
+  }
+
+  // Eve holds a message back until the one after it has been delivered
+  const eveReorder = (id: string) => {
+    const ordered = [...history].sort((a, b) => a.timestamp - b.timestamp)
+    const i = ordered.findIndex((m) => m.id === id)
+    const next = ordered[i + 1]
+    if (i < 0 || !next) return
+    const held = ordered[i]
+    setHistory((prev) => prev.map((m) => {
+      if (m.id === held.id) return { ...m, timestamp: next.timestamp, receivedAt: next.receivedAt, eveAction: 'held back' }
+      if (m.id === next.id) return { ...m, timestamp: held.timestamp, receivedAt: held.receivedAt }
+      return m
+    }))
+  }
+
+  // Eve gets hold of Bob's long-term private keys and tries them on everything she captured for him
+  const eveStealBobKey = async () => {
+    if (!bob) return
+    const stolen = new Map<string, { plaintext?: string; reason: string }>()
+    for (const m of history.filter((h) => h.recipient === 'Bob')) {
+      try {
+        const { plaintext } = await openMessage({
+          mode: m.mode ?? 'sign-and-encrypt',
+          message: m,
+          recipient: 'Bob',
+          recipientDecryptKey: bob.encrypt.privateKey,
+          senderVerifyKey: (name) => agents[name]?.sign.publicKey,
+          expectedSender: m.sender,
+          legacyDecryptKey: legacyBob,
+        })
+        stolen.set(m.id, { plaintext, reason: 'Opened with the stolen private key' })
+      } catch (err) {
+        stolen.set(m.id, { reason: err instanceof Error && err.message ? err.message : 'Decryption failed' })
+      }
+    }
+    setHistory((prev) => prev.map((m) => (stolen.has(m.id) ? { ...m, stolen: stolen.get(m.id) } : m)))
+  }
+
+  // Eve checks guesses against the sender's real public key
+  const eveGuess = async (id: string, guess: string) => {
+    const target = history.find((m) => m.id === id)
+    const senderKey = target && agents[target.sender]?.sign.publicKey
+    if (!target || !senderKey) return
+    const confirmed = await eveTestGuess(target.mode ?? 'sign-and-encrypt', target, guess, senderKey)
+    setHistory((prev) => prev.map((m) => (m.id === id ? { ...m, eveGuess: { guess, confirmed } } : m)))
+  }
+
   useEffect(() => {
     const run = async () => {
       if (alice) {
         setAliceEncPubJwk(await exportPublicKeyJwk(alice.encrypt.publicKey))
-        setAliceEncPrivJwk(await exportPrivateKeyJwk(alice.encrypt.privateKey))
+        setAliceEncPrivJwk(await exportPrivateKeyJwk(alice.encrypt.privateKey).catch(() => undefined))
       }
       if (bob) {
         setBobEncPubJwk(await exportPublicKeyJwk(bob.encrypt.publicKey))
-        setBobEncPrivJwk(await exportPrivateKeyJwk(bob.encrypt.privateKey))
+        setBobEncPrivJwk(await exportPrivateKeyJwk(bob.encrypt.privateKey).catch(() => undefined))
       }
     }
     run()
   }, [alice, bob])
 
+  // The connection outlives key and tap changes: the wire reads them through refs,
+  // and a key change is announced with a fresh hello instead of a reconnect
+  const own = agents[me]
+  const ownRef = useRef(own)
+  const sigRef = useRef(sigAlgorithm)
+  const tapRef = useRef(tap)
+  const directoryRef = useRef(directory)
+  const announce = useRef<(() => Promise<void>) | null>(null)
+  const lastHello = useRef<{ keys?: AgentKeys; sig?: SignatureAlgorithm }>({})
+  useEffect(() => {
+    ownRef.current = own
+    sigRef.current = sigAlgorithm
+    tapRef.current = tap
+    directoryRef.current = directory
+  }, [own, sigAlgorithm, tap, directory])
+  const ownReady = !!own
+
+  // Joining the wire: announce this tab's agent, answer every hello, and keep the mail for `me`.
+  // With the tap on, Eve keeps everyone else's too.
+  useEffect(() => {
+    if (!networked || !ownReady) return
+    setPeers({})
+    setOffered({})
+    let wire: Transport<ChatMessage>
+    try {
+      wire = link === 'relay'
+        ? createRelayTransport<ChatMessage>(relayUrl, me, setNetworkError)
+        : createBroadcastTransport<ChatMessage>()
+    } catch (err) {
+      setNetworkError(`Can't connect: ${err instanceof Error ? err.message : String(err)}`)
+      return
+    }
+    transportRef.current = wire
+    setNetworkError(null)
+    let closed = false
+    const session = joinWire<ChatMessage>(wire, {
+      me,
+      keys: async () => {
+        const keys = ownRef.current
+        if (!keys) return null
+        lastHello.current = { keys, sig: sigRef.current }
+        return publishKeys(keys.encrypt.publicKey, keys.sign.publicKey, algorithmForKey(sigRef.current, keys.sign.privateKey))
+      },
+      tap: () => tapRef.current,
+      // A hello only claims to come from `from`: its keys are checked against the ones pinned for them,
+      // and keys that differ are held back, with the peer's old keys kept, until this agent accepts them
+      onHello: async (from, keys) => {
+        const { encrypt, sign } = await importPublishedKeys(keys)
+        const [encryptPrint, signPrint] = await Promise.all([fingerprintKey(encrypt), fingerprintKey(sign)])
+        if (closed) return
+        const peer = { encrypt, sign, fingerprint: encryptPrint.shortHex }
+        const pins: PinnedKeys = { encrypt: encryptPrint.hex, sign: signPrint.hex }
+        const contact = directoryRef.current[me]?.[from]
+        const seen = observeKeys(contact, pins)
+        if (seen !== contact) {
+          directoryRef.current = withContact(directoryRef.current, me, from, seen)
+          setDirectory((d) => withContact(d, me, from, observeKeys(d[me]?.[from], pins)))
+        }
+        if (seen.changed) {
+          setOffered((o) => ({ ...o, [from]: peer }))
+          return
+        }
+        setOffered((o) => without(o, from))
+        setPeers((p) => ({ ...p, [from]: peer }))
+      },
+      onBye: (from) => {
+        setPeers((p) => without(p, from))
+        setOffered((o) => without(o, from))
+      },
+      onMessage: (message, to) => {
+        // Every arrival is its own delivery, so a copy the wire replays shows up as one
+        const now = Date.now()
+        const delivered: ChatMessage = { ...message, id: crypto.randomUUID(), receivedAt: now, timestamp: now, tapped: to !== me || undefined }
+        setHistory((h) => [...h, delivered])
+      },
+      onError: setNetworkError,
+    })
+    announce.current = session.announce
+    return () => {
+      closed = true
+      announce.current = null
+      session.leave()
+      wire.close()
+      transportRef.current = null
+    }
+  }, [networked, link, relayUrl, me, ownReady])
+
+  // New keys or a new scheme reach the peers on the open connection
+  useEffect(() => {
+    if (lastHello.current.keys === own && lastHello.current.sig === sigAlgorithm) return
+    announce.current?.().catch((err) => setNetworkError(err instanceof Error ? err.message : String(err)))
+  }, [own, sigAlgorithm])
+
+  // Every change to the conversation is sealed back into the archive
+  useEffect(() => {
+    if (!vault) return
+    saving.current = saving.current
+      .then(async () => {
+        const contents = await archiveContents(history, legacyBob, sentSeq.current, guards.current, sessions.current, directory)
+        await store.saveArchive(await sealArchive(vault, contents))
+        setArchiveError(null)
+      })
+      .catch((err) => setArchiveError(err instanceof Error ? err.message : String(err)))
+  }, [vault, history, legacyBob, directory, store])
+
+  if (!vault) {
+    return (
+      <UnlockScreen<MessengerArchive>
+        key={seat ?? ''}
+        title={seat ? `Secret Agent Messenger — ${seat}'s tab` : 'Secret Agent Messenger'}
+        store={store}
+        contents={seat ? `${seat}'s conversations` : 'Conversations'}
+        onUnlock={restoreArchive}
+        onCancel={seat ? () => switchSeat('local', me) : undefined}
+        cancelLabel="Back to all agents in one tab"
+      />
+    )
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-900 to-black text-slate-100">
       <div className="max-w-5xl mx-auto px-4 py-6">
         <div className="flex items-center justify-between mb-6">
           <h1 className="text-2xl font-bold">🕵️ Secret Agent Messenger</h1>
           <div className="flex items-center gap-2">
+            <SignatureSchemeSelect value={sigAlgorithm} onChange={changeSigAlgorithm} disabled={!keysReady || schemeSwitching} />
             <label className="text-sm opacity-80 flex items-center gap-2">
               <input type="checkbox" checked={tamper} onChange={(e) => setTamper(e.target.checked)} />
               Tamper Eve
@@ -104,48 +724,257 @@ function App() {
               <input type="checkbox" checked={gameMode} onChange={(e) => setGameMode(e.target.checked)} />
               Game Mode
             </label>
+            <Button variant="outline" onClick={() => setShowTextbook((s) => !s)}>
+              {showTextbook ? 'Hide Math' : 'Textbook RSA'}
+            </Button>
+            <Button variant="outline" onClick={() => setShowAttackLab((s) => !s)}>
+              {showAttackLab ? 'Close Lab' : 'Attack Lab'}
+            </Button>
+            <Button variant="outline" onClick={() => setShowGroups((s) => !s)}>
+              {showGroups ? 'Close Groups' : 'Groups'}
+            </Button>
             <Button variant="outline" onClick={() => setShowKeys((s) => !s)}>
               {showKeys ? 'Hide Keys' : 'Show Keys'}
             </Button>
+            <Button variant="outline" onClick={exportArchive}>Export History</Button>
+            <Button variant="ghost" onClick={lock}>🔒 Lock</Button>
+          </div>
+        </div>
+        {archiveError && <div className="text-xs text-red-400 -mt-4 mb-4">Saving the encrypted history failed: {archiveError}</div>}
+        {exportNote && <div className="text-xs text-amber-300 -mt-4 mb-4">{exportNote}</div>}
+        {schemeError && <div className="text-xs text-red-400 -mt-4 mb-4">Switching the signature scheme failed: {schemeError}</div>}
+
+        {showTextbook && (
+          <div className="mb-6">
+            <TextbookRsaPanel />
+          </div>
+        )}
+
+        {showAttackLab && (
+          <div className="mb-6">
+            <AttackLabPanel />
           </div>
+        )}
+
+        {/* Kept mounted so the groups and their messages survive closing the panel */}
+        <div className={showGroups ? 'mb-6' : 'hidden'}>
+          <GroupPanel agents={everyone} signatureAlgorithm={sigAlgorithm} />
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
-          <AgentCard name="Alice" emoji="👩‍💻" subtitle="Sender" onShowKeys={() => setShowKeys(true)} />
-          <AgentCard name="Bob" emoji="👨‍💻" subtitle="Receiver" onShowKeys={() => setShowKeys(true)} />
-          <AgentCard name="Eve" emoji="😈" subtitle="Eavesdropper" onShowKeys={() => setShowKeys(true)} />
+          {agentNames.map((name) => (
+            <AgentCard
+              key={name}
+              name={name}
+              emoji={AGENT_EMOJI[name] ?? '🕵️'}
+              subtitle={roleOf(name)}
+              publicKey={agents[name]?.sign.publicKey}
+              onShowKeys={() => setShowKeys(true)}
+            />
+          ))}
+        </div>
+        <div className="flex items-center gap-2 -mt-3 mb-6 text-xs">
+          <input
+            value={recruitName}
+            onChange={(e) => setRecruitName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && recruitAgent()}
+            placeholder="New agent's name…"
+            className="rounded-md bg-slate-800/70 border border-slate-700 px-2 py-1"
+          />
+          <Button size="sm" variant="outline" disabled={!alice || !!seat || !recruitName.trim() || agentNames.includes(recruitName.trim())} onClick={recruitAgent}>
+            Recruit agent
+          </Button>
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
           <div className="md:col-span-2 space-y-4">
+            <NetworkPanel
+              link={link}
+              onLinkChange={chooseLink}
+              me={me}
+              onMeChange={playAs}
+              agentNames={agentNames}
+              peers={peers}
+              offered={offered}
+              trust={Object.fromEntries(Object.entries(directory[me] ?? {}).map(([name, contact]) => [name, trustOf(contact)]))}
+              onAcceptKeys={acceptOfferedKeys}
+              tap={tap}
+              onTapChange={setTap}
+              relayUrl={relayUrl}
+              onRelayUrlChange={setRelayUrl}
+              error={networkError}
+            />
             <div className="rounded-xl border border-slate-700 bg-slate-900/60 p-4">
+              <div className="flex items-center gap-2 mb-2 text-xs">
+                <span className="opacity-70">From</span>
+                <select
+                  value={sender}
+                  disabled={networked}
+                  onChange={(e) => chooseSender(e.target.value as AgentName)}
+                  className="rounded-md bg-slate-800/70 border border-slate-700 px-2 py-1"
+                >
+                  {agentNames.map((n) => <option key={n} value={n}>{n}</option>)}
+                </select>
+                <span className="opacity-70">To</span>
+                <select
+                  value={recipient}
+                  onChange={(e) => setRecipient(e.target.value as AgentName)}
+                  className="rounded-md bg-slate-800/70 border border-slate-700 px-2 py-1"
+                >
+                  {agentNames.filter((n) => n !== sender).map((n) => <option key={n} value={n}>{n}</option>)}
+                </select>
+                {recipientChanged ? (
+                  <span className="text-red-400">{TRUST_LABELS.changed}: {recipient}'s tab announced keys other than the pinned ones</span>
+                ) : networked && !peers[recipient] && <span className="text-yellow-400">Waiting for {recipient}'s tab to say hello</span>}
+              </div>
               <div className="flex gap-2">
-                <input
+                <textarea
                   value={message}
                   onChange={(e) => setMessage(e.target.value)}
-                  placeholder="Alice types a secret..."
-                  className="flex-1 rounded-md bg-slate-800/70 border border-slate-700 px-3 py-2 outline-none focus:ring-2 focus:ring-slate-500"
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) sendMessage()
+                  }}
+                  rows={2}
+                  placeholder={`${sender} types a secret (or pastes a whole document)...`}
+                  className="flex-1 rounded-md bg-slate-800/70 border border-slate-700 px-3 py-2 outline-none focus:ring-2 focus:ring-slate-500 resize-y"
                 />
-                <Button onClick={sendFromAlice}>Send → Encrypt + Sign</Button>
+                <Button onClick={sendMessage} disabled={rawBlocked || networkBlocked || recipientChanged || (networked && !peers[recipient])}>Send → Encrypt + Sign</Button>
               </div>
-              <div className="text-xs opacity-70 mt-2">Encrypted with Bob's public key. Signed by Alice.</div>
+              <div className="flex items-center gap-2 mt-2 text-xs">
+                <span className="opacity-70">Envelope</span>
+                <select
+                  value={mode}
+                  onChange={(e) => setMode(e.target.value as EnvelopeMode)}
+                  className="rounded-md bg-slate-800/70 border border-slate-700 px-2 py-1"
+                >
+                  {(Object.keys(ENVELOPE_MODES) as EnvelopeMode[]).map((m) => (
+                    <option key={m} value={m}>{ENVELOPE_MODES[m].label}</option>
+                  ))}
+                </select>
+                <span className="opacity-70">Key transport</span>
+                <select
+                  value={transport}
+                  onChange={(e) => setTransport(e.target.value as KeyTransport)}
+                  className="rounded-md bg-slate-800/70 border border-slate-700 px-2 py-1"
+                >
+                  {(Object.keys(KEY_TRANSPORTS) as KeyTransport[]).map((t) => (
+                    <option key={t} value={t}>{KEY_TRANSPORTS[t]}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="text-xs opacity-70 mt-2">
+                {rawRsa
+                  ? `${recipient}'s public key encrypts the message directly with RSA-OAEP, at most ${Math.max(0, recipientLimit)} bytes.`
+                  : transport === 'pkcs1'
+                    ? `AES-256-GCM encrypts the message; Bob's ${LEGACY_MODULUS_BITS}-bit legacy endpoint key wraps the AES key with PKCS#1 v1.5.`
+                    : transport === 'session'
+                      ? `AES-256-GCM encrypts the message under a one-time key from the ${sender} ↔ ${recipient} double ratchet; the long-term keys only signed the ECDH handshake.`
+                      : `AES-256-GCM encrypts the message; ${recipient}'s public key wraps the AES key.`}{' '}
+                Signed by {sender}.{' '}
+                {(message.length > 0 || rawRsa) && (
+                  <span className={rawRsa && messageBytes > recipientLimit ? 'text-red-400' : undefined}>
+                    {rawRsa ? `${messageBytes} / ${Math.max(0, recipientLimit)} bytes` : `${messageBytes} bytes`}
+                  </span>
+                )}
+              </div>
+              {recipientParams && (
+                <div className="text-xs opacity-60 mt-1">
+                  {recipient}'s key: {describeRsaParams(recipientParams)} • RSA-OAEP max plaintext {Math.max(0, recipientLimit)} bytes
+                </div>
+              )}
+              {transport === 'session' && sessionStatus[`${sender}→${recipient}`] && (
+                <div className="text-xs opacity-60 mt-1">{sender}'s session with {recipient}: {sessionStatus[`${sender}→${recipient}`]}</div>
+              )}
+              {transport === 'pkcs1' && recipient !== 'Bob' && (
+                <div className="text-xs text-yellow-400 mt-1">Only Bob runs a legacy PKCS#1 v1.5 endpoint; send to Bob or pick another key transport.</div>
+              )}
+              {networkBlocked && (
+                <div className="text-xs text-yellow-400 mt-1">{KEY_TRANSPORTS[transport]} only works with every agent in one tab; pick another key transport.</div>
+              )}
+              {rawRsa && mode === 'sign-then-encrypt' && (
+                <div className="text-xs text-yellow-400 mt-1">A sealed envelope carries the signature inside, which never fits in one RSA block; pick another envelope or turn off raw mode.</div>
+              )}
+              <div className="flex items-center gap-2 mt-2 text-xs">
+                <span className="opacity-70">Key exchange</span>
+                <select
+                  value={keyExchange}
+                  onChange={(e) => setKeyExchange(e.target.value as KeyExchange)}
+                  className="rounded-md bg-slate-800/70 border border-slate-700 px-2 py-1"
+                >
+                  {(Object.keys(KEY_EXCHANGES) as KeyExchange[]).map((k) => (
+                    <option key={k} value={k}>{KEY_EXCHANGES[k]}</option>
+                  ))}
+                </select>
+                {keyExchange === 'swap-all' && (
+                  <input
+                    value={eveRewrite}
+                    onChange={(e) => setEveRewrite(e.target.value)}
+                    placeholder="Eve rewrites it to… (optional)"
+                    className="flex-1 rounded bg-slate-800/70 border border-slate-700 px-2 py-1"
+                  />
+                )}
+                <Button size="sm" variant="destructive" className="ml-auto" disabled={!bob || history.length === 0} onClick={eveStealBobKey}>
+                  😈 Steal Bob's key
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => setShowFingerprints((s) => !s)}>
+                  {showFingerprints ? 'Hide Fingerprints' : 'Compare Fingerprints'}
+                </Button>
+              </div>
+              {sendError && <div className="text-xs text-red-400 mt-1">Send failed: {sendError}</div>}
             </div>
-            <ChatWindow messages={history} onDecrypt={decryptAsBob} />
+            {showFingerprints && <FingerprintCheck comparisons={keyComparisons} views={safetyViews} />}
+            {oracleTarget !== null && (
+              <div className="space-y-2">
+                <PaddingOraclePanel
+                  messages={history.filter((m) => m.recipient === 'Bob')}
+                  targetId={oracleTarget}
+                  onTargetChange={setOracleTarget}
+                  legacyKey={legacyBob}
+                  bobKeys={bob?.encrypt ?? null}
+                />
+                <Button size="sm" variant="ghost" onClick={() => setOracleTarget(null)}>Close attack</Button>
+              </div>
+            )}
+            <ChatWindow messages={history} onDecrypt={decryptMessage} onEveGuess={eveGuess} onPaddingOracle={setOracleTarget} onReplay={eveReplay} onReorder={eveReorder} viewer={networked ? me : undefined} />
           </div>
           <div className="space-y-4">
             {showKeys && (
               <div className="space-y-4">
-                <KeyViewer title="Alice Encryption Keys" publicJwk={aliceEncPubJwk} privateJwk={aliceEncPrivJwk} />
-                <KeyViewer title="Bob Encryption Keys" publicJwk={bobEncPubJwk} privateJwk={bobEncPrivJwk} />
+                <KeyViewer
+                  title="Alice Encryption Keys"
+                  publicJwk={aliceEncPubJwk}
+                  privateJwk={aliceEncPrivJwk}
+                  privateKey={alice?.encrypt.privateKey}
+                  backupName="alice-encryption"
+                  onImportKey={importEncryptionKey('Alice')}
+                />
+                <KeyViewer
+                  title="Bob Encryption Keys"
+                  publicJwk={bobEncPubJwk}
+                  privateJwk={bobEncPrivJwk}
+                  privateKey={bob?.encrypt.privateKey}
+                  backupName="bob-encryption"
+                  onImportKey={importEncryptionKey('Bob')}
+                />
+                <KeyringPanel keyring={keyring} owners={holders} onChange={loadKeys} signatureScheme={sigAlgorithm.scheme} rsaParams={keyParams} />
               </div>
             )}
+            <KeySettingsPanel
+              value={keyParams}
+              onChange={setKeyParams}
+              onRegenerate={regenerateKeys}
+              current={recipientParams}
+              disabled={!keysReady}
+            />
             <div className="rounded-xl border border-slate-700 bg-slate-900/60 p-4">
               <div className="font-semibold mb-2">How it works</div>
               <ol className="list-decimal pl-5 text-sm space-y-1 opacity-90">
-                <li>Alice encrypts with Bob's public key</li>
-                <li>Alice signs with her private key</li>
-                <li>Bob decrypts with his private key and verifies signature</li>
+                <li>The sender encrypts with a fresh AES key and wraps it with the recipient's public key</li>
+                <li>The sender signs with their private key (RSASSA-PKCS1-v1_5, RSA-PSS, ECDSA or Ed25519)</li>
+                <li>The recipient decrypts with their own private key and verifies the signature</li>
                 <li>Eve only sees ciphertext</li>
+                <li>Unless she swaps the public keys in transit: comparing fingerprints exposes her</li>
+                <li>In a double ratchet session every message has its own key, so stealing Bob's key later opens none of them</li>
               </ol>
               {gameMode && (
                 <div className="mt-3 text-sm">
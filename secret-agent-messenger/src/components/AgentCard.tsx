@@ -1,14 +1,17 @@
-import { cn } from "../lib/utils";
-import { Button } from "./ui/button";
+import { cn } from "@shared/lib/utils";
+import type { AgentName } from "../utils/rsa";
+import { Button } from "@shared/components/ui/button";
+import { KeyFingerprint } from "@shared/components/KeyFingerprint";
 
 interface AgentCardProps {
-  name: "Alice" | "Bob" | "Eve";
+  name: AgentName;
   emoji: string;
   subtitle?: string;
+  publicKey?: CryptoKey; // the signing key that identifies the agent
   onShowKeys?: () => void;
 }
 
-export function AgentCard({ name, emoji, subtitle, onShowKeys }: AgentCardProps) {
+export function AgentCard({ name, emoji, subtitle, publicKey, onShowKeys }: AgentCardProps) {
   return (
     <div className={cn(
       "rounded-xl border border-slate-700 bg-slate-900/60 p-4 backdrop-blur shadow"
@@ -25,6 +28,11 @@ export function AgentCard({ name, emoji, subtitle, onShowKeys }: AgentCardProps)
           )}
         </div>
       </div>
+      {publicKey && (
+        <div className="mt-3">
+          <KeyFingerprint publicKey={publicKey} />
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,117 @@
+import { useState } from "react";
+import { Button } from "@shared/components/ui/button";
+import { ATTACKS, ATTACK_IDS, ATTACK_MAX_SECRET_BYTES, type AttackId, type AttackResult } from "../utils/attacks";
+
+// Long numbers are shortened to head…tail so the steps stay readable
+function shorten(value: string): string {
+  return value.length > 80 ? `${value.slice(0, 40)}…${value.slice(-20)} (${value.length} digits)` : value;
+}
+
+function AttackCard({ id, result, running, onRun }: {
+  id: AttackId;
+  result?: AttackResult;
+  running: boolean;
+  onRun: () => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const attack = ATTACKS[id];
+  return (
+    <div className="rounded-md border border-slate-700 bg-slate-800/40 p-3 space-y-2">
+      <div className="flex items-center gap-2">
+        <div className="flex-1">
+          <div className="font-semibold text-sm">{attack.label}</div>
+          <div className="text-xs opacity-70">{attack.weakness}</div>
+        </div>
+        {result && (
+          <span className={result.success ? "text-red-400 text-xs" : "text-green-400 text-xs"}>
+            {result.success ? "💥 PASS: plaintext recovered" : "🛡️ FAIL: plaintext safe"}
+          </span>
+        )}
+        <Button size="sm" variant="destructive" disabled={running} onClick={onRun}>{running ? "Running…" : "Run"}</Button>
+      </div>
+      {result && (
+        <>
+          <div className="text-xs opacity-90">{result.summary}</div>
+          {result.recovered !== null && <div className="text-xs font-mono">Eve reads: "{result.recovered}"</div>}
+          {result.steps.length > 0 && (
+            <Button size="sm" variant="ghost" onClick={() => setOpen((o) => !o)}>{open ? "Hide" : "Show"} steps</Button>
+          )}
+          {open && (
+            <div className="space-y-1">
+              {result.steps.map((s, i) => (
+                <div key={i} className="grid grid-cols-[10rem_1fr] gap-2 text-xs">
+                  <div className="opacity-70">{s.label}</div>
+                  <div className="font-mono break-all">{shorten(s.value)}</div>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export function AttackLabPanel() {
+  const [secret, setSecret] = useState("Meet at dawn");
+  const [results, setResults] = useState<Partial<Record<AttackId, AttackResult>>>({});
+  const [running, setRunning] = useState<AttackId | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const tooLong = new TextEncoder().encode(secret).length > ATTACK_MAX_SECRET_BYTES;
+
+  // Attacks are synchronous BigInt work; yield first so "Running…" gets painted
+  const run = async (ids: AttackId[]) => {
+    setError(null);
+    for (const id of ids) {
+      setRunning(id);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      try {
+        const result = ATTACKS[id].run(secret);
+        setResults((prev) => ({ ...prev, [id]: result }));
+      } catch (err) {
+        setError(`${ATTACKS[id].label}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+    setRunning(null);
+  };
+
+  const passed = ATTACK_IDS.filter((id) => results[id]?.success).length;
+  const ran = ATTACK_IDS.filter((id) => results[id]).length;
+
+  return (
+    <div className="rounded-xl border border-red-700/40 bg-slate-900/60 p-4 space-y-3 text-sm">
+      <div className="flex items-center gap-2">
+        <div className="font-semibold flex-1">😈 Eve's Attack Lab: textbook RSA with weak parameters</div>
+        {ran > 0 && <span className="text-xs opacity-80">{passed}/{ran} attacks recovered the plaintext</span>}
+      </div>
+      <div className="text-xs opacity-70">
+        Each attack builds a victim key with the weakness, encrypts Alice's secret with unpadded RSA, then recovers it
+        from public keys and ciphertexts only. RSA-OAEP and sane parameters (as the chat uses) stop all of them.
+      </div>
+      <div className="flex items-center gap-2 text-xs">
+        <span className="opacity-80">Alice's secret</span>
+        <input
+          value={secret}
+          onChange={(e) => setSecret(e.target.value)}
+          className="flex-1 rounded bg-slate-800/70 border border-slate-700 px-2 py-1 font-mono"
+        />
+        <Button size="sm" variant="destructive" disabled={!secret || tooLong || running !== null} onClick={() => run(ATTACK_IDS)}>
+          Run all
+        </Button>
+      </div>
+      {tooLong && <div className="text-xs text-red-400">The secret must fit in one RSA block: at most {ATTACK_MAX_SECRET_BYTES} bytes.</div>}
+      {error && <div className="text-xs text-red-400">{error}</div>}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {ATTACK_IDS.map((id) => (
+          <AttackCard
+            key={id}
+            id={id}
+            result={results[id]}
+            running={running === id}
+            onRun={() => !tooLong && secret && running === null && run([id])}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,53 +1,191 @@
 import { useMemo, useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { MessageBubble } from "./MessageBubble";
-import { Button } from "./ui/button";
+import { Button } from "@shared/components/ui/button";
+import { isHybridCiphertext, type AgentName } from "../utils/rsa";
+import { isLegacyCiphertext } from "../utils/pkcs1";
+import { isRatchetCiphertext } from "../utils/session";
+import { ENVELOPE_MODES, type EnvelopeMode } from "../utils/envelope";
+import { LEGACY_SIGNATURE_ALGORITHM, describeAlgorithm, type SignatureAlgorithm } from "@shared/crypto/signature";
+import { FRESHNESS_BADGES, type Freshness, type MessageMeta } from "../utils/replay";
 
 export interface ChatMessage {
   id: string;
-  sender: "Alice" | "Bob" | "Eve";
+  sender: AgentName;
+  recipient: AgentName;
+  mode?: EnvelopeMode; // absent on messages sent before envelope modes existed
   ciphertext: string;
   plaintext?: string;
   signature?: string;
+  signatureAlgorithm?: SignatureAlgorithm; // absent on messages signed before schemes existed
   authentic?: boolean;
+  verifyReason?: string;
   tampered?: boolean;
+  eveGuess?: { guess: string; confirmed: boolean | null };
+  intercepted?: { plaintext: string; resigned: boolean }; // Eve relayed it through a substituted key
+  meta?: MessageMeta; // clear signed metadata; sealed envelopes carry it inside
+  freshness?: Freshness; // the recipient's replay and ordering check, made the first time they open it
+  eveAction?: "replayed" | "held back"; // what Eve did to this delivery
+  stolen?: { plaintext?: string; reason: string }; // what Eve got out of it with Bob's stolen long-term keys
+  tapped?: boolean; // picked off the wire by Eve's passive tap, addressed to someone else
+  receivedAt?: number; // when the transport delivered this copy; absent on messages from before it was recorded
   timestamp: number;
 }
 
 interface ChatWindowProps {
   messages: ChatMessage[];
   onDecrypt: (id: string) => void;
+  onEveGuess?: (id: string, guess: string) => void;
+  onPaddingOracle?: (id: string) => void;
+  onReplay?: (id: string) => void;
+  onReorder?: (id: string) => void;
+  viewer?: AgentName; // the agent this tab plays on a real transport; only their messages decrypt here
 }
 
-export function ChatWindow({ messages, onDecrypt }: ChatWindowProps) {
+function describeTransport(ciphertext: string): string {
+  if (isLegacyCiphertext(ciphertext)) return "Legacy: PKCS#1 v1.5 wrapped key + AES-256-GCM";
+  if (isRatchetCiphertext(ciphertext)) return "Session: double ratchet message key + AES-256-GCM";
+  return isHybridCiphertext(ciphertext) ? "Hybrid: RSA-OAEP wrapped key + AES-256-GCM" : "Raw RSA-OAEP (no AES)";
+}
+
+// Eve needs no attacks on her own conversations
+function eveIsParty(m: ChatMessage): boolean {
+  return m.sender === "Eve" || m.recipient === "Eve";
+}
+
+function EveView({ message, onGuess, onOracle, onReplay, onReorder }: {
+  message: ChatMessage;
+  onGuess?: (guess: string) => void;
+  onOracle?: () => void;
+  onReplay?: () => void;
+  onReorder?: () => void; // absent when nothing comes after it
+}) {
+  const [guess, setGuess] = useState("");
+  const mode = message.mode ?? "sign-and-encrypt";
+  return (
+    <div className="mt-2 rounded-md border border-red-700/40 bg-red-900/10 p-2 text-xs space-y-1">
+      <div className="font-semibold text-red-300">😈 What Eve sees</div>
+      <div className="opacity-80">
+        Ciphertext
+        {message.signature
+          ? ` + ${describeAlgorithm(message.signatureAlgorithm ?? LEGACY_SIGNATURE_ALGORITHM)} signature in the clear`
+          : " only"}. She can learn:
+      </div>
+      <ul className="list-disc pl-5 opacity-80">
+        {ENVELOPE_MODES[mode].eveLearns.map((l) => <li key={l}>{l}</li>)}
+      </ul>
+      {onGuess && (
+        <div className="flex items-center gap-2">
+          <input
+            value={guess}
+            onChange={(e) => setGuess(e.target.value)}
+            placeholder="Eve guesses the plaintext…"
+            className="flex-1 rounded bg-slate-800/70 border border-slate-700 px-2 py-1"
+          />
+          <Button size="sm" variant="destructive" disabled={!guess} onClick={() => onGuess(guess)}>Test Guess</Button>
+        </div>
+      )}
+      {onOracle && (isLegacyCiphertext(message.ciphertext) || isHybridCiphertext(message.ciphertext)) && (
+        <Button size="sm" variant="destructive" onClick={onOracle}>Padding-oracle attack on the wrapped key</Button>
+      )}
+      {(onReplay || onReorder) && (
+        <div className="flex items-center gap-2">
+          {onReplay && <Button size="sm" variant="destructive" onClick={onReplay}>Replay to {message.recipient}</Button>}
+          {onReorder && <Button size="sm" variant="destructive" onClick={onReorder}>Reorder: deliver after the next one</Button>}
+        </div>
+      )}
+      {message.eveGuess && (
+        <div className={message.eveGuess.confirmed ? "text-red-400" : "opacity-80"}>
+          {message.eveGuess.confirmed === null
+            ? `"${message.eveGuess.guess}": nothing to check it against in this mode`
+            : message.eveGuess.confirmed
+              ? `"${message.eveGuess.guess}": confirmed by the clear signature!`
+              : `"${message.eveGuess.guess}": wrong guess`}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function ChatWindow({ messages, onDecrypt, onEveGuess, onPaddingOracle, onReplay, onReorder, viewer }: ChatWindowProps) {
   const sorted = useMemo(() => [...messages].sort((a, b) => a.timestamp - b.timestamp), [messages]);
   const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+  const [eveOpen, setEveOpen] = useState<Record<string, boolean>>({});
 
   return (
     <div className="rounded-2xl border border-slate-700 bg-slate-900/60 p-4 h-[60vh] overflow-y-auto">
       <AnimatePresence initial={false}>
-        {sorted.map((m) => (
+        {sorted.map((m, i) => (
           <motion.div key={m.id} layout className="mb-3">
-            <MessageBubble sender="Alice" text={"Alice → Bob"} timestamp={new Date(m.timestamp).toLocaleTimeString()} />
+            <MessageBubble sender={m.sender} text={`${m.sender} → ${m.recipient}`} timestamp={new Date(m.timestamp).toLocaleTimeString()} />
             <div className="my-1" />
             <MessageBubble sender="Cipher" text={m.ciphertext} isCipher />
+            <div className="text-[10px] opacity-60 mt-1">
+              {ENVELOPE_MODES[m.mode ?? "sign-and-encrypt"].label} •{" "}
+              {describeAlgorithm(m.signatureAlgorithm ?? LEGACY_SIGNATURE_ALGORITHM)} •{" "}
+              {describeTransport(m.ciphertext)}
+              {m.meta && ` • #${m.meta.seq}, signed ${new Date(m.meta.timestamp).toLocaleTimeString()}`}
+            </div>
+            {m.eveAction && <div className="mt-1 text-xs text-red-300">😈 Eve {m.eveAction} this delivery</div>}
+            {m.tapped && <div className="mt-1 text-xs text-red-300">👂 Tapped off the wire: addressed to {m.recipient}, not Eve</div>}
+            {m.stolen && (
+              <div className={`mt-1 text-xs ${m.stolen.plaintext === undefined ? "text-green-400" : "text-red-300"}`}>
+                {m.stolen.plaintext === undefined
+                  ? `🛡️ Bob's stolen keys don't open it: ${m.stolen.reason}`
+                  : `😈 With Bob's stolen keys Eve reads "${m.stolen.plaintext}"`}
+              </div>
+            )}
+            {m.intercepted && (
+              <div className="mt-1 text-xs text-red-300">
+                😈 Eve in the middle read "{m.intercepted.plaintext}" and re-encrypted it to {m.recipient},{" "}
+                {m.intercepted.resigned ? "re-signed with her own key" : `passing ${m.sender}'s signature on`}
+              </div>
+            )}
             <div className="mt-2 flex items-center gap-2">
-              <Button size="sm" onClick={() => onDecrypt(m.id)}>Decrypt (Bob)</Button>
+              <Button
+                size="sm"
+                disabled={viewer !== undefined && viewer !== m.recipient}
+                title={viewer !== undefined && viewer !== m.recipient ? `Only ${m.recipient}'s tab holds the private key` : undefined}
+                onClick={() => onDecrypt(m.id)}
+              >
+                Decrypt ({m.recipient})
+              </Button>
               {typeof m.authentic !== "undefined" && (
                 <div className={m.authentic ? "text-green-400" : "text-red-400"}>
                   {m.authentic ? "✅ Authentic" : "❌ Forged"}
+                  {m.verifyReason && <span className="ml-2 text-xs opacity-80">{m.verifyReason}</span>}
                 </div>
               )}
               {m.tampered && <div className="text-yellow-400">⚠️ Tampered</div>}
+              {m.freshness && (
+                <div className={FRESHNESS_BADGES[m.freshness.status].ok ? "text-sky-300" : "text-orange-400"}>
+                  {FRESHNESS_BADGES[m.freshness.status].label}
+                  <span className="ml-2 text-xs opacity-80">{m.freshness.reason}</span>
+                </div>
+              )}
               {m.plaintext && (
                 <Button size="sm" variant="ghost" onClick={() => setExpanded((e) => ({ ...e, [m.id]: !e[m.id] }))}>
                   {expanded[m.id] ? "Hide" : "Show"} Plaintext
                 </Button>
               )}
+              {!eveIsParty(m) && (
+                <Button size="sm" variant="ghost" onClick={() => setEveOpen((e) => ({ ...e, [m.id]: !e[m.id] }))}>
+                  {eveOpen[m.id] ? "Hide" : "Eve's"} View
+                </Button>
+              )}
             </div>
+            {eveOpen[m.id] && !eveIsParty(m) && (
+              <EveView
+                message={m}
+                onGuess={onEveGuess && ((g) => onEveGuess(m.id, g))}
+                onOracle={onPaddingOracle && (() => onPaddingOracle(m.id))}
+                onReplay={onReplay && (() => onReplay(m.id))}
+                onReorder={onReorder && i < sorted.length - 1 && m.plaintext === undefined ? () => onReorder(m.id) : undefined}
+              />
+            )}
             {m.plaintext && expanded[m.id] && (
               <div className="mt-2">
-                <MessageBubble sender="Bob" text={m.plaintext} />
+                <MessageBubble sender={m.sender} text={m.plaintext} />
               </div>
             )}
             <div className="h-px bg-slate-700/50 my-3" />
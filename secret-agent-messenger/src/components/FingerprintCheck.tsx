@@ -0,0 +1,105 @@
+import { useEffect, useState } from "react";
+import { Identicon } from "@shared/components/KeyFingerprint";
+import { fingerprintKey, safetyNumber, type KeyFingerprints, type SafetyIdentity } from "@shared/crypto/fingerprint";
+
+export interface KeyComparison {
+  label: string;
+  heldBy: string; // whose copy of the key is being checked
+  held: CryptoKey;
+  owner: string; // who reads their own fingerprint out for comparison
+  actual: CryptoKey;
+}
+
+// What one agent's screen shows: their own keys against the keys they hold for the other
+export interface SafetyView {
+  viewer: string;
+  pair: [SafetyIdentity, SafetyIdentity];
+}
+
+interface Computed {
+  prints: KeyFingerprints[]; // [held, actual] per comparison
+  numbers: string[]; // one per view
+}
+
+// `comparisons` and `views` must be memoized
+function useComputed(comparisons: KeyComparison[], views: SafetyView[]): Computed | null {
+  const [state, setState] = useState<{ of: [KeyComparison[], SafetyView[]]; computed: Computed } | null>(null);
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([
+      Promise.all(comparisons.flatMap((c) => [c.held, c.actual]).map(fingerprintKey)),
+      Promise.all(views.map((v) => safetyNumber(...v.pair))),
+    ]).then(([prints, numbers]) => !cancelled && setState({ of: [comparisons, views], computed: { prints, numbers } }));
+    return () => {
+      cancelled = true;
+    };
+  }, [comparisons, views]);
+  return state && state.of[0] === comparisons && state.of[1] === views ? state.computed : null;
+}
+
+// The out-of-band check that defeats key substitution: each side reads the
+// fingerprint of the key they hold, the owner reads the one they generated
+export function FingerprintCheck({ comparisons, views = [] }: { comparisons: KeyComparison[]; views?: SafetyView[] }) {
+  const computed = useComputed(comparisons, views);
+  const numbers = computed?.numbers ?? [];
+  const numbersMatch = numbers.length > 1 && numbers.every((n) => n === numbers[0]);
+
+  return (
+    <div className="rounded-xl border border-slate-700 bg-slate-900/60 p-4 space-y-3 text-sm">
+      <div className="font-semibold">🔍 Compare key fingerprints</div>
+      <div className="text-xs opacity-70">
+        Alice and Bob read fingerprints or the safety number to each other over a channel Eve can't touch, like a call
+        or in person. Any mismatch means a key in transit was swapped.
+      </div>
+      {views.length > 0 && (
+        <div className="rounded-md border border-slate-700 bg-slate-800/40 p-3 space-y-1 text-xs">
+          <div className="flex items-center gap-2">
+            <div className="font-semibold flex-1">Safety number</div>
+            {numbers.length === views.length && views.length > 1 && (
+              <span className={numbersMatch ? "text-green-400" : "text-red-400"}>
+                {numbersMatch ? "✅ Same on both screens" : "❌ MISMATCH: someone holds a substituted key"}
+              </span>
+            )}
+          </div>
+          <div className="grid grid-cols-[8rem_1fr] gap-2">
+            {views.map((v, i) => (
+              <div key={v.viewer} className="contents">
+                <div className="opacity-70">{v.viewer}'s screen</div>
+                <div className="font-mono break-all">{numbers[i] ?? "…"}</div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+      {comparisons.map((c, i) => {
+        const held = computed?.prints[2 * i];
+        const actual = computed?.prints[2 * i + 1];
+        const match = held !== undefined && held.hex === actual?.hex;
+        return (
+          <div key={c.label} className="rounded-md border border-slate-700 bg-slate-800/40 p-3 space-y-1 text-xs">
+            <div className="flex items-center gap-2">
+              <div className="font-semibold flex-1">{c.label}</div>
+              {held && actual && (
+                <span className={match ? "text-green-400" : "text-red-400"}>
+                  {match ? "✅ Fingerprints match" : "❌ MISMATCH: the key was substituted"}
+                </span>
+              )}
+            </div>
+            <div className="grid grid-cols-[8rem_1fr] gap-2 items-center">
+              <div className="opacity-70">{c.heldBy}'s copy</div>
+              <div className="flex items-center gap-2">
+                {held && <Identicon bytes={held.bytes} size={20} />}
+                <span className="font-mono break-all">{held?.hex ?? "…"}</span>
+              </div>
+              <div className="opacity-70">{c.owner}'s own key</div>
+              <div className="flex items-center gap-2">
+                {actual && <Identicon bytes={actual.bytes} size={20} />}
+                <span className="font-mono break-all">{actual?.hex ?? "…"}</span>
+              </div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,264 @@
+import { useState } from "react";
+import { Button } from "@shared/components/ui/button";
+import { MessageBubble } from "./MessageBubble";
+import type { AgentKeys, AgentName } from "../utils/rsa";
+import { algorithmForKey, type SignatureAlgorithm } from "@shared/crypto/signature";
+import {
+  addMember,
+  createGroup,
+  groupKeyId,
+  openGroupMessage,
+  parseGroupEnvelope,
+  removeMember,
+  rotateGroupKey,
+  sealGroupMessage,
+  unwrapGroupKey,
+  type Group,
+} from "../utils/group";
+
+interface GroupMessage {
+  id: string;
+  groupId: string;
+  ciphertext: string;
+  timestamp: number;
+}
+
+// What one agent gets out of a group message
+type Reading =
+  | { readable: true; sender: AgentName; plaintext: string; authentic: boolean; reason: string; via: "wrapped" | "held" }
+  | { readable: false; reason: string };
+
+interface GroupPanelProps {
+  agents: AgentKeys[];
+  signatureAlgorithm: SignatureAlgorithm;
+}
+
+export function GroupPanel({ agents, signatureAlgorithm }: GroupPanelProps) {
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [groupId, setGroupId] = useState<string | null>(null);
+  const [messages, setMessages] = useState<GroupMessage[]>([]);
+  const [newName, setNewName] = useState("");
+  const [newMembers, setNewMembers] = useState<AgentName[]>([]);
+  const [joiner, setJoiner] = useState<AgentName>("");
+  const [sender, setSender] = useState<AgentName>("");
+  const [text, setText] = useState("");
+  const [viewer, setViewer] = useState<AgentName>("Alice");
+  const [readings, setReadings] = useState<{ viewer: AgentName; byId: Record<string, Reading> } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const names = agents.map((a) => a.name);
+  const keysOf = (name: AgentName) => agents.find((a) => a.name === name);
+  const group = groups.find((g) => g.id === groupId) ?? null;
+  const thread = messages.filter((m) => m.groupId === groupId);
+  const from = group && (group.members.includes(sender) ? sender : group.members[0]);
+  const outsiders = group ? names.filter((n) => !group.members.includes(n)) : [];
+  const newcomer = outsiders.includes(joiner) ? joiner : outsiders[0];
+  const shown = readings && readings.viewer === viewer ? readings.byId : null;
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const replaceGroup = (next: Group) => {
+    setGroups((gs) => gs.map((g) => (g.id === next.id ? next : g)));
+    setReadings(null);
+  };
+
+  const create = () => run(async () => {
+    const created = await createGroup(newName.trim(), newMembers);
+    setGroups((gs) => [...gs, created]);
+    setGroupId(created.id);
+    setNewName("");
+    setNewMembers([]);
+  });
+
+  const send = () => run(async () => {
+    const me = from ? keysOf(from) : undefined;
+    if (!group || !from || !me || !text) return;
+    const ciphertext = await sealGroupMessage({
+      group,
+      sender: from,
+      plaintext: text,
+      senderSignKey: me.sign.privateKey,
+      memberEncryptKey: (member) => keysOf(member)?.encrypt.publicKey,
+      signatureAlgorithm: algorithmForKey(signatureAlgorithm, me.sign.privateKey),
+    });
+    setMessages((ms) => [...ms, { id: crypto.randomUUID(), groupId: group.id, ciphertext, timestamp: Date.now() }]);
+    setText("");
+    setReadings(null);
+  });
+
+  // Every group key wrapped for the viewer first, since holding an epoch's key
+  // also opens that epoch's messages that weren't wrapped for them
+  const readAs = () => run(async () => {
+    const me = keysOf(viewer);
+    if (!me) return;
+    const held = new Map<string, CryptoKey>();
+    const wrappedFor = new Set<string>();
+    for (const m of thread) {
+      const key = await unwrapGroupKey(m.ciphertext, viewer, me.encrypt.privateKey);
+      if (!key) continue;
+      const { group: id, epoch } = parseGroupEnvelope(m.ciphertext);
+      held.set(groupKeyId(id, epoch), key);
+      wrappedFor.add(m.id);
+    }
+    const byId: Record<string, Reading> = {};
+    for (const m of thread) {
+      const { group: id, epoch } = parseGroupEnvelope(m.ciphertext);
+      const key = held.get(groupKeyId(id, epoch));
+      if (!key) {
+        byId[m.id] = { readable: false, reason: `Not wrapped for ${viewer}, who holds no epoch ${epoch} key` };
+        continue;
+      }
+      const opened = await openGroupMessage({ ciphertext: m.ciphertext, groupKey: key, senderVerifyKey: (s) => keysOf(s)?.sign.publicKey });
+      byId[m.id] = { readable: true, ...opened, via: wrappedFor.has(m.id) ? "wrapped" : "held" };
+    }
+    setReadings({ viewer, byId });
+  });
+
+  return (
+    <div className="rounded-xl border border-slate-700 bg-slate-900/60 p-4 space-y-3 text-sm">
+      <div className="font-semibold">👥 Group chats</div>
+      <div className="text-xs opacity-70">
+        Each message is AES-256-GCM encrypted once under the group key, and the key is wrapped with RSA-OAEP for every
+        member. Removing someone rotates the key, so the copies they kept open nothing sent afterwards.
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="New group name…"
+          className="rounded bg-slate-800/70 border border-slate-700 px-2 py-1"
+        />
+        {names.map((n) => (
+          <label key={n} className="flex items-center gap-1 opacity-80">
+            <input
+              type="checkbox"
+              checked={newMembers.includes(n)}
+              onChange={(e) => setNewMembers((ms) => (e.target.checked ? [...ms, n] : ms.filter((m) => m !== n)))}
+            />
+            {n}
+          </label>
+        ))}
+        <Button size="sm" disabled={!newName.trim() || newMembers.length < 2} onClick={create}>Create group</Button>
+      </div>
+
+      {groups.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <span className="opacity-70">Group</span>
+          <select
+            value={group?.id ?? ""}
+            onChange={(e) => setGroupId(e.target.value)}
+            className="rounded bg-slate-800/70 border border-slate-700 px-2 py-1"
+          >
+            <option value="" disabled>Pick a group…</option>
+            {groups.map((g) => <option key={g.id} value={g.id}>{g.name}</option>)}
+          </select>
+          {group && <span className="opacity-70">Epoch {group.epoch}</span>}
+        </div>
+      )}
+
+      {group && (
+        <>
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <span className="opacity-70">Members</span>
+            {group.members.map((m) => (
+              <span key={m} className="flex items-center gap-1 rounded bg-slate-800/70 border border-slate-700 px-2 py-0.5">
+                {m}
+                <button
+                  className="opacity-60 hover:opacity-100 disabled:opacity-30"
+                  title={`Remove ${m} and rotate the key`}
+                  disabled={group.members.length <= 1}
+                  onClick={() => run(async () => replaceGroup(await removeMember(group, m)))}
+                >
+                  ✕
+                </button>
+              </span>
+            ))}
+            {newcomer && (
+              <>
+                <select
+                  value={newcomer}
+                  onChange={(e) => setJoiner(e.target.value)}
+                  className="rounded bg-slate-800/70 border border-slate-700 px-2 py-1"
+                >
+                  {outsiders.map((n) => <option key={n} value={n}>{n}</option>)}
+                </select>
+                <Button size="sm" variant="outline" onClick={() => replaceGroup(addMember(group, newcomer))}>Add</Button>
+              </>
+            )}
+            <Button size="sm" variant="ghost" onClick={() => run(async () => replaceGroup(await rotateGroupKey(group)))}>Rotate key</Button>
+          </div>
+
+          <div className="flex items-center gap-2 text-xs">
+            <select
+              value={from ?? ""}
+              onChange={(e) => setSender(e.target.value)}
+              className="rounded bg-slate-800/70 border border-slate-700 px-2 py-1"
+            >
+              {group.members.map((m) => <option key={m} value={m}>{m}</option>)}
+            </select>
+            <input
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && send()}
+              placeholder={`${from} writes to ${group.name}…`}
+              className="flex-1 rounded bg-slate-800/70 border border-slate-700 px-2 py-1"
+            />
+            <Button size="sm" disabled={!text} onClick={send}>Send to group</Button>
+          </div>
+
+          <div className="flex items-center gap-2 text-xs">
+            <span className="opacity-70">Read as</span>
+            <select
+              value={viewer}
+              onChange={(e) => setViewer(e.target.value)}
+              className="rounded bg-slate-800/70 border border-slate-700 px-2 py-1"
+            >
+              {names.map((n) => <option key={n} value={n}>{n}{group.members.includes(n) ? "" : " (not a member)"}</option>)}
+            </select>
+            <Button size="sm" variant="outline" disabled={thread.length === 0} onClick={readAs}>Decrypt ({viewer})</Button>
+          </div>
+
+          <div className="space-y-2">
+            {thread.map((m) => {
+              const envelope = parseGroupEnvelope(m.ciphertext);
+              const reading = shown?.[m.id];
+              return (
+                <div key={m.id} className="rounded-md border border-slate-700 bg-slate-800/40 p-2 space-y-1">
+                  <div className="text-[10px] opacity-60">
+                    {new Date(m.timestamp).toLocaleTimeString()} • epoch {envelope.epoch} • key wrapped for {Object.keys(envelope.keys).join(", ")}
+                  </div>
+                  <MessageBubble sender="Cipher" text={`${m.ciphertext.slice(0, 64)}…`} isCipher />
+                  {reading && (reading.readable ? (
+                    <>
+                      <MessageBubble sender={reading.sender} text={reading.plaintext} />
+                      <div className={`text-xs ${reading.authentic ? "text-green-400" : "text-red-400"}`}>
+                        {reading.authentic ? "✅ Authentic" : "❌ Forged"}
+                        <span className="ml-2 opacity-80">{reading.reason}</span>
+                        {reading.via === "held" && (
+                          <span className="ml-2 text-orange-400">
+                            🔑 Not wrapped for {viewer}: opened with the epoch {envelope.epoch} key from another message
+                          </span>
+                        )}
+                      </div>
+                    </>
+                  ) : (
+                    <div className="text-xs text-slate-400">🔒 {reading.reason}</div>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+      {error && <div className="text-xs text-red-400">{error}</div>}
+    </div>
+  );
+}
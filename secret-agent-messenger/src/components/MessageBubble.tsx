@@ -1,7 +1,8 @@
 import { motion } from "framer-motion";
-import { cn } from "../lib/utils";
+import { cn } from "@shared/lib/utils";
+import type { AgentName } from "../utils/rsa";
 
-export type Sender = "Alice" | "Bob" | "Eve" | "Cipher";
+export type Sender = AgentName | "Cipher";
 
 interface MessageBubbleProps {
   sender: Sender;
@@ -11,6 +12,7 @@ interface MessageBubbleProps {
 }
 
 export function MessageBubble({ sender, text, isCipher, timestamp }: MessageBubbleProps) {
+  // Recruited agents share one colour and Alice's side of the chat
   const colorMap: Record<Sender, string> = {
     Alice: "bg-green-700/60 text-green-50",
     Bob: "bg-blue-700/60 text-blue-50",
@@ -18,17 +20,24 @@ export function MessageBubble({ sender, text, isCipher, timestamp }: MessageBubb
     Cipher: "bg-yellow-600/20 text-yellow-200 border border-yellow-500/40 font-mono",
   };
 
-  const align = sender === "Bob" ? "items-end" : "items-start";
+  const recruitColor = "bg-violet-700/60 text-violet-50";
+
+  const alignMap: Record<Sender, string> = {
+    Alice: "items-start",
+    Bob: "items-end",
+    Eve: "items-center",
+    Cipher: "items-start",
+  };
 
   return (
-    <div className={cn("w-full flex", align)}>
+    <div className={cn("w-full flex flex-col", alignMap[sender] ?? "items-start")}>
       <motion.div
         initial={{ opacity: 0, y: 20, scale: isCipher ? 0.9 : 1 }}
         animate={{ opacity: 1, y: 0, scale: 1 }}
         transition={{ type: "spring", stiffness: 240, damping: 18 }}
         className={cn(
           "max-w-[80%] rounded-lg px-4 py-2 shadow-lg backdrop-blur",
-          colorMap[isCipher ? "Cipher" : sender]
+          colorMap[isCipher ? "Cipher" : sender] ?? recruitColor
         )}
       >
         <div className="text-xs opacity-70 mb-1">{sender}{timestamp ? ` • ${timestamp}` : ""}</div>
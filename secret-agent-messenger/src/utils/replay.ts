@@ -0,0 +1,82 @@
+import type { AgentName } from "./rsa";
+
+// Signed metadata that makes every message unique and ordered. It travels
+// wherever the signature does: inside a sealed envelope, or next to a clear
+// signature that covers it.
+export interface MessageMeta {
+  sender: AgentName;
+  recipient: AgentName;
+  seq: number; // per sender → recipient, from 1
+  timestamp: number;
+  nonce: string; // 128 random bits, hex
+}
+
+export function createMeta(sender: AgentName, recipient: AgentName, seq: number): MessageMeta {
+  const nonce = Array.from(crypto.getRandomValues(new Uint8Array(16)), (b) => b.toString(16).padStart(2, "0")).join("");
+  return { sender, recipient, seq, timestamp: Date.now(), nonce };
+}
+
+export type FreshnessStatus = "fresh" | "replayed" | "out-of-order" | "misdirected" | "stale" | "unsequenced";
+
+export interface Freshness {
+  status: FreshnessStatus;
+  reason: string;
+}
+
+export const FRESHNESS_BADGES: Record<FreshnessStatus, { label: string; ok: boolean }> = {
+  fresh: { label: "🆕 Fresh", ok: true },
+  replayed: { label: "🔁 Replayed", ok: false },
+  "out-of-order": { label: "⏪ Out of order", ok: false },
+  misdirected: { label: "📭 Misdirected", ok: false },
+  stale: { label: "🕰️ Stale", ok: false },
+  unsequenced: { label: "❔ Unsequenced", ok: false },
+};
+
+// How long a message may take from signing to arrival before the receiver
+// refuses it. It is measured at arrival, not when the message is opened, so
+// old mail read late is not flagged. The nonce memory is what stops replays;
+// the window only catches those from before that memory began.
+export const MAX_MESSAGE_AGE_MS = 5 * 60 * 1000;
+
+export interface ReplayGuard {
+  // Call once per delivered message, after its signature verified, with the
+  // time the transport delivered it
+  check: (meta: MessageMeta | undefined, receivedAt?: number) => Freshness;
+  memory: () => GuardMemory;
+}
+
+// What a guard has to keep across a reload for replays to stay caught
+export interface GuardMemory {
+  seen: string[];
+  nextSeq: Record<AgentName, number>;
+}
+
+// The receiver's memory: every nonce seen, and the next sequence number
+// expected from each sender
+export function createReplayGuard(recipient: AgentName, saved?: GuardMemory): ReplayGuard {
+  const seen = new Set<string>(saved?.seen);
+  const nextSeq = new Map<AgentName, number>(Object.entries(saved?.nextSeq ?? {}));
+  return {
+    memory: () => ({ seen: [...seen], nextSeq: Object.fromEntries(nextSeq) }),
+    check: (meta, receivedAt = Date.now()) => {
+      if (!meta) return { status: "unsequenced", reason: "No signed sequence number, nonce or timestamp: a replay would go unnoticed" };
+      if (meta.recipient !== recipient) return { status: "misdirected", reason: `Signed for ${meta.recipient}, not ${recipient}` };
+      if (seen.has(meta.nonce)) return { status: "replayed", reason: `Nonce ${meta.nonce.slice(0, 8)}… was already delivered (#${meta.seq})` };
+      const age = receivedAt - meta.timestamp;
+      if (age > MAX_MESSAGE_AGE_MS) {
+        return { status: "stale", reason: `Arrived ${Math.round(age / 1000)} s after it was signed, past the ${MAX_MESSAGE_AGE_MS / 60000} min window` };
+      }
+      seen.add(meta.nonce);
+      const expected = nextSeq.get(meta.sender) ?? 1;
+      nextSeq.set(meta.sender, Math.max(expected, meta.seq + 1));
+      if (meta.seq < expected) {
+        return { status: "out-of-order", reason: `#${meta.seq} from ${meta.sender} arrived after #${expected - 1}` };
+      }
+      const missing = meta.seq - expected;
+      return {
+        status: "fresh",
+        reason: missing > 0 ? `#${meta.seq}; ${missing} earlier message${missing > 1 ? "s" : ""} not seen yet` : `#${meta.seq} in order`,
+      };
+    },
+  };
+}
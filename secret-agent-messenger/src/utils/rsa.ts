@@ -1,9 +1,9 @@
-export type AgentName = "Alice" | "Bob" | "Eve";
+import { arrayBufferToBase64, base64ToArrayBuffer } from "@shared/crypto/base64";
+import { oaepMaxPlaintext, rsaParamsOf } from "@shared/crypto/keyparams";
+import type { RsaEncryptionKeys } from "@shared/crypto/oaep";
 
-export interface RsaEncryptionKeys {
-  publicKey: CryptoKey;
-  privateKey: CryptoKey;
-}
+// Alice, Bob and Eve to begin with, then anyone recruited since
+export type AgentName = string;
 
 export interface RsaSigningKeys {
   publicKey: CryptoKey;
@@ -16,46 +16,65 @@ export interface AgentKeys {
   sign: RsaSigningKeys;
 }
 
-const RSA_PUBLIC_EXPONENT = new Uint8Array([0x01, 0x00, 0x01]); // 65537
-
-export async function generateEncryptionKeyPair(): Promise<RsaEncryptionKeys> {
-  const keyPair = await crypto.subtle.generateKey(
-    {
-      name: "RSA-OAEP",
-      modulusLength: 2048,
-      publicExponent: RSA_PUBLIC_EXPONENT,
-      hash: "SHA-256",
-    },
-    true,
-    ["encrypt", "decrypt"],
-  );
-  return { publicKey: keyPair.publicKey, privateKey: keyPair.privateKey };
+// Hybrid envelope: "hyb1:<wrappedKey>.<iv>.<ciphertext>" (all base64).
+// The AES-256-GCM key is wrapped with RSA-OAEP, so message length is unbounded.
+// Anything without the prefix is a legacy raw RSA-OAEP ciphertext.
+const HYBRID_PREFIX = "hyb1:";
+
+export function isHybridCiphertext(ciphertext: string): boolean {
+  return ciphertext.startsWith(HYBRID_PREFIX);
 }
 
-export async function generateSigningKeyPair(): Promise<RsaSigningKeys> {
-  const keyPair = await crypto.subtle.generateKey(
-    {
-      name: "RSASSA-PKCS1-v1_5",
-      modulusLength: 2048,
-      publicExponent: RSA_PUBLIC_EXPONENT,
-      hash: "SHA-256",
-    },
-    true,
-    ["sign", "verify"],
-  );
-  return { publicKey: keyPair.publicKey, privateKey: keyPair.privateKey };
+// The most bytes RSA-OAEP can encrypt directly under this key
+export function oaepLimit(publicKey: CryptoKey): number {
+  const params = rsaParamsOf(publicKey);
+  return params ? oaepMaxPlaintext(params.modulusLength, params.hash) : 0;
 }
 
+// `raw` skips AES and RSA-OAEP encrypts the plaintext itself, in the legacy
+// format, so it only fits messages up to oaepLimit(publicKey) bytes
 export async function encryptString(
   publicKey: CryptoKey,
   plaintext: string,
+  raw = false,
 ): Promise<string> {
   const data = new TextEncoder().encode(plaintext);
-  const encrypted = await crypto.subtle.encrypt({ name: "RSA-OAEP" }, publicKey, data);
-  return arrayBufferToBase64(encrypted);
+  const limit = oaepLimit(publicKey);
+  if (raw) {
+    if (data.length > limit) {
+      throw new Error(`Raw RSA-OAEP with this key fits at most ${Math.max(0, limit)} bytes; the message is ${data.length}`);
+    }
+    return arrayBufferToBase64(await crypto.subtle.encrypt({ name: "RSA-OAEP" }, publicKey, data));
+  }
+  if (limit < 32) throw new Error(`This key's RSA-OAEP limit (${Math.max(0, limit)} bytes) is too small to wrap a 32-byte AES key`);
+  const aes = await generateAesKey();
+  const { iv, ciphertext } = await aesEncrypt(aes, data);
+  const wrapped = await crypto.subtle.encrypt({ name: "RSA-OAEP" }, publicKey, await exportAesKeyRaw(aes));
+  return HYBRID_PREFIX + [arrayBufferToBase64(wrapped), arrayBufferToBase64(iv.buffer), arrayBufferToBase64(ciphertext)].join(".");
+}
+
+// The RSA-OAEP wrapped AES key of a hybrid envelope, as an eavesdropper sees it
+export function hybridWrappedKey(envelope: string): ArrayBuffer {
+  if (!isHybridCiphertext(envelope)) throw new Error("Not a hybrid envelope");
+  return base64ToArrayBuffer(envelope.slice(HYBRID_PREFIX.length).split(".")[0]);
 }
 
 export async function decryptToString(
+  privateKey: CryptoKey,
+  envelope: string,
+): Promise<string> {
+  if (!isHybridCiphertext(envelope)) return decryptLegacyToString(privateKey, envelope);
+  const parts = envelope.slice(HYBRID_PREFIX.length).split(".");
+  if (parts.length !== 3) throw new Error("Malformed hybrid envelope");
+  const [wrappedB64, ivB64, ctB64] = parts;
+  const rawAes = await crypto.subtle.decrypt({ name: "RSA-OAEP" }, privateKey, base64ToArrayBuffer(wrappedB64));
+  const aes = await importAesKeyRaw(rawAes);
+  const plain = await aesDecrypt(aes, new Uint8Array(base64ToArrayBuffer(ivB64)), base64ToArrayBuffer(ctB64));
+  return new TextDecoder().decode(plain);
+}
+
+// Pre-hybrid messages: the whole plaintext was RSA-OAEP encrypted directly
+async function decryptLegacyToString(
   privateKey: CryptoKey,
   base64Ciphertext: string,
 ): Promise<string> {
@@ -64,61 +83,34 @@ export async function decryptToString(
   return new TextDecoder().decode(decrypted);
 }
 
-export async function signString(
-  privateKey: CryptoKey,
-  data: string,
-): Promise<string> {
-  const bytes = new TextEncoder().encode(data);
-  const sig = await crypto.subtle.sign(
-    { name: "RSASSA-PKCS1-v1_5" },
-    privateKey,
-    bytes,
-  );
-  return arrayBufferToBase64(sig);
+// AES-GCM helpers for the hybrid envelope
+export async function generateAesKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, true, ["encrypt", "decrypt"]);
 }
 
-export async function verifySignature(
-  publicKey: CryptoKey,
-  data: string,
-  base64Signature: string,
-): Promise<boolean> {
-  const bytes = new TextEncoder().encode(data);
-  const sigBytes = base64ToArrayBuffer(base64Signature);
-  return await crypto.subtle.verify(
-    { name: "RSASSA-PKCS1-v1_5" },
-    publicKey,
-    sigBytes,
-    bytes,
-  );
+export async function aesEncrypt(key: CryptoKey, data: Uint8Array): Promise<{ iv: Uint8Array; ciphertext: ArrayBuffer }> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, data);
+  return { iv, ciphertext };
 }
 
-export async function exportPublicKeyJwk(key: CryptoKey): Promise<JsonWebKey> {
-  return (await crypto.subtle.exportKey("jwk", key)) as JsonWebKey;
+export async function aesDecrypt(key: CryptoKey, iv: Uint8Array, ciphertext: ArrayBuffer): Promise<Uint8Array> {
+  const plaintext = await crypto.subtle.decrypt({ name: "AES-GCM", iv }, key, ciphertext);
+  return new Uint8Array(plaintext);
 }
 
-export async function exportPrivateKeyJwk(key: CryptoKey): Promise<JsonWebKey> {
-  return (await crypto.subtle.exportKey("jwk", key)) as JsonWebKey;
+export async function exportAesKeyRaw(key: CryptoKey): Promise<ArrayBuffer> {
+  return crypto.subtle.exportKey("raw", key);
 }
 
-export function arrayBufferToBase64(buffer: ArrayBuffer): string {
-  const bytes = new Uint8Array(buffer);
-  let binary = "";
-  for (let i = 0; i < bytes.byteLength; i++) {
-    binary += String.fromCharCode(bytes[i]);
-  }
-  return btoa(binary);
+export async function importAesKeyRaw(raw: ArrayBuffer): Promise<CryptoKey> {
+  return crypto.subtle.importKey("raw", raw, { name: "AES-GCM" }, true, ["encrypt", "decrypt"]);
 }
 
-export function base64ToArrayBuffer(base64: string): ArrayBuffer {
-  const binary = atob(base64);
-  const bytes = new Uint8Array(binary.length);
-  for (let i = 0; i < binary.length; i++) {
-    bytes[i] = binary.charCodeAt(i);
-  }
-  return bytes.buffer;
+export async function exportPublicKeyJwk(key: CryptoKey): Promise<JsonWebKey> {
+  return (await crypto.subtle.exportKey("jwk", key)) as JsonWebKey;
 }
 
-export function prettyPrintJwk(jwk: JsonWebKey): string {
-  return JSON.stringify(jwk, Object.keys(jwk).sort(), 2);
+export async function exportPrivateKeyJwk(key: CryptoKey): Promise<JsonWebKey> {
+  return (await crypto.subtle.exportKey("jwk", key)) as JsonWebKey;
 }
-
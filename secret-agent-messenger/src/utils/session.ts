@@ -0,0 +1,311 @@
+import { arrayBufferToBase64, base64ToArrayBuffer } from "@shared/crypto/base64";
+import type { AgentName } from "./rsa";
+import { signWith, verifyWith, type SignatureAlgorithm } from "@shared/crypto/signature";
+
+// Forward-secret sessions. The long-term signing keys only sign a one-off
+// ECDH handshake; every message is then encrypted under its own AES key from a
+// double ratchet (Signal's design): a hash chain steps once per message, and a
+// fresh DH exchange reseeds it whenever the conversation changes direction.
+// Used keys are forgotten, so neither a later leak of the long-term keys nor
+// of the current session state opens earlier messages.
+
+export type SessionCurve = "X25519" | "P-256";
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+function dhParams(curve: SessionCurve): EcKeyGenParams | Algorithm {
+  return curve === "X25519" ? { name: "X25519" } : { name: "ECDH", namedCurve: "P-256" };
+}
+
+let curveSupport: Promise<SessionCurve> | undefined;
+
+// X25519 where the browser has it, P-256 otherwise
+export function preferredCurve(): Promise<SessionCurve> {
+  curveSupport ??= crypto.subtle.generateKey({ name: "X25519" }, false, ["deriveBits"]).then(
+    (): SessionCurve => "X25519",
+    (): SessionCurve => "P-256",
+  );
+  return curveSupport;
+}
+
+// Extractable only so a session can be saved into the encrypted archive
+async function generateDh(curve: SessionCurve): Promise<CryptoKeyPair> {
+  return crypto.subtle.generateKey(dhParams(curve), true, ["deriveBits"]) as Promise<CryptoKeyPair>;
+}
+
+async function exportDh(key: CryptoKey): Promise<string> {
+  return arrayBufferToBase64(await crypto.subtle.exportKey("raw", key));
+}
+
+function importDh(curve: SessionCurve, raw: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey("raw", base64ToArrayBuffer(raw), dhParams(curve), true, []);
+}
+
+async function dh(curve: SessionCurve, privateKey: CryptoKey, publicKey: CryptoKey): Promise<Uint8Array> {
+  const name = curve === "X25519" ? "X25519" : "ECDH";
+  return new Uint8Array(await crypto.subtle.deriveBits({ name, public: publicKey }, privateKey, 256));
+}
+
+async function hkdf(ikm: Uint8Array, salt: Uint8Array, info: string, length: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey("raw", ikm, "HKDF", false, ["deriveBits"]);
+  return new Uint8Array(await crypto.subtle.deriveBits({ name: "HKDF", hash: "SHA-256", salt, info: encode(info) }, key, length * 8));
+}
+
+async function hmac(key: Uint8Array, input: number): Promise<Uint8Array> {
+  const hmacKey = await crypto.subtle.importKey("raw", key, { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+  return new Uint8Array(await crypto.subtle.sign("HMAC", hmacKey, new Uint8Array([input])));
+}
+
+// KDF_RK: a DH output stirred into the root key gives the next root key and a new chain key
+async function kdfRoot(rootKey: Uint8Array, dhOut: Uint8Array): Promise<[Uint8Array, Uint8Array]> {
+  const out = await hkdf(dhOut, rootKey, "ratchet root", 64);
+  return [out.slice(0, 32), out.slice(32)];
+}
+
+// KDF_CK: one step along a chain gives the next chain key and this message's key
+async function kdfChain(chainKey: Uint8Array): Promise<[Uint8Array, Uint8Array]> {
+  return [await hmac(chainKey, 2), await hmac(chainKey, 1)];
+}
+
+// What each side publishes, signed with its long-term key. The initiator also
+// announces its first ratchet key, so the responder can reply straight away.
+export interface HandshakeOffer {
+  agent: AgentName;
+  peer: AgentName;
+  curve: SessionCurve;
+  ephemeral: string; // raw public key, base64
+  ratchet?: string; // initiator only
+  signature: string;
+  alg: SignatureAlgorithm;
+}
+
+export interface Handshake {
+  offer: HandshakeOffer;
+  ephemeral: CryptoKeyPair;
+  ratchet?: CryptoKeyPair;
+}
+
+function offerContent(offer: HandshakeOffer): Uint8Array {
+  const { agent, peer, curve, ephemeral, ratchet } = offer;
+  return encode(JSON.stringify({ agent, peer, curve, ephemeral, ratchet }));
+}
+
+export async function createHandshake(opts: {
+  agent: AgentName;
+  peer: AgentName;
+  curve: SessionCurve;
+  initiator: boolean;
+  signKey: CryptoKey;
+  signatureAlgorithm: SignatureAlgorithm;
+}): Promise<Handshake> {
+  const { agent, peer, curve, initiator, signKey, signatureAlgorithm } = opts;
+  const ephemeral = await generateDh(curve);
+  const ratchet = initiator ? await generateDh(curve) : undefined;
+  const unsigned: HandshakeOffer = {
+    agent,
+    peer,
+    curve,
+    ephemeral: await exportDh(ephemeral.publicKey),
+    ratchet: ratchet && (await exportDh(ratchet.publicKey)),
+    signature: "",
+    alg: signatureAlgorithm,
+  };
+  const signature = await signWith(signatureAlgorithm, signKey, offerContent(unsigned));
+  return { offer: { ...unsigned, signature }, ephemeral, ratchet };
+}
+
+export interface RatchetHeader {
+  dh: string; // the sender's current ratchet public key
+  pn: number; // messages in the sender's previous sending chain
+  n: number; // this message's number in the current chain
+}
+
+// "dr1:" + base64 JSON; the header travels in the clear, authenticated as AES-GCM additional data
+const RATCHET_PREFIX = "dr1:";
+
+interface RatchetEnvelope {
+  header: RatchetHeader;
+  iv: string;
+  body: string;
+}
+
+export function isRatchetCiphertext(ciphertext: string): boolean {
+  return ciphertext.startsWith(RATCHET_PREFIX);
+}
+
+export function parseRatchetEnvelope(ciphertext: string): RatchetEnvelope {
+  if (!isRatchetCiphertext(ciphertext)) throw new Error("Not a ratchet envelope");
+  return JSON.parse(atob(ciphertext.slice(RATCHET_PREFIX.length))) as RatchetEnvelope;
+}
+
+// How far ahead a receiver derives keys for messages that haven't arrived yet
+const MAX_SKIP = 100;
+
+interface RatchetState {
+  dhSelf: CryptoKeyPair;
+  dhSelfPublic: string;
+  dhRemote: string | null;
+  rootKey: Uint8Array;
+  sendChain: Uint8Array | null;
+  recvChain: Uint8Array | null;
+  sent: number;
+  received: number;
+  previous: number;
+  skipped: Map<string, Uint8Array>; // message keys for skipped messages, by `${dh}:${n}`
+  dhSteps: number;
+}
+
+export interface Session {
+  self: AgentName;
+  peer: AgentName;
+  curve: SessionCurve;
+  encrypt: (plaintext: string) => Promise<string>;
+  // Throws on a replayed or forged message; the session state is left as it was
+  decrypt: (ciphertext: string) => Promise<string>;
+  status: () => string;
+  snapshot: () => Promise<SessionSnapshot>;
+}
+
+// The ratchet state as it can be stored: only keys still needed for messages
+// yet to come, never the ones already used
+export interface SessionSnapshot extends Omit<RatchetState, "dhSelf" | "skipped"> {
+  self: AgentName;
+  peer: AgentName;
+  curve: SessionCurve;
+  dhSelfPrivate: JsonWebKey;
+  skipped: [string, Uint8Array][];
+}
+
+async function aesKey(messageKey: Uint8Array, usage: KeyUsage): Promise<CryptoKey> {
+  return crypto.subtle.importKey("raw", messageKey, "AES-GCM", false, [usage]);
+}
+
+// Checks the peer's signed offer and derives the starting ratchet state. Both
+// sides reach the same state the responder would after the initiator's first
+// message, which is why the responder needs the initiator's ratchet key.
+export async function openSession(opts: {
+  own: Handshake;
+  theirs: HandshakeOffer;
+  peerVerifyKey: CryptoKey | undefined;
+}): Promise<Session> {
+  const { own, theirs, peerVerifyKey } = opts;
+  const { agent: self, peer, curve } = own.offer;
+  if (theirs.agent !== peer || theirs.peer !== self) {
+    throw new Error(`Handshake is from ${theirs.agent} to ${theirs.peer}, not ${peer} to ${self}`);
+  }
+  if (theirs.curve !== curve) throw new Error(`${peer} offered ${theirs.curve}, not ${curve}`);
+  if (!peerVerifyKey) throw new Error(`No verification key for ${peer}`);
+  const check = await verifyWith(theirs.alg, peerVerifyKey, offerContent(theirs), theirs.signature);
+  if (!check.valid) throw new Error(`${peer}'s handshake signature doesn't verify: ${check.reason}`);
+
+  const shared = await dh(curve, own.ephemeral.privateKey, await importDh(curve, theirs.ephemeral));
+  const secret = await hkdf(shared, new Uint8Array(32), "session secret", 32);
+  let state: RatchetState;
+  if (own.ratchet) {
+    // Initiator: a sending chain from our ratchet key and their ephemeral one
+    const [rootKey, sendChain] = await kdfRoot(secret, await dh(curve, own.ratchet.privateKey, await importDh(curve, theirs.ephemeral)));
+    state = {
+      dhSelf: own.ratchet, dhSelfPublic: own.offer.ratchet ?? "", dhRemote: theirs.ephemeral, rootKey, sendChain, recvChain: null,
+      sent: 0, received: 0, previous: 0, skipped: new Map(), dhSteps: 1,
+    };
+  } else {
+    // Responder: receive on the initiator's ratchet key, then step to a sending chain of our own
+    if (!theirs.ratchet) throw new Error(`${peer}'s handshake carries no ratchet key`);
+    const remote = await importDh(curve, theirs.ratchet);
+    const [root1, recvChain] = await kdfRoot(secret, await dh(curve, own.ephemeral.privateKey, remote));
+    const dhSelf = await generateDh(curve);
+    const [rootKey, sendChain] = await kdfRoot(root1, await dh(curve, dhSelf.privateKey, remote));
+    state = {
+      dhSelf, dhSelfPublic: await exportDh(dhSelf.publicKey), dhRemote: theirs.ratchet, rootKey, sendChain, recvChain,
+      sent: 0, received: 0, previous: 0, skipped: new Map(), dhSteps: 2,
+    };
+  }
+  return ratchetSession(self, peer, curve, state);
+}
+
+export async function restoreSession(snapshot: SessionSnapshot): Promise<Session> {
+  const { self, peer, curve, dhSelfPrivate, skipped, ...rest } = snapshot;
+  const dhSelf = {
+    privateKey: await crypto.subtle.importKey("jwk", dhSelfPrivate, dhParams(curve), true, ["deriveBits"]),
+    publicKey: await importDh(curve, rest.dhSelfPublic),
+  };
+  return ratchetSession(self, peer, curve, { ...rest, dhSelf, skipped: new Map(skipped) });
+}
+
+function ratchetSession(self: AgentName, peer: AgentName, curve: SessionCurve, initial: RatchetState): Session {
+  let state = initial;
+
+  // Derives and stores keys for messages up to `until` on the current receiving chain
+  const skipTo = async (s: RatchetState, until: number) => {
+    if (!s.recvChain) return;
+    if (until - s.received > MAX_SKIP) throw new Error(`More than ${MAX_SKIP} messages skipped`);
+    while (s.received < until) {
+      const [next, messageKey] = await kdfChain(s.recvChain);
+      s.skipped.set(`${s.dhRemote}:${s.received}`, messageKey);
+      s.recvChain = next;
+      s.received++;
+    }
+  };
+
+  return {
+    self,
+    peer,
+    curve,
+    encrypt: async (plaintext) => {
+      if (!state.sendChain) throw new Error("No sending chain");
+      const [next, messageKey] = await kdfChain(state.sendChain);
+      const header: RatchetHeader = { dh: state.dhSelfPublic, pn: state.previous, n: state.sent };
+      state = { ...state, sendChain: next, sent: state.sent + 1 };
+      const iv = crypto.getRandomValues(new Uint8Array(12));
+      const body = await crypto.subtle.encrypt(
+        { name: "AES-GCM", iv, additionalData: encode(JSON.stringify(header)) },
+        await aesKey(messageKey, "encrypt"),
+        encode(plaintext),
+      );
+      const envelope: RatchetEnvelope = { header, iv: arrayBufferToBase64(iv.buffer), body: arrayBufferToBase64(body) };
+      return RATCHET_PREFIX + btoa(JSON.stringify(envelope));
+    },
+    decrypt: async (ciphertext) => {
+      const { header, iv, body } = parseRatchetEnvelope(ciphertext);
+      const s: RatchetState = { ...state, skipped: new Map(state.skipped) };
+      const slot = `${header.dh}:${header.n}`;
+      let messageKey = s.skipped.get(slot);
+      if (messageKey) {
+        s.skipped.delete(slot);
+      } else {
+        if (header.dh !== s.dhRemote) {
+          // They have a new ratchet key: finish the old chain, then two DH steps
+          await skipTo(s, header.pn);
+          const remote = await importDh(curve, header.dh);
+          s.previous = s.sent;
+          s.sent = 0;
+          s.received = 0;
+          s.dhRemote = header.dh;
+          [s.rootKey, s.recvChain] = await kdfRoot(s.rootKey, await dh(curve, s.dhSelf.privateKey, remote));
+          s.dhSelf = await generateDh(curve);
+          s.dhSelfPublic = await exportDh(s.dhSelf.publicKey);
+          [s.rootKey, s.sendChain] = await kdfRoot(s.rootKey, await dh(curve, s.dhSelf.privateKey, remote));
+          s.dhSteps += 2;
+        }
+        if (header.n < s.received) throw new Error(`Message key ${header.n} was already used and deleted: a replay?`);
+        await skipTo(s, header.n);
+        if (!s.recvChain) throw new Error("No receiving chain");
+        [s.recvChain, messageKey] = await kdfChain(s.recvChain);
+        s.received++;
+      }
+      const plain = await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv: new Uint8Array(base64ToArrayBuffer(iv)), additionalData: encode(JSON.stringify(header)) },
+        await aesKey(messageKey, "decrypt"),
+        base64ToArrayBuffer(body),
+      );
+      state = s;
+      return new TextDecoder().decode(plain);
+    },
+    status: () =>
+      `${curve} handshake signed by both • ${state.dhSteps} DH ratchet steps • ${state.sent} sent on this chain • ${state.skipped.size} skipped keys held`,
+    snapshot: async () => {
+      const { dhSelf, skipped, ...rest } = state;
+      return { ...rest, self, peer, curve, dhSelfPrivate: await crypto.subtle.exportKey("jwk", dhSelf.privateKey), skipped: [...skipped] };
+    },
+  };
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import {
+  TEXTBOOK_EXAMPLE,
+  bigIntToText,
+  decrypt,
+  decryptCrt,
+  encrypt,
+  extendedEuclid,
+  generateTextbookKey,
+  isProbablePrime,
+  keyFromPrimes,
+  modInverse,
+  modPow,
+  modPowTrace,
+  sign,
+  textToBigInt,
+  verify,
+} from "./textbook";
+
+const { p, q, e, message } = TEXTBOOK_EXAMPLE;
+const key = keyFromPrimes(p, q, e);
+
+describe("the textbook example (p = 61, q = 53, e = 17)", () => {
+  it("derives n, φ(n), d and the CRT parameters", () => {
+    expect(key.n).toBe(3233n);
+    expect(key.phi).toBe(3120n);
+    expect(key.d).toBe(2753n);
+    expect(key.dp).toBe(53n);
+    expect(key.dq).toBe(49n);
+    expect(key.qInv).toBe(38n);
+  });
+
+  it("encrypts 65 to 2790 and decrypts it back", () => {
+    expect(encrypt(message, key)).toBe(2790n);
+    expect(decrypt(2790n, key)).toBe(65n);
+  });
+
+  it("decrypts with the CRT to the same message", () => {
+    expect(decryptCrt(2790n, key)).toEqual({ m: 65n, mp: 4n, mq: 12n, h: 1n });
+  });
+
+  it("signs 65 as 588, which verifies under (n, e) only for 65", () => {
+    const s = sign(message, key);
+    expect(s).toBe(588n);
+    expect(verify(message, s, key)).toBe(true);
+    expect(verify(message + 1n, s, key)).toBe(false);
+    expect(verify(message, s + 1n, key)).toBe(false);
+    expect(verify(message, s + key.n, key)).toBe(false);
+  });
+
+  it("rejects messages and ciphertexts outside [0, n)", () => {
+    expect(() => encrypt(key.n, key)).toThrow("between 0 and n - 1");
+    expect(() => decrypt(-1n, key)).toThrow("between 0 and n - 1");
+  });
+});
+
+describe("number theory", () => {
+  it("finds Bézout coefficients with the extended Euclidean algorithm", () => {
+    const { gcd, x, y } = extendedEuclid(240n, 46n);
+    expect(gcd).toBe(2n);
+    expect(240n * x + 46n * y).toBe(2n);
+    expect(modInverse(17n, 3120n)).toBe(2753n);
+    expect(() => modInverse(6n, 3120n)).toThrow("has no inverse");
+  });
+
+  it("traces square-and-multiply to the same result as modPow", () => {
+    const trace = modPowTrace(65n, 17n, 3233n);
+    expect(trace.map((s) => s.bit)).toEqual([1, 0, 0, 0, 1]);
+    expect(trace.at(-1)?.value).toBe(modPow(65n, 17n, 3233n));
+  });
+
+  it("tells primes from composites, including a Carmichael number", () => {
+    expect(isProbablePrime(61n)).toBe(true);
+    expect(isProbablePrime(2147483647n)).toBe(true);
+    expect(isProbablePrime(561n)).toBe(false);
+    expect(isProbablePrime(3233n)).toBe(false);
+  });
+
+  it("refuses an e that shares a factor with φ(n)", () => {
+    expect(() => keyFromPrimes(61n, 53n, 3n)).toThrow("shares a factor");
+    expect(() => keyFromPrimes(61n, 61n, 17n)).toThrow("different primes");
+  });
+});
+
+describe("generated keys", () => {
+  it("round-trip text through encryption and signatures", () => {
+    const generated = generateTextbookKey(256);
+    expect(generated.n.toString(2)).toHaveLength(256);
+    const m = textToBigInt("Meet at dawn");
+    expect(bigIntToText(decrypt(encrypt(m, generated), generated))).toBe("Meet at dawn");
+    expect(decryptCrt(encrypt(m, generated), generated).m).toBe(m);
+    expect(verify(m, sign(m, generated), generated)).toBe(true);
+  });
+});
@@ -0,0 +1,234 @@
+// Textbook RSA over BigInt, so the numbers Web Crypto hides can be shown.
+// There is no padding here: it is deterministic and malleable by design, and
+// only meant for the math walkthrough and the attack demos.
+
+export interface TextbookKey {
+  p: bigint;
+  q: bigint;
+  n: bigint;
+  phi: bigint; // φ(n) = (p - 1)(q - 1)
+  e: bigint;
+  d: bigint; // e⁻¹ mod φ(n)
+  dp: bigint; // d mod (p - 1), for CRT
+  dq: bigint; // d mod (q - 1)
+  qInv: bigint; // q⁻¹ mod p
+}
+
+// One line of the extended Euclidean table; every row satisfies remainder = a·x + b·y
+export interface EuclidRow {
+  quotient: bigint | null; // null on the two seed rows
+  remainder: bigint;
+  x: bigint;
+  y: bigint;
+}
+
+export interface EuclidResult {
+  gcd: bigint;
+  x: bigint;
+  y: bigint;
+  rows: EuclidRow[];
+}
+
+// One bit of left-to-right square-and-multiply
+export interface ModPowStep {
+  bit: 0 | 1;
+  value: bigint; // accumulator after squaring (and multiplying, for a 1 bit)
+}
+
+export interface CrtDecryption {
+  m: bigint;
+  mp: bigint; // c^dp mod p
+  mq: bigint; // c^dq mod q
+  h: bigint; // qInv·(mp - mq) mod p
+}
+
+// The worked example from most textbooks (and Wikipedia): n = 3233, d = 2753, 65 ↦ 2790
+export const TEXTBOOK_EXAMPLE = { p: 61n, q: 53n, e: 17n, message: 65n };
+
+const SMALL_PRIMES = [2n, 3n, 5n, 7n, 11n, 13n, 17n, 19n, 23n, 29n, 31n, 37n, 41n, 43n, 47n];
+
+// Non-negative remainder, unlike %
+export function mod(a: bigint, m: bigint): bigint {
+  const r = a % m;
+  return r < 0n ? r + m : r;
+}
+
+export function bitLength(n: bigint): number {
+  return n <= 0n ? 0 : n.toString(2).length;
+}
+
+export function gcd(a: bigint, b: bigint): bigint {
+  while (b !== 0n) [a, b] = [b, a % b];
+  return a < 0n ? -a : a;
+}
+
+export function extendedEuclid(a: bigint, b: bigint): EuclidResult {
+  const rows: EuclidRow[] = [
+    { quotient: null, remainder: a, x: 1n, y: 0n },
+    { quotient: null, remainder: b, x: 0n, y: 1n },
+  ];
+  let [oldR, r] = [a, b];
+  let [oldX, x] = [1n, 0n];
+  let [oldY, y] = [0n, 1n];
+  while (r !== 0n) {
+    const quotient = oldR / r;
+    [oldR, r] = [r, oldR - quotient * r];
+    [oldX, x] = [x, oldX - quotient * x];
+    [oldY, y] = [y, oldY - quotient * y];
+    rows.push({ quotient, remainder: r, x, y });
+  }
+  return { gcd: oldR, x: oldX, y: oldY, rows };
+}
+
+export function modInverse(a: bigint, m: bigint): bigint {
+  const { gcd: g, x } = extendedEuclid(mod(a, m), m);
+  if (g !== 1n) throw new Error(`${a} has no inverse mod ${m} (gcd is ${g})`);
+  return mod(x, m);
+}
+
+export function modPow(base: bigint, exp: bigint, m: bigint): bigint {
+  if (m === 1n) return 0n;
+  let result = 1n;
+  let b = mod(base, m);
+  for (let e = exp; e > 0n; e >>= 1n) {
+    if (e & 1n) result = (result * b) % m;
+    b = (b * b) % m;
+  }
+  return result;
+}
+
+// The same computation, one step per exponent bit from the top, for display
+export function modPowTrace(base: bigint, exp: bigint, m: bigint): ModPowStep[] {
+  const steps: ModPowStep[] = [];
+  const b = mod(base, m);
+  let value = 1n;
+  for (const bit of exp.toString(2)) {
+    value = (value * value) % m;
+    if (bit === "1") value = (value * b) % m;
+    steps.push({ bit: bit === "1" ? 1 : 0, value });
+  }
+  return steps;
+}
+
+export function randomBits(bits: number): bigint {
+  const bytes = crypto.getRandomValues(new Uint8Array(Math.ceil(bits / 8)));
+  let n = 0n;
+  for (const byte of bytes) n = (n << 8n) | BigInt(byte);
+  return n & ((1n << BigInt(bits)) - 1n);
+}
+
+// Uniform in [0, max), by rejection
+export function randomBelow(max: bigint): bigint {
+  const bits = bitLength(max);
+  for (;;) {
+    const n = randomBits(bits);
+    if (n < max) return n;
+  }
+}
+
+// Miller–Rabin; a composite survives each round with probability at most 1/4
+export function isProbablePrime(n: bigint, rounds = 32): boolean {
+  if (n < 2n) return false;
+  for (const p of SMALL_PRIMES) {
+    if (n === p) return true;
+    if (n % p === 0n) return false;
+  }
+  let d = n - 1n;
+  let s = 0;
+  while ((d & 1n) === 0n) {
+    d >>= 1n;
+    s++;
+  }
+  for (let i = 0; i < rounds; i++) {
+    const a = randomBelow(n - 3n) + 2n;
+    let x = modPow(a, d, n);
+    if (x === 1n || x === n - 1n) continue;
+    let witness = true;
+    for (let j = 1; j < s && witness; j++) {
+      x = (x * x) % n;
+      if (x === n - 1n) witness = false;
+    }
+    if (witness) return false;
+  }
+  return true;
+}
+
+// The top two bits are set so that the product of two such primes has exactly 2·bits bits
+export function generatePrime(bits: number): bigint {
+  if (bits < 4) throw new Error("Primes need at least 4 bits");
+  const top = 3n << BigInt(bits - 2);
+  for (;;) {
+    const candidate = randomBits(bits) | top | 1n;
+    if (isProbablePrime(candidate)) return candidate;
+  }
+}
+
+export function keyFromPrimes(p: bigint, q: bigint, e: bigint): TextbookKey {
+  if (!isProbablePrime(p)) throw new Error(`p = ${p} is not prime`);
+  if (!isProbablePrime(q)) throw new Error(`q = ${q} is not prime`);
+  if (p === q) throw new Error("p and q must be different primes");
+  const n = p * q;
+  const phi = (p - 1n) * (q - 1n);
+  if (e <= 1n || e >= phi) throw new Error(`e must be between 1 and φ(n) = ${phi}`);
+  if (gcd(e, phi) !== 1n) throw new Error(`e = ${e} shares a factor with φ(n) = ${phi}`);
+  const d = modInverse(e, phi);
+  return { p, q, n, phi, e, d, dp: d % (p - 1n), dq: d % (q - 1n), qInv: modInverse(q, p) };
+}
+
+export function generateTextbookKey(modulusBits: number, e = 65537n): TextbookKey {
+  if (modulusBits < bitLength(e) + 2) throw new Error(`A ${modulusBits}-bit modulus is too small for e = ${e}`);
+  const half = Math.ceil(modulusBits / 2);
+  for (;;) {
+    const p = generatePrime(half);
+    const q = generatePrime(modulusBits - half);
+    const phi = (p - 1n) * (q - 1n);
+    // e = 3 in particular often divides p - 1; just draw new primes
+    if (p !== q && e < phi && gcd(e, phi) === 1n) return keyFromPrimes(p, q, e);
+  }
+}
+
+function checkRange(x: bigint, key: TextbookKey, what: string): void {
+  if (x < 0n || x >= key.n) throw new Error(`${what} must be between 0 and n - 1 = ${key.n - 1n}`);
+}
+
+export function encrypt(m: bigint, key: TextbookKey): bigint {
+  checkRange(m, key, "The message");
+  return modPow(m, key.e, key.n);
+}
+
+export function decrypt(c: bigint, key: TextbookKey): bigint {
+  checkRange(c, key, "The ciphertext");
+  return modPow(c, key.d, key.n);
+}
+
+// Garner's recombination: two half-size exponentiations instead of one full one
+export function decryptCrt(c: bigint, key: TextbookKey): CrtDecryption {
+  checkRange(c, key, "The ciphertext");
+  const mp = modPow(c, key.dp, key.p);
+  const mq = modPow(c, key.dq, key.q);
+  const h = mod(key.qInv * (mp - mq), key.p);
+  return { m: mq + h * key.q, mp, mq, h };
+}
+
+// Textbook signatures sign the number itself, with no hash
+export function sign(m: bigint, key: TextbookKey): bigint {
+  checkRange(m, key, "The message");
+  return decryptCrt(m, key).m;
+}
+
+export function verify(m: bigint, s: bigint, key: Pick<TextbookKey, "n" | "e">): boolean {
+  return s >= 0n && s < key.n && modPow(s, key.e, key.n) === m;
+}
+
+// Big-endian UTF-8, the usual way to turn a short string into a number
+export function textToBigInt(text: string): bigint {
+  let n = 0n;
+  for (const byte of new TextEncoder().encode(text)) n = (n << 8n) | BigInt(byte);
+  return n;
+}
+
+export function bigIntToText(n: bigint): string {
+  const bytes: number[] = [];
+  for (let v = n; v > 0n; v >>= 8n) bytes.unshift(Number(v & 0xffn));
+  return new TextDecoder().decode(new Uint8Array(bytes));
+}
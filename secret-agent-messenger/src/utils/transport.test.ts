@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import { checkRelayUrl, createMemoryHub, joinWire, type PublishedKeys, type Transport, type WireSession } from "./transport";
+
+// The protocol never looks inside the keys, so each agent announces a stand-in
+const keysOf = (name: string): PublishedKeys => ({
+  encrypt: { kty: "RSA", n: name, e: "AQAB" },
+  encryptHash: "SHA-256",
+  sign: { kty: "RSA", n: name, e: "AQAB" },
+  signatureAlgorithm: { scheme: "RSA-PSS", saltLength: 32 },
+});
+
+interface Agent {
+  wire: Transport<string>;
+  session: WireSession;
+  hellos: string[];
+  byes: string[];
+  mail: { message: string; to: string }[];
+  errors: string[];
+  tap: boolean;
+}
+
+// An agent's tab on the hub, recording everything it hears
+function join(hub: ReturnType<typeof createMemoryHub<string>>, me: string): Agent {
+  const wire = hub.connect();
+  const agent = { wire, hellos: [], byes: [], mail: [], errors: [], tap: false } as unknown as Agent;
+  agent.session = joinWire<string>(wire, {
+    me,
+    keys: async () => keysOf(me),
+    tap: () => agent.tap,
+    onHello: (from, keys) => {
+      expect(keys).toEqual(keysOf(from));
+      agent.hellos.push(from);
+    },
+    onBye: (from) => agent.byes.push(from),
+    onMessage: (message, to) => agent.mail.push({ message, to }),
+    onError: (message) => agent.errors.push(message),
+  });
+  return agent;
+}
+
+// Lets every queued delivery, and the answers it prompts, go through
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("joinWire over the memory hub", () => {
+  it("answers each hello once, so everyone learns everyone's keys", async () => {
+    const hub = createMemoryHub<string>();
+    const alice = join(hub, "Alice");
+    await settle();
+    const bob = join(hub, "Bob");
+    await settle();
+    const eve = join(hub, "Eve");
+    await settle();
+
+    // Replies go to the whole wire, so older agents hear each other again
+    const heard = (agent: Agent) => [...new Set(agent.hellos)].sort();
+    expect(heard(alice)).toEqual(["Bob", "Eve"]);
+    expect(heard(bob)).toEqual(["Alice", "Eve"]);
+    expect(heard(eve)).toEqual(["Alice", "Bob"]);
+    // Eve's hello and the two replies to it; nobody answers a reply
+    expect(alice.hellos).toEqual(["Bob", "Eve", "Bob"]);
+    expect([...alice.errors, ...bob.errors, ...eve.errors]).toEqual([]);
+  });
+
+  it("delivers a message only to the agent it is addressed to", async () => {
+    const hub = createMemoryHub<string>();
+    const [alice, bob, eve] = ["Alice", "Bob", "Eve"].map((name) => join(hub, name));
+    await settle();
+
+    alice.wire.send({ type: "message", from: "Alice", to: "Bob", message: "meet at noon" });
+    await settle();
+    expect(bob.mail).toEqual([{ message: "meet at noon", to: "Bob" }]);
+    expect(eve.mail).toEqual([]);
+    expect(alice.mail).toEqual([]);
+  });
+
+  it("lets a tap keep other agents' mail", async () => {
+    const hub = createMemoryHub<string>();
+    const [alice, bob, eve] = ["Alice", "Bob", "Eve"].map((name) => join(hub, name));
+    eve.tap = true;
+    await settle();
+
+    alice.wire.send({ type: "message", from: "Alice", to: "Bob", message: "meet at noon" });
+    bob.wire.send({ type: "message", from: "Bob", to: "Eve", message: "hi Eve" });
+    await settle();
+    expect(eve.mail).toEqual([
+      { message: "meet at noon", to: "Bob" },
+      { message: "hi Eve", to: "Eve" },
+    ]);
+    expect(bob.mail).toEqual([{ message: "meet at noon", to: "Bob" }]);
+  });
+
+  it("says bye on leaving and hears nothing afterwards", async () => {
+    const hub = createMemoryHub<string>();
+    const [alice, bob] = ["Alice", "Bob"].map((name) => join(hub, name));
+    await settle();
+
+    alice.session.leave();
+    await settle();
+    expect(bob.byes).toEqual(["Alice"]);
+
+    bob.wire.send({ type: "message", from: "Bob", to: "Alice", message: "still there?" });
+    await settle();
+    expect(alice.mail).toEqual([]);
+  });
+
+  it("announces again on request", async () => {
+    const hub = createMemoryHub<string>();
+    const [alice, bob] = ["Alice", "Bob"].map((name) => join(hub, name));
+    await settle();
+    const before = bob.hellos.length;
+
+    await alice.session.announce();
+    await settle();
+    expect(bob.hellos.length).toBe(before + 1);
+    // A fresh hello is answered like the first one
+    expect(alice.hellos.at(-1)).toBe("Bob");
+  });
+});
+
+describe("checkRelayUrl", () => {
+  it("takes ws and wss addresses only", () => {
+    expect(checkRelayUrl("ws://localhost:8787")).toBeNull();
+    expect(checkRelayUrl("wss://relay.example")).toBeNull();
+    expect(checkRelayUrl("localhost:8787")).toMatch(/ws:\/\/ or wss:\/\//);
+    expect(checkRelayUrl("http://localhost:8787")).toMatch(/ws:\/\/ or wss:\/\//);
+    expect(checkRelayUrl("not a url")).toMatch(/^Not a URL/);
+  });
+});
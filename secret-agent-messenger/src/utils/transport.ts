@@ -0,0 +1,247 @@
+import { exportPublicKeyJwk, type AgentName } from "./rsa";
+import { rsaParamsOf, type RsaHash } from "@shared/crypto/keyparams";
+import { importVerifyKey, type SignatureAlgorithm } from "@shared/crypto/signature";
+
+// How messages travel when each agent runs in their own tab or window. A
+// transport only moves frames; everything in them is already encrypted and
+// signed, or public. Every connection sees every frame, like a shared wire:
+// receivers pick out what is addressed to them, and a tap keeps the rest.
+
+// How this tab reaches the others
+//  - local:     one tab plays every agent, as before; nothing leaves the page
+//  - broadcast: each agent in their own tab or window of this browser, over BroadcastChannel
+//  - relay:     each agent on any machine that reaches the WebSocket relay (npm run relay)
+export type LinkKind = "local" | "broadcast" | "relay";
+
+export const LINKS: Record<LinkKind, string> = {
+  local: "One tab plays everyone",
+  broadcast: "Agents in separate tabs (BroadcastChannel)",
+  relay: "Agents on any machine (WebSocket relay)",
+};
+
+export const DEFAULT_RELAY_PORT = 8787;
+
+// What's wrong with a relay address, or null when a WebSocket will take it
+export function checkRelayUrl(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return `Not a URL: write it as ws://host:${DEFAULT_RELAY_PORT}`;
+  }
+  if (parsed.protocol !== "ws:" && parsed.protocol !== "wss:") return "The relay address must start with ws:// or wss://";
+  return null;
+}
+
+// A remote agent as the handshake introduced them
+export interface Peer {
+  encrypt: CryptoKey;
+  sign: CryptoKey;
+  fingerprint: string; // short hex of the encryption key, to compare across tabs
+}
+
+// An agent's public keys as announced in the handshake
+export interface PublishedKeys {
+  encrypt: JsonWebKey;
+  encryptHash: RsaHash; // RSA-OAEP hash, which the JWK alone doesn't pin down for every key
+  sign: JsonWebKey;
+  signatureAlgorithm: SignatureAlgorithm;
+}
+
+//  - hello:   announces who is on the line and their public keys; `reply` answers one, so it isn't answered again
+//  - message: one sealed chat message for `to`
+//  - bye:     the agent's tab is going away
+export type Frame<M> =
+  | { type: "hello"; from: AgentName; keys: PublishedKeys; reply: boolean }
+  | { type: "message"; from: AgentName; to: AgentName; message: M }
+  | { type: "bye"; from: AgentName };
+
+export interface Transport<M> {
+  label: string;
+  send: (frame: Frame<M>) => void;
+  // Frames from every other connection; returns the unsubscribe
+  subscribe: (listener: (frame: Frame<M>) => void) => () => void;
+  close: () => void;
+}
+
+export async function publishKeys(encrypt: CryptoKey, sign: CryptoKey, signatureAlgorithm: SignatureAlgorithm): Promise<PublishedKeys> {
+  return {
+    encrypt: await exportPublicKeyJwk(encrypt),
+    encryptHash: rsaParamsOf(encrypt)?.hash ?? "SHA-256",
+    sign: await exportPublicKeyJwk(sign),
+    signatureAlgorithm,
+  };
+}
+
+export async function importPublishedKeys(keys: PublishedKeys): Promise<{ encrypt: CryptoKey; sign: CryptoKey }> {
+  const { kty, n, e } = keys.encrypt;
+  return {
+    encrypt: await crypto.subtle.importKey("jwk", { kty, n, e }, { name: "RSA-OAEP", hash: keys.encryptHash }, true, ["encrypt"]),
+    sign: await importVerifyKey(keys.sign, keys.signatureAlgorithm),
+  };
+}
+
+// What an agent's tab does with the frames it hears
+export interface WireHandlers<M> {
+  me: AgentName;
+  keys: () => Promise<PublishedKeys | null>; // what to announce right now; null while the keys are still loading
+  tap: () => boolean; // keep messages addressed to someone else too
+  onHello: (from: AgentName, keys: PublishedKeys) => void | Promise<void>;
+  onBye: (from: AgentName) => void;
+  onMessage: (message: M, to: AgentName) => void; // `to` is someone else's name when the tap kept it
+  onError: (message: string) => void;
+}
+
+export interface WireSession {
+  announce: () => Promise<void>; // a fresh hello, e.g. after a key change
+  leave: () => void; // says bye and stops listening; closing the transport is up to its owner
+}
+
+// The handshake and delivery protocol on top of any transport: announce
+// ourselves, answer every hello that isn't itself an answer, and keep the
+// messages for `me` (and, with the tap on, everyone else's)
+export function joinWire<M>(wire: Transport<M>, handlers: WireHandlers<M>): WireSession {
+  const { me } = handlers;
+  let closed = false;
+  const hello = async (reply: boolean) => {
+    const keys = await handlers.keys();
+    if (keys && !closed) wire.send({ type: "hello", from: me, keys, reply });
+  };
+  const receive = async (frame: Frame<M>) => {
+    if (closed || frame.from === me) return;
+    if (frame.type === "hello") {
+      await handlers.onHello(frame.from, frame.keys);
+      if (!frame.reply) await hello(true);
+    } else if (frame.type === "bye") {
+      handlers.onBye(frame.from);
+    } else if (frame.to === me || handlers.tap()) {
+      handlers.onMessage(frame.message, frame.to);
+    }
+  };
+  const unsubscribe = wire.subscribe((frame) => {
+    receive(frame).catch((err) => handlers.onError(`Bad frame from ${frame.from}: ${err instanceof Error ? err.message : String(err)}`));
+  });
+  const announce = () => hello(false);
+  announce().catch((err) => handlers.onError(err instanceof Error ? err.message : String(err)));
+  return {
+    announce,
+    leave: () => {
+      closed = true;
+      wire.send({ type: "bye", from: me });
+      unsubscribe();
+    },
+  };
+}
+
+function listenerSet<M>() {
+  const listeners = new Set<(frame: Frame<M>) => void>();
+  return {
+    emit: (frame: Frame<M>) => listeners.forEach((l) => l(frame)),
+    subscribe: (listener: (frame: Frame<M>) => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    clear: () => listeners.clear(),
+  };
+}
+
+// Same-origin tabs and windows of this browser. Structured clone carries the
+// frames, and a channel never hears its own posts.
+export function createBroadcastTransport<M>(channelName = "secret-agent-messenger"): Transport<M> {
+  if (typeof BroadcastChannel === "undefined") throw new Error("This browser has no BroadcastChannel");
+  const channel = new BroadcastChannel(channelName);
+  const { emit, subscribe, clear } = listenerSet<M>();
+  channel.onmessage = (e: MessageEvent<Frame<M>>) => emit(e.data);
+  return {
+    label: `BroadcastChannel "${channelName}"`,
+    send: (frame) => channel.postMessage(frame),
+    subscribe,
+    close: () => {
+      clear();
+      channel.close();
+    },
+  };
+}
+
+// Connections within one page, for exercising the protocol without a browser
+// around it. Frames are delivered asynchronously, as a real wire would.
+export function createMemoryHub<M>() {
+  const connections = new Set<(frame: Frame<M>) => void>();
+  return {
+    connect: (): Transport<M> => {
+      const { emit, subscribe, clear } = listenerSet<M>();
+      connections.add(emit);
+      return {
+        label: "In-memory hub",
+        send: (frame) => {
+          const copy = structuredClone(frame);
+          connections.forEach((deliver) => deliver !== emit && queueMicrotask(() => deliver(copy)));
+        },
+        subscribe,
+        close: () => {
+          connections.delete(emit);
+          clear();
+        },
+      };
+    },
+  };
+}
+
+// The relay's wire protocol; see relay/relay.mjs
+type RelayRequest = { type: "join"; id: AgentName } | { type: "send"; to: AgentName | "*"; payload: string };
+type RelayEvent = { type: "deliver"; from: AgentName; payload: string } | { type: "error"; message: string };
+
+// Through the WebSocket relay, which only sees who each envelope is for:
+// messages go to their recipient, hellos and byes to everyone. Unlike the
+// other transports the relay routes, so a tap there sees nothing extra, and
+// a malicious relay may drop, delay, replay or modify what passes through.
+export function createRelayTransport<M>(url: string, id: AgentName, onError: (message: string) => void): Transport<M> {
+  if (typeof WebSocket === "undefined") throw new Error("This browser has no WebSocket");
+  const socket = new WebSocket(url);
+  const { emit, subscribe, clear } = listenerSet<M>();
+  const queue: RelayRequest[] = [];
+  let closing = false;
+
+  const request = (req: RelayRequest) => {
+    if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(req));
+    else if (socket.readyState === WebSocket.CONNECTING) queue.push(req);
+  };
+
+  socket.onopen = () => {
+    socket.send(JSON.stringify({ type: "join", id } satisfies RelayRequest));
+    queue.splice(0).forEach((req) => socket.send(JSON.stringify(req)));
+  };
+  socket.onmessage = (e: MessageEvent<string>) => {
+    let event: RelayEvent;
+    let frame: Frame<M>;
+    try {
+      event = JSON.parse(e.data);
+      if (event.type === "error") {
+        onError(`Relay: ${event.message}`);
+        return;
+      }
+      frame = JSON.parse(event.payload);
+    } catch {
+      onError("Unreadable frame from the relay");
+      return;
+    }
+    emit(frame);
+  };
+  socket.onerror = () => onError(`Can't reach the relay at ${url}`);
+  socket.onclose = () => {
+    if (!closing) onError("The relay closed the connection");
+  };
+
+  return {
+    label: `WebSocket relay ${url}`,
+    send: (frame) => request({ type: "send", to: frame.type === "message" ? frame.to : "*", payload: JSON.stringify(frame) }),
+    subscribe,
+    close: () => {
+      closing = true;
+      clear();
+      socket.close();
+    },
+  };
+}
@@ -1,7 +1,17 @@
+import { fileURLToPath } from 'node:url'
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
+// Crypto modules and key components shared with the other apps
+const shared = fileURLToPath(new URL('../shared', import.meta.url))
+
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  resolve: {
+    alias: { '@shared': shared },
+    // ../shared has no node_modules of its own, so its imports resolve from this app
+    dedupe: ['react', 'react-dom', '@radix-ui/react-slot', 'class-variance-authority', 'tailwind-merge'],
+  },
+  server: { fs: { allow: ['.', shared] } },
 })
@@ -0,0 +1,104 @@
+import { useRef, useState } from "react";
+import { Button } from "./ui/button";
+import { downloadBlob } from "../lib/utils";
+import {
+  DEFAULT_PBKDF2_ITERATIONS,
+  KEYFILE_EXTENSION,
+  decryptPrivateKey,
+  encryptPrivateKey,
+  parseKeyFile,
+} from "../crypto/keyfile";
+
+interface KeyBackupProps {
+  filename: string;
+  privateKey?: CryptoKey;
+  onImportKey?: (pair: { publicKey: CryptoKey; privateKey: CryptoKey }) => void | Promise<void>;
+}
+
+export function KeyBackup({ filename, privateKey, onImportKey }: KeyBackupProps) {
+  const [passphrase, setPassphrase] = useState("");
+  const [iterations, setIterations] = useState(DEFAULT_PBKDF2_ITERATIONS);
+  const [status, setStatus] = useState<{ ok: boolean; text: string } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const fileRef = useRef<HTMLInputElement | null>(null);
+
+  const run = async (fn: () => Promise<string>) => {
+    setBusy(true);
+    setStatus(null);
+    try {
+      setStatus({ ok: true, text: await fn() });
+    } catch (err) {
+      setStatus({ ok: false, text: err instanceof Error ? err.message : String(err) });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const exportKey = () =>
+    run(async () => {
+      if (!privateKey) throw new Error("No private key loaded");
+      const file = await encryptPrivateKey(privateKey, passphrase, iterations);
+      downloadBlob(new Blob([JSON.stringify(file, null, 2)], { type: "application/json" }), filename + KEYFILE_EXTENSION);
+      return "Encrypted key downloaded";
+    });
+
+  const importKey = (file: File) =>
+    run(async () => {
+      const parsed = parseKeyFile(await file.text());
+      await onImportKey?.(await decryptPrivateKey(parsed, passphrase));
+      return "Key imported and set active";
+    });
+
+  return (
+    <div className="mt-3 rounded-md border border-slate-700 bg-slate-800/40 p-2 space-y-2">
+      <div className="text-xs opacity-80">Encrypted backup (PBKDF2-SHA-256 → AES-GCM wrapped PKCS#8)</div>
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder="Passphrase"
+          className="flex-1 rounded bg-slate-900/60 border border-slate-700 px-2 py-1"
+        />
+        <label className="flex items-center gap-1 opacity-80">
+          Iterations
+          <input
+            type="number"
+            min={10000}
+            step={10000}
+            value={iterations}
+            onChange={(e) => setIterations(Number(e.target.value))}
+            className="w-28 rounded bg-slate-900/60 border border-slate-700 px-2 py-1"
+          />
+        </label>
+      </div>
+      <div className="flex items-center gap-2">
+        {privateKey && (
+          <Button size="sm" variant="outline" disabled={busy || !passphrase} onClick={exportKey}>
+            Download Encrypted
+          </Button>
+        )}
+        {onImportKey && (
+          <>
+            <input
+              ref={fileRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const f = e.target.files?.[0];
+                if (f) importKey(f);
+                e.target.value = "";
+              }}
+            />
+            <Button size="sm" variant="outline" disabled={busy || !passphrase} onClick={() => fileRef.current?.click()}>
+              Import Encrypted
+            </Button>
+          </>
+        )}
+        {busy && <span className="text-xs opacity-70">Deriving key…</span>}
+      </div>
+      {status && <div className={status.ok ? "text-xs text-green-400" : "text-xs text-red-400"}>{status.text}</div>}
+    </div>
+  );
+}
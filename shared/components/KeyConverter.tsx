@@ -0,0 +1,67 @@
+import { useState } from "react";
+import { Button } from "./ui/button";
+import {
+  KEY_FORMAT_LABELS,
+  PRIVATE_KEY_FORMATS,
+  PUBLIC_KEY_FORMATS,
+  formatJwk,
+  isPrivateJwk,
+  parseKey,
+  type KeyFormat,
+} from "../crypto/keyformat";
+
+// Paste an RSA key in any supported format and convert it to another
+export function KeyConverter() {
+  const [input, setInput] = useState("");
+  const [target, setTarget] = useState<KeyFormat>("spki-pem");
+  const [detected, setDetected] = useState<{ format: KeyFormat; isPrivate: boolean } | null>(null);
+  const [output, setOutput] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const convert = async () => {
+    setError(null);
+    setOutput("");
+    setDetected(null);
+    try {
+      const { jwk, format } = await parseKey(input);
+      setDetected({ format, isPrivate: isPrivateJwk(jwk) });
+      setOutput(await formatJwk(jwk, target));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const targets = Array.from(new Set([...PUBLIC_KEY_FORMATS, ...PRIVATE_KEY_FORMATS]));
+
+  return (
+    <div className="mt-3 rounded-md border border-slate-700 bg-slate-800/40 p-2 space-y-2 text-xs">
+      <div className="opacity-80">Paste a key (JWK, SPKI/PKCS#8/PKCS#1 PEM or ssh-rsa)</div>
+      <textarea
+        value={input}
+        onChange={(e) => setInput(e.target.value)}
+        rows={4}
+        className="w-full rounded bg-slate-900/60 border border-slate-700 px-2 py-1 font-mono"
+      />
+      <div className="flex items-center gap-2">
+        <span className="opacity-80">Convert to</span>
+        <select
+          value={target}
+          onChange={(e) => setTarget(e.target.value as KeyFormat)}
+          className="rounded bg-slate-800/70 border border-slate-700 px-1 py-0.5"
+        >
+          {targets.map((f) => <option key={f} value={f}>{KEY_FORMAT_LABELS[f]}</option>)}
+        </select>
+        <Button size="sm" variant="outline" disabled={!input.trim()} onClick={convert}>Convert</Button>
+      </div>
+      {detected && (
+        <div className="opacity-70">
+          Detected {KEY_FORMAT_LABELS[detected.format]} ({detected.isPrivate ? "private" : "public"} key)
+        </div>
+      )}
+      {error && <div className="text-red-400">{error}</div>}
+      {output && (
+        <pre className="bg-slate-800/70 p-2 rounded border border-slate-700 overflow-auto">{output}</pre>
+      )}
+    </div>
+  );
+}
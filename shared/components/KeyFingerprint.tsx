@@ -0,0 +1,52 @@
+import { useEffect, useState } from "react";
+import { fingerprintKey, identicon, type KeyFingerprints, type PublicKeyLike } from "../crypto/fingerprint";
+
+function useKeyFingerprints(publicKey: PublicKeyLike | undefined): KeyFingerprints | null {
+  const [state, setState] = useState<{ of: PublicKeyLike; prints: KeyFingerprints | null } | null>(null);
+  useEffect(() => {
+    if (!publicKey) return;
+    let cancelled = false;
+    fingerprintKey(publicKey)
+      .catch(() => null)
+      .then((prints) => !cancelled && setState({ of: publicKey, prints }));
+    return () => {
+      cancelled = true;
+    };
+  }, [publicKey]);
+  return state && state.of === publicKey ? state.prints : null;
+}
+
+export function Identicon({ bytes, size = 32 }: { bytes: Uint8Array; size?: number }) {
+  const { color, cells } = identicon(bytes);
+  return (
+    <svg width={size} height={size} viewBox="0 0 5 5" className="rounded bg-slate-800 shrink-0" shapeRendering="crispEdges">
+      {cells.flatMap((row, y) => row.map((on, x) => on && <rect key={`${x}-${y}`} x={x} y={y} width={1} height={1} fill={color} />))}
+    </svg>
+  );
+}
+
+// Identicon plus the short forms; `full` adds the whole digest and the RFC 7638 thumbprint
+export function KeyFingerprint({ publicKey, full = false, size = 32 }: {
+  publicKey?: PublicKeyLike;
+  full?: boolean;
+  size?: number;
+}) {
+  const prints = useKeyFingerprints(publicKey);
+  if (!publicKey) return null;
+  if (!prints) return <div className="text-xs opacity-60">Fingerprinting…</div>;
+  return (
+    <div className="flex items-start gap-2 text-xs">
+      <Identicon bytes={prints.bytes} size={size} />
+      <div className="min-w-0">
+        <div className="font-mono" title="SHA-256 JWK thumbprint, first 64 bits">{prints.shortHex}</div>
+        <div className="font-mono opacity-70" title="First 80 bits in base32">{prints.shortBase32}</div>
+        {full && (
+          <>
+            <div className="font-mono opacity-70 break-all">SHA-256: {prints.hex}</div>
+            <div className="font-mono opacity-70 break-all">RFC 7638 thumbprint: {prints.thumbprint}</div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
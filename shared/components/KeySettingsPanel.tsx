@@ -0,0 +1,116 @@
+import { useState } from "react";
+import { Button } from "./ui/button";
+import {
+  MODULUS_LENGTHS,
+  PUBLIC_EXPONENTS,
+  RSA_HASHES,
+  describeRsaParams,
+  isWeakHash,
+  isWeakModulus,
+  oaepMaxPlaintext,
+  timed,
+  type RsaHash,
+  type RsaKeyParams,
+  type RsaModulusLength,
+} from "../crypto/keyparams";
+
+const AES_KEY_BYTES = 32; // hybrid encryption wraps a raw AES-256 key with RSA-OAEP
+
+interface KeySettingsPanelProps {
+  value: RsaKeyParams;
+  onChange: (params: RsaKeyParams) => void;
+  onRegenerate: () => Promise<void>;
+  current?: RsaKeyParams | null; // parameters of the active encryption key
+  disabled?: boolean;
+}
+
+export function KeySettingsPanel({ value, onChange, onRegenerate, current, disabled }: KeySettingsPanelProps) {
+  const [busy, setBusy] = useState(false);
+  const [lastMs, setLastMs] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const maxPlaintext = oaepMaxPlaintext(value.modulusLength, value.hash);
+  const cannotWrap = maxPlaintext < AES_KEY_BYTES;
+
+  const regenerate = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const { ms } = await timed(onRegenerate);
+      setLastMs(ms);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const selectClass = "rounded bg-slate-800/70 border border-slate-700 px-1 py-0.5";
+
+  return (
+    <div className="rounded-xl border border-slate-700 bg-slate-900/60 p-4 text-slate-100 space-y-2 text-sm">
+      <div className="font-semibold">RSA Key Settings</div>
+      <div className="flex flex-wrap items-center gap-3 text-xs">
+        <label className="flex items-center gap-1">
+          <span className="opacity-80">Modulus</span>
+          <select
+            value={value.modulusLength}
+            disabled={disabled || busy}
+            onChange={(e) => onChange({ ...value, modulusLength: Number(e.target.value) as RsaModulusLength })}
+            className={selectClass}
+          >
+            {MODULUS_LENGTHS.map((m) => (
+              <option key={m} value={m}>{m}-bit{isWeakModulus(m) ? " (weak)" : ""}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-1">
+          <span className="opacity-80">Hash</span>
+          <select
+            value={value.hash}
+            disabled={disabled || busy}
+            onChange={(e) => onChange({ ...value, hash: e.target.value as RsaHash })}
+            className={selectClass}
+          >
+            {RSA_HASHES.map((h) => (
+              <option key={h} value={h}>{h}{isWeakHash(h) ? " (weak)" : ""}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-1">
+          <span className="opacity-80">Exponent e</span>
+          <select
+            value={value.publicExponent}
+            disabled={disabled || busy}
+            onChange={(e) => onChange({ ...value, publicExponent: Number(e.target.value) })}
+            className={selectClass}
+          >
+            {PUBLIC_EXPONENTS.map((e) => <option key={e} value={e}>{e}</option>)}
+          </select>
+        </label>
+        <Button size="sm" disabled={disabled || busy || cannotWrap} onClick={regenerate}>
+          {busy ? "Generating…" : "Regenerate keys"}
+        </Button>
+      </div>
+      <div className="text-xs opacity-80">
+        RSA-OAEP can encrypt at most {Math.max(0, maxPlaintext)} bytes per block with these settings.
+      </div>
+      {isWeakModulus(value.modulusLength) && (
+        <div className="text-xs text-yellow-400">⚠️ {value.modulusLength}-bit keys are within reach of well-funded attackers; use 2048 or more.</div>
+      )}
+      {isWeakHash(value.hash) && (
+        <div className="text-xs text-yellow-400">⚠️ SHA-1 has practical collisions; signatures over it can be forged.</div>
+      )}
+      {value.publicExponent === 3 && (
+        <div className="text-xs text-yellow-400">⚠️ e = 3 is only safe with proper padding; textbook RSA with it leaks small messages.</div>
+      )}
+      {cannotWrap && (
+        <div className="text-xs text-red-400">
+          {value.modulusLength}-bit RSA-OAEP with {value.hash} can't wrap a {AES_KEY_BYTES}-byte AES key; pick a larger modulus or a shorter hash.
+        </div>
+      )}
+      {current && <div className="text-xs opacity-70">Active encryption key: {describeRsaParams(current)}</div>}
+      {lastMs !== null && <div className="text-xs opacity-70">Last regeneration took {lastMs} ms</div>}
+      {error && <div className="text-xs text-red-400">{error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import { useEffect, useState } from "react";
+import {
+  KEY_FORMAT_LABELS,
+  PRIVATE_KEY_FORMATS,
+  PUBLIC_KEY_FORMATS,
+  formatJwk,
+  type KeyFormat,
+} from "../crypto/keyformat";
+import { Button } from "./ui/button";
+import { KeyBackup } from "./KeyBackup";
+import { KeyConverter } from "./KeyConverter";
+import { KeyFingerprint } from "./KeyFingerprint";
+
+function prettyPrintJwk(jwk: JsonWebKey): string {
+  return JSON.stringify(jwk, Object.keys(jwk).sort(), 2);
+}
+
+interface KeyViewerProps {
+  title: string;
+  publicJwk?: JsonWebKey;
+  privateJwk?: JsonWebKey;
+  publicOnly?: boolean; // a key shared with others: no private half to show or back up
+  privateKey?: CryptoKey;
+  backupName?: string;
+  onImportKey?: (pair: { publicKey: CryptoKey; privateKey: CryptoKey }) => void | Promise<void>;
+}
+
+function useFormattedKey(jwk: JsonWebKey | undefined, format: KeyFormat): string | undefined {
+  const [text, setText] = useState<string | undefined>(undefined);
+  useEffect(() => {
+    if (!jwk) return;
+    let cancelled = false;
+    formatJwk(jwk, format)
+      .catch((err: Error) => `Cannot show as ${KEY_FORMAT_LABELS[format]}: ${err.message}`)
+      .then((t) => !cancelled && setText(t));
+    return () => {
+      cancelled = true;
+    };
+  }, [jwk, format]);
+  return jwk ? text : undefined;
+}
+
+function FormatSelect({ value, options, onChange }: { value: KeyFormat; options: KeyFormat[]; onChange: (f: KeyFormat) => void }) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as KeyFormat)}
+      className="text-xs rounded bg-slate-800/70 border border-slate-700 px-1 py-0.5"
+    >
+      {options.map((f) => <option key={f} value={f}>{KEY_FORMAT_LABELS[f]}</option>)}
+    </select>
+  );
+}
+
+export function KeyViewer({ title, publicJwk, privateJwk, publicOnly, privateKey, backupName, onImportKey }: KeyViewerProps) {
+  const [showPrivate, setShowPrivate] = useState(false);
+  const [showConverter, setShowConverter] = useState(false);
+  const [copied, setCopied] = useState<string | null>(null);
+  const [pubFormat, setPubFormat] = useState<KeyFormat>("jwk");
+  const [privFormat, setPrivFormat] = useState<KeyFormat>("jwk");
+  const publicText = useFormattedKey(publicJwk, pubFormat) ?? (publicJwk && prettyPrintJwk(publicJwk));
+  const privateText = useFormattedKey(privateJwk, privFormat) ?? (privateJwk && prettyPrintJwk(privateJwk));
+
+  useEffect(() => {
+    if (!copied) return;
+    const t = setTimeout(() => setCopied(null), 1200);
+    return () => clearTimeout(t);
+  }, [copied]);
+
+  const copy = async (text: string, which: string) => {
+    await navigator.clipboard.writeText(text);
+    setCopied(which);
+  };
+
+  return (
+    <div className="rounded-xl border border-slate-700 bg-slate-900/60 p-4 text-slate-100">
+      <div className="mb-2 flex items-center justify-between">
+        <div className="font-semibold">{title}</div>
+        <div className="flex items-center gap-2">
+          <Button size="sm" variant="ghost" onClick={() => setShowConverter((s) => !s)}>
+            {showConverter ? "Hide Converter" : "Paste Key"}
+          </Button>
+          {!publicOnly && (
+            <Button size="sm" variant="outline" onClick={() => setShowPrivate((s) => !s)}>
+              {showPrivate ? "Hide Private" : "Show Private"}
+            </Button>
+          )}
+        </div>
+      </div>
+      {publicJwk && (
+        <div className="mb-3">
+          <div className="text-xs mb-1 opacity-80 flex items-center gap-2">
+            Public Key <FormatSelect value={pubFormat} options={PUBLIC_KEY_FORMATS} onChange={setPubFormat} />
+          </div>
+          <pre className="text-xs bg-slate-800/70 p-2 rounded border border-slate-700 overflow-auto">
+{publicText}
+          </pre>
+          <Button size="sm" variant="ghost" onClick={() => copy(publicText ?? "", "pub")}>
+            {copied === "pub" ? "Copied" : "Copy Public"}
+          </Button>
+          <div className="mt-2">
+            <KeyFingerprint publicKey={publicJwk} full />
+          </div>
+        </div>
+      )}
+      {showPrivate && privateJwk && (
+        <div>
+          <div className="text-xs mb-1 opacity-80 flex items-center gap-2">
+            Private Key <FormatSelect value={privFormat} options={PRIVATE_KEY_FORMATS} onChange={setPrivFormat} />
+          </div>
+          <pre className="text-xs bg-slate-800/70 p-2 rounded border border-slate-700 overflow-auto">
+{privateText}
+          </pre>
+          <Button size="sm" variant="ghost" onClick={() => copy(privateText ?? "", "priv")}>
+            {copied === "priv" ? "Copied" : "Copy Private"}
+          </Button>
+        </div>
+      )}
+      {showPrivate && privateKey && !privateKey.extractable && (
+        <div className="text-xs opacity-70">Private key is non-extractable and cannot be displayed or exported.</div>
+      )}
+      {showPrivate && (privateKey || onImportKey) && (
+        <KeyBackup filename={backupName ?? "private-key"} privateKey={privateKey} onImportKey={onImportKey} />
+      )}
+      {showConverter && <KeyConverter />}
+    </div>
+  );
+}
+
@@ -0,0 +1,122 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "./ui/button";
+import { generateEncryptionKeyPair } from "../crypto/oaep";
+import { SCHEME_LABELS, generateSignatureKeyPair, schemeOfKey, type SignatureScheme } from "../crypto/signature";
+import { DEFAULT_RSA_PARAMS, describeRsaParams, rsaParamsOf, type RsaKeyParams } from "../crypto/keyparams";
+import type { KeyPurpose, Keyring, KeyringEntry } from "../crypto/keyring";
+
+interface KeyringPanelProps {
+  keyring: Keyring;
+  owners: string[];
+  onChange?: () => void;
+  signatureScheme?: SignatureScheme; // used for new signing keys
+  rsaParams?: RsaKeyParams; // used for new RSA keys
+}
+
+function keyAlgorithmLabel(k: KeyringEntry): string {
+  const scheme = schemeOfKey(k.publicKey);
+  const name = k.purpose === "encrypt" ? "RSA-OAEP" : scheme ? SCHEME_LABELS[scheme] : k.publicKey.algorithm.name;
+  const params = rsaParamsOf(k.publicKey);
+  return params ? `${name} (${describeRsaParams(params)})` : name;
+}
+
+export function KeyringPanel({
+  keyring,
+  owners,
+  onChange,
+  signatureScheme = "RSASSA-PKCS1-v1_5",
+  rsaParams = DEFAULT_RSA_PARAMS,
+}: KeyringPanelProps) {
+  const [entries, setEntries] = useState<KeyringEntry[]>([]);
+  const [active, setActive] = useState<Record<string, string | undefined>>({});
+  const [owner, setOwner] = useState(owners[0]);
+  const [nonExtractable, setNonExtractable] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const { addKeyPair, deleteKey, getActiveKeyId, listKeys, renameKey, setActiveKey } = keyring;
+
+  const refresh = useCallback(async () => {
+    const all = await listKeys();
+    const ids: Record<string, string | undefined> = {};
+    for (const o of owners) {
+      for (const p of ["encrypt", "sign"] as KeyPurpose[]) ids[`${o}:${p}`] = await getActiveKeyId(o, p);
+    }
+    setEntries(all);
+    setActive(ids);
+  }, [owners, listKeys, getActiveKeyId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const mutate = async (fn: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await fn();
+      await refresh();
+      onChange?.();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const generate = (purpose: KeyPurpose) =>
+    mutate(async () => {
+      const pair = purpose === "encrypt"
+        ? await generateEncryptionKeyPair(!nonExtractable, rsaParams)
+        : await generateSignatureKeyPair(signatureScheme, !nonExtractable, rsaParams);
+      const entry = await addKeyPair(pair, { owner, purpose });
+      await setActiveKey(owner, purpose, entry.id);
+    });
+
+  return (
+    <div className="rounded-xl border border-slate-700 bg-slate-900/60 p-4 text-slate-100 space-y-3">
+      <div className="font-semibold">Keyring</div>
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <select
+          value={owner}
+          onChange={(e) => setOwner(e.target.value)}
+          className="rounded-md bg-slate-800/70 border border-slate-700 px-2 py-1"
+        >
+          {owners.map((o) => <option key={o} value={o}>{o}</option>)}
+        </select>
+        <Button size="sm" disabled={busy} onClick={() => generate("encrypt")}>New encryption key</Button>
+        <Button size="sm" disabled={busy} onClick={() => generate("sign")}>New signing key</Button>
+        <label className="text-xs opacity-80 flex items-center gap-1">
+          <input type="checkbox" checked={nonExtractable} onChange={(e) => setNonExtractable(e.target.checked)} />
+          Non-extractable private key
+        </label>
+      </div>
+      <div className="space-y-2 max-h-72 overflow-y-auto">
+        {entries.map((k) => {
+          const isActive = active[`${k.owner}:${k.purpose}`] === k.id;
+          return (
+            <div key={k.id} className="rounded-md border border-slate-700 bg-slate-800/50 p-2 text-xs space-y-1">
+              <div className="flex items-center gap-2">
+                <input
+                  defaultValue={k.label}
+                  onBlur={(e) => e.target.value !== k.label && mutate(() => renameKey(k.id, e.target.value))}
+                  className="flex-1 rounded bg-slate-900/60 border border-slate-700 px-2 py-1"
+                />
+                {isActive ? (
+                  <span className="text-green-400">Active</span>
+                ) : (
+                  <Button size="sm" variant="outline" disabled={busy} onClick={() => mutate(() => setActiveKey(k.owner, k.purpose, k.id))}>
+                    Use
+                  </Button>
+                )}
+                <Button size="sm" variant="destructive" disabled={busy} onClick={() => mutate(() => deleteKey(k.id))}>
+                  Delete
+                </Button>
+              </div>
+              <div className="opacity-70">
+                {k.owner} • {keyAlgorithmLabel(k)} • {new Date(k.createdAt).toLocaleString()}
+                {!k.extractable && " • non-extractable"}
+              </div>
+            </div>
+          );
+        })}
+        {entries.length === 0 && <div className="text-xs opacity-70">No stored keys yet.</div>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { useEffect, useState } from "react";
+import {
+  DEFAULT_PSS_SALT_LENGTH,
+  SCHEME_LABELS,
+  SIGNATURE_SCHEMES,
+  isSchemeSupported,
+  type SignatureAlgorithm,
+  type SignatureScheme,
+} from "../crypto/signature";
+
+interface SignatureSchemeSelectProps {
+  value: SignatureAlgorithm;
+  onChange: (alg: SignatureAlgorithm) => void;
+  disabled?: boolean;
+}
+
+export function SignatureSchemeSelect({ value, onChange, disabled }: SignatureSchemeSelectProps) {
+  const [supported, setSupported] = useState<Partial<Record<SignatureScheme, boolean>>>({});
+
+  useEffect(() => {
+    SIGNATURE_SCHEMES.forEach((s) => {
+      isSchemeSupported(s).then((ok) => setSupported((prev) => ({ ...prev, [s]: ok })));
+    });
+  }, []);
+
+  return (
+    <div className="flex items-center gap-2 text-xs">
+      <span className="opacity-80">Signature</span>
+      <select
+        value={value.scheme}
+        disabled={disabled}
+        onChange={(e) => {
+          const scheme = e.target.value as SignatureScheme;
+          onChange(scheme === "RSA-PSS" ? { scheme, saltLength: DEFAULT_PSS_SALT_LENGTH } : { scheme });
+        }}
+        className="rounded bg-slate-800/70 border border-slate-700 px-1 py-0.5"
+      >
+        {SIGNATURE_SCHEMES.map((s) => (
+          <option key={s} value={s} disabled={supported[s] === false}>
+            {SCHEME_LABELS[s]}{supported[s] === false ? " (unsupported)" : ""}
+          </option>
+        ))}
+      </select>
+      {value.scheme === "RSA-PSS" && (
+        <label className="flex items-center gap-1">
+          <span className="opacity-80">salt</span>
+          <input
+            type="number"
+            min={0}
+            max={222}
+            value={value.saltLength ?? DEFAULT_PSS_SALT_LENGTH}
+            disabled={disabled}
+            onChange={(e) => onChange({ scheme: "RSA-PSS", saltLength: Math.max(0, Number(e.target.value) || 0) })}
+            className="w-14 rounded bg-slate-800/70 border border-slate-700 px-1 py-0.5"
+          />
+        </label>
+      )}
+    </div>
+  );
+}
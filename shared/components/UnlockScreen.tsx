@@ -0,0 +1,153 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "./ui/button";
+import { createArchiveKey, unlockArchive, type ArchiveFile, type ArchiveKey, type ArchiveStore } from "../crypto/archive";
+
+interface UnlockScreenProps<T> {
+  title: string;
+  store: ArchiveStore;
+  contents: string; // what the archive holds, e.g. "Conversations", shown when starting a new one
+  // `contents` is null when a new archive was started
+  onUnlock: (archiveKey: ArchiveKey, contents: T | null) => void | Promise<void>;
+  onCancel?: () => void; // a way back, when the app asked for this archive instead of another
+  cancelLabel?: string;
+}
+
+// Stands in front of the app until the archive is unlocked, or a new one is
+// started on a first visit. An imported archive replaces the stored one once
+// its passphrase opens it.
+export function UnlockScreen<T>({ title, store, contents, onUnlock, onCancel, cancelLabel = "Back" }: UnlockScreenProps<T>) {
+  const [stored, setStored] = useState<ArchiveFile | null | undefined>(undefined);
+  const [imported, setImported] = useState<ArchiveFile | null>(null);
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [forgetting, setForgetting] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement | null>(null);
+  const { deleteArchive, loadArchive, parseArchive, saveArchive } = store;
+
+  useEffect(() => {
+    loadArchive().then((file) => setStored(file ?? null), (err) => {
+      setStored(null);
+      setError(err instanceof Error ? err.message : String(err));
+    });
+  }, [loadArchive]);
+
+  const archive = imported ?? stored;
+
+  const run = async (fn: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await fn();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const unlock = () =>
+    run(async () => {
+      if (!archive) return;
+      const { archiveKey, contents } = await unlockArchive<T>(archive, passphrase);
+      if (imported) await saveArchive(imported);
+      await onUnlock(archiveKey, contents);
+    });
+
+  const create = () =>
+    run(async () => {
+      if (passphrase !== confirmation) throw new Error("The passphrases don't match");
+      await onUnlock(await createArchiveKey(passphrase), null);
+    });
+
+  const importFile = (file: File) =>
+    run(async () => {
+      setImported(parseArchive(await file.text()));
+      setPassphrase("");
+    });
+
+  const forget = () =>
+    run(async () => {
+      await deleteArchive();
+      setStored(null);
+      setImported(null);
+      setForgetting(false);
+      setPassphrase("");
+    });
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 to-black text-slate-100 flex items-center justify-center p-6">
+      <div className="w-full max-w-md rounded-2xl border border-slate-700 bg-slate-900/60 p-6 space-y-4">
+        <div className="text-xl font-semibold">🔐 {title}</div>
+        {stored === undefined ? (
+          <div className="text-sm opacity-70">Looking for a saved archive…</div>
+        ) : (
+          <>
+            <div className="text-sm opacity-80">
+              {archive
+                ? `${imported ? "Imported archive" : "Saved history"} from ${new Date(archive.savedAt).toLocaleString()}. Enter its passphrase to decrypt it.`
+                : `Choose a passphrase. ${contents} are saved in this browser encrypted under a key derived from it (PBKDF2-SHA-256 → AES-256-GCM).`}
+            </div>
+            <input
+              type="password"
+              autoFocus
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && archive && passphrase && unlock()}
+              placeholder="Passphrase"
+              className="w-full rounded-md bg-slate-800/70 border border-slate-700 px-3 py-2"
+            />
+            {!archive && (
+              <input
+                type="password"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+                placeholder="Passphrase again"
+                className="w-full rounded-md bg-slate-800/70 border border-slate-700 px-3 py-2"
+              />
+            )}
+            <div className="flex flex-wrap items-center gap-2">
+              {archive ? (
+                <Button disabled={busy || !passphrase} onClick={unlock}>Unlock</Button>
+              ) : (
+                <Button disabled={busy || !passphrase || !confirmation} onClick={create}>Start Encrypted History</Button>
+              )}
+              <input
+                ref={fileRef}
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={(e) => {
+                  const f = e.target.files?.[0];
+                  if (f) importFile(f);
+                  e.target.value = "";
+                }}
+              />
+              <Button variant="outline" disabled={busy} onClick={() => fileRef.current?.click()}>Import Archive</Button>
+              {imported && <Button variant="ghost" disabled={busy} onClick={() => setImported(null)}>Cancel Import</Button>}
+              {onCancel && <Button variant="ghost" disabled={busy} onClick={onCancel}>{cancelLabel}</Button>}
+              {busy && <span className="text-xs opacity-70">Deriving key…</span>}
+            </div>
+            {stored && !imported && (
+              <div className="text-xs">
+                {forgetting ? (
+                  <div className="flex items-center gap-2 text-red-300">
+                    Delete the saved history for good?
+                    <Button size="sm" variant="destructive" disabled={busy} onClick={forget}>Delete</Button>
+                    <Button size="sm" variant="ghost" onClick={() => setForgetting(false)}>Keep</Button>
+                  </div>
+                ) : (
+                  <button className="opacity-60 hover:opacity-100 underline" onClick={() => setForgetting(true)}>
+                    Forgot the passphrase? Start over
+                  </button>
+                )}
+              </div>
+            )}
+          </>
+        )}
+        {error && <div className="text-xs text-red-400">{error}</div>}
+      </div>
+    </div>
+  );
+}
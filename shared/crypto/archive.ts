@@ -0,0 +1,236 @@
+import { arrayBufferToBase64, base64ToArrayBuffer } from "./base64";
+import { DEFAULT_PBKDF2_ITERATIONS } from "./keyfile";
+
+// Encrypted local history: an app's state as one AES-256-GCM blob under a key
+// derived from the user's passphrase (PBKDF2, as for key files). It is kept in
+// IndexedDB next to the keyring, and the same JSON is what export and import
+// move around, so an exported archive is never in the clear. Each app creates
+// its own archive store, with its own format name and database. File-sized
+// values can be kept out of the archive in their own records (see saveBlob),
+// sealed under the same key, so a small change doesn't re-encrypt them all.
+export const ARCHIVE_VERSION = 1;
+export const ARCHIVE_EXTENSION = ".archive.json";
+
+export interface ArchiveFile {
+  format: string; // the app's ArchiveStoreOptions.format
+  version: typeof ARCHIVE_VERSION;
+  kdf: { name: "PBKDF2"; hash: "SHA-256"; iterations: number; salt: string };
+  cipher: { name: "AES-GCM"; iv: string };
+  check: string; // SHA-256 of the second half of the derived bits, to tell a wrong passphrase from corruption
+  savedAt: number;
+  data: string; // base64 ciphertext of the JSON contents
+}
+
+// The unlocked archive key, held for the rest of the visit so saving doesn't re-run PBKDF2
+export interface ArchiveKey {
+  key: CryptoKey;
+  kdf: ArchiveFile["kdf"];
+  check: string;
+}
+
+async function deriveArchiveKey(passphrase: string, kdf: ArchiveFile["kdf"]): Promise<ArchiveKey> {
+  const base = await crypto.subtle.importKey("raw", new TextEncoder().encode(passphrase), "PBKDF2", false, ["deriveBits"]);
+  const bits = new Uint8Array(
+    await crypto.subtle.deriveBits(
+      { name: "PBKDF2", hash: "SHA-256", salt: base64ToArrayBuffer(kdf.salt), iterations: kdf.iterations },
+      base,
+      512,
+    ),
+  );
+  const key = await crypto.subtle.importKey("raw", bits.slice(0, 32), "AES-GCM", false, ["encrypt", "decrypt"]);
+  const check = arrayBufferToBase64(await crypto.subtle.digest("SHA-256", bits.slice(32)));
+  return { key, kdf, check };
+}
+
+// A new archive key with a fresh salt, for a first visit or a passphrase change
+export async function createArchiveKey(passphrase: string, iterations = DEFAULT_PBKDF2_ITERATIONS): Promise<ArchiveKey> {
+  if (!passphrase) throw new Error("Enter a passphrase");
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  return deriveArchiveKey(passphrase, { name: "PBKDF2", hash: "SHA-256", iterations, salt: arrayBufferToBase64(salt.buffer) });
+}
+
+// JSON has no bytes or bigints, so they travel tagged
+function replacer(_key: string, value: unknown): unknown {
+  if (typeof value === "bigint") return { $bigint: value.toString() };
+  if (value instanceof ArrayBuffer) return { $bytes: arrayBufferToBase64(value) };
+  if (value instanceof Uint8Array) return { $u8: arrayBufferToBase64(value.slice().buffer) };
+  return value;
+}
+
+function reviver(_key: string, value: unknown): unknown {
+  if (!value || typeof value !== "object") return value;
+  const tagged = value as { $bigint?: string; $bytes?: string; $u8?: string };
+  if (typeof tagged.$bigint === "string") return BigInt(tagged.$bigint);
+  if (typeof tagged.$bytes === "string") return base64ToArrayBuffer(tagged.$bytes);
+  if (typeof tagged.$u8 === "string") return new Uint8Array(base64ToArrayBuffer(tagged.$u8));
+  return value;
+}
+
+// Throws "Wrong passphrase" when the check doesn't match, and a corruption error when the data doesn't decrypt
+export async function unlockArchive<T>(file: ArchiveFile, passphrase: string): Promise<{ archiveKey: ArchiveKey; contents: T }> {
+  if (!passphrase) throw new Error("Enter the passphrase");
+  const archiveKey = await deriveArchiveKey(passphrase, file.kdf);
+  if (archiveKey.check !== file.check) throw new Error("Wrong passphrase");
+  let plain: ArrayBuffer;
+  try {
+    plain = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: base64ToArrayBuffer(file.cipher.iv) },
+      archiveKey.key,
+      base64ToArrayBuffer(file.data),
+    );
+  } catch {
+    throw new Error("Archive is corrupted: it doesn't decrypt");
+  }
+  return { archiveKey, contents: JSON.parse(new TextDecoder().decode(plain), reviver) as T };
+}
+
+export function serializeArchive(file: ArchiveFile): string {
+  return JSON.stringify(file, null, 2);
+}
+
+export interface ArchiveStoreOptions {
+  format: string; // tells this app's archives from anyone else's
+  name: string; // completes "Not …" when a file has another format, e.g. "a Secret Agent Messenger archive"
+  dbName: string;
+}
+
+export interface ArchiveStore {
+  sealArchive: <T>(archiveKey: ArchiveKey, contents: T) => Promise<ArchiveFile>;
+  parseArchive: (text: string) => ArchiveFile;
+  loadArchive: () => Promise<ArchiveFile | undefined>;
+  saveArchive: (file: ArchiveFile) => Promise<void>;
+  deleteArchive: () => Promise<void>; // the file records too
+  // A file record, sealed under the archive key and bound to its id so records can't be swapped
+  saveBlob: (archiveKey: ArchiveKey, id: string, blob: Blob) => Promise<void>;
+  loadBlob: (archiveKey: ArchiveKey, id: string) => Promise<Blob | undefined>;
+  deleteBlob: (id: string) => Promise<void>;
+  clearBlobs: () => Promise<void>;
+  // The same store on a slot of its own, e.g. one per agent when each tab plays one
+  forSlot: (name: string) => ArchiveStore;
+}
+
+// A file record as IndexedDB holds it
+interface SealedBlob {
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
+const DB_VERSION = 2; // 2 added the file records
+const STORE = "archive";
+const BLOBS = "blobs";
+const SLOT = "current";
+
+export function createArchiveStore({ format, name, dbName }: ArchiveStoreOptions): ArchiveStore {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  async function sealArchive<T>(archiveKey: ArchiveKey, contents: T): Promise<ArchiveFile> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const plain = new TextEncoder().encode(JSON.stringify(contents, replacer));
+    const data = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, archiveKey.key, plain);
+    return {
+      format,
+      version: ARCHIVE_VERSION,
+      kdf: archiveKey.kdf,
+      cipher: { name: "AES-GCM", iv: arrayBufferToBase64(iv.buffer) },
+      check: archiveKey.check,
+      savedAt: Date.now(),
+      data: arrayBufferToBase64(data),
+    };
+  }
+
+  function parseArchive(text: string): ArchiveFile {
+    let raw: Partial<ArchiveFile>;
+    try {
+      raw = JSON.parse(text);
+    } catch {
+      throw new Error("Archive is corrupted: not valid JSON");
+    }
+    if (!raw || raw.format !== format) throw new Error(`Not ${name}`);
+    if (raw.version !== ARCHIVE_VERSION) throw new Error(`Unsupported archive version: ${String(raw.version)}`);
+    if (
+      raw.kdf?.name !== "PBKDF2" || typeof raw.kdf.iterations !== "number" || typeof raw.kdf.salt !== "string" ||
+      raw.cipher?.name !== "AES-GCM" || typeof raw.cipher.iv !== "string" ||
+      typeof raw.check !== "string" || typeof raw.data !== "string"
+    ) {
+      throw new Error("Archive is corrupted: missing or malformed fields");
+    }
+    return raw as ArchiveFile;
+  }
+
+  function openStore(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const req = indexedDB.open(dbName, DB_VERSION);
+        req.onupgradeneeded = () => {
+          for (const store of [STORE, BLOBS]) {
+            if (!req.result.objectStoreNames.contains(store)) req.result.createObjectStore(store);
+          }
+        };
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => {
+          dbPromise = null;
+          reject(req.error);
+        };
+      });
+    }
+    return dbPromise;
+  }
+
+  async function withStore<T>(store: string, mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await openStore();
+    return new Promise((resolve, reject) => {
+      const req = fn(db.transaction(store, mode).objectStore(store));
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+  }
+
+  // Everything below works on one slot: an archive and the file records that go with it
+  function bind(slot: string): ArchiveStore {
+    const recordKey = (id: string) => `${slot}/${id}`;
+    const allRecords = () => IDBKeyRange.bound(`${slot}/`, `${slot}/\uffff`);
+
+    async function saveBlob(archiveKey: ArchiveKey, id: string, blob: Blob): Promise<void> {
+      const iv = crypto.getRandomValues(new Uint8Array(12));
+      const additionalData = new TextEncoder().encode(recordKey(id));
+      const data = await crypto.subtle.encrypt({ name: "AES-GCM", iv, additionalData }, archiveKey.key, await blob.arrayBuffer());
+      const record: SealedBlob = { iv, data };
+      await withStore(BLOBS, "readwrite", (s) => s.put(record, recordKey(id)));
+    }
+
+    async function loadBlob(archiveKey: ArchiveKey, id: string): Promise<Blob | undefined> {
+      const record = await withStore<SealedBlob | undefined>(BLOBS, "readonly", (s) => s.get(recordKey(id)));
+      if (!record) return undefined;
+      try {
+        const additionalData = new TextEncoder().encode(recordKey(id));
+        return new Blob([await crypto.subtle.decrypt({ name: "AES-GCM", iv: record.iv, additionalData }, archiveKey.key, record.data)]);
+      } catch {
+        throw new Error(`Archive is corrupted: file record ${id} doesn't decrypt`);
+      }
+    }
+
+    return {
+      sealArchive,
+      parseArchive,
+      loadArchive: () => withStore<ArchiveFile | undefined>(STORE, "readonly", (s) => s.get(slot)),
+      saveArchive: async (file) => {
+        await withStore(STORE, "readwrite", (s) => s.put(file, slot));
+      },
+      deleteArchive: async () => {
+        await withStore(STORE, "readwrite", (s) => s.delete(slot));
+        await withStore(BLOBS, "readwrite", (s) => s.delete(allRecords()));
+      },
+      saveBlob,
+      loadBlob,
+      deleteBlob: async (id) => {
+        await withStore(BLOBS, "readwrite", (s) => s.delete(recordKey(id)));
+      },
+      clearBlobs: async () => {
+        await withStore(BLOBS, "readwrite", (s) => s.delete(allRecords()));
+      },
+      forSlot: (name) => bind(`${SLOT}:${name}`),
+    };
+  }
+
+  return bind(SLOT);
+}
@@ -0,0 +1,73 @@
+// Each agent's contact directory: the public keys they have accepted for the
+// other agents. The first keys seen for a contact are pinned (trust on first
+// use); any different key published later is held aside as a change, and
+// nothing is sent with it until the agent accepts it. A contact becomes
+// verified only when the agent says they compared fingerprints out of band.
+
+// SHA-256 fingerprints (hex) of a contact's encryption and signing keys
+export interface PinnedKeys {
+  encrypt: string;
+  sign: string;
+}
+
+export interface Contact {
+  pinned: PinnedKeys;
+  pinnedAt: number;
+  verifiedAt?: number; // set by the agent after an out-of-band check of the pinned keys
+  changed?: PinnedKeys & { seenAt: number }; // keys that differ from the pinned ones, not yet accepted
+}
+
+// Contacts by name, per agent name
+export type Directory = Record<string, Record<string, Contact>>;
+
+//  - unknown:  never seen, nothing pinned
+//  - tofu:     pinned on first use, never checked
+//  - verified: pinned and checked out of band
+//  - changed:  the published key no longer matches the pin
+export type TrustState = "unknown" | "tofu" | "verified" | "changed";
+
+export const TRUST_LABELS: Record<TrustState, string> = {
+  unknown: "Unknown",
+  tofu: "Trusted on first use",
+  verified: "Verified",
+  changed: "Key changed",
+};
+
+export function trustOf(contact: Contact | undefined): TrustState {
+  if (!contact) return "unknown";
+  if (contact.changed) return "changed";
+  return contact.verifiedAt === undefined ? "tofu" : "verified";
+}
+
+const samePins = (a: PinnedKeys, b: PinnedKeys) => a.encrypt === b.encrypt && a.sign === b.sign;
+
+// What a contact looks like after seeing `keys` published for them: pinned if
+// new, untouched if they match, flagged if they don't. Seeing the pinned keys
+// again clears a pending change, e.g. after a rotation is rolled back.
+export function observeKeys(contact: Contact | undefined, keys: PinnedKeys, now = Date.now()): Contact {
+  if (!contact) return { pinned: keys, pinnedAt: now };
+  if (samePins(contact.pinned, keys)) {
+    if (!contact.changed) return contact;
+    const cleared = { ...contact };
+    delete cleared.changed;
+    return cleared;
+  }
+  if (contact.changed && samePins(contact.changed, keys)) return contact;
+  return { ...contact, changed: { ...keys, seenAt: now } };
+}
+
+// Re-pins a contact to their changed keys. The new keys start out unverified.
+export function acceptChangedKeys(contact: Contact, now = Date.now()): Contact {
+  if (!contact.changed) return contact;
+  return { pinned: { encrypt: contact.changed.encrypt, sign: contact.changed.sign }, pinnedAt: now };
+}
+
+export function markVerified(contact: Contact, now = Date.now()): Contact {
+  if (contact.changed) throw new Error("The key changed: accept the new key before verifying it");
+  return { ...contact, verifiedAt: now };
+}
+
+// The directory with one contact replaced
+export function withContact(directory: Directory, holder: string, name: string, contact: Contact): Directory {
+  return { ...directory, [holder]: { ...directory[holder], [name]: contact } };
+}
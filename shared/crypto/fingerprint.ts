@@ -0,0 +1,150 @@
+// Key fingerprints: what people compare to be sure a public key is the one its
+// owner generated, e.g. by reading it aloud over the phone. A substituted key
+// changes every digit.
+
+export type PublicKeyLike = CryptoKey | JsonWebKey;
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// Full hex in groups of four digits
+export function formatHex(bytes: Uint8Array): string {
+  return toHex(bytes).replace(/(.{4})(?!$)/g, "$1 ");
+}
+
+// The first 64 bits, enough to tell keys apart at a glance
+export function shortHex(bytes: Uint8Array): string {
+  return toHex(bytes.slice(0, 8)).replace(/(.{4})(?!$)/g, "$1:");
+}
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+// RFC 4648 base32 without padding: no 0/O or 1/I/l to confuse when read aloud
+export function toBase32(bytes: Uint8Array): string {
+  let out = "";
+  let buffer = 0;
+  let bits = 0;
+  for (const b of bytes) {
+    buffer = (buffer << 8) | b;
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32_ALPHABET[(buffer >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) out += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+  return out;
+}
+
+// The first 80 bits as four groups of four characters
+export function shortBase32(bytes: Uint8Array): string {
+  return toBase32(bytes.slice(0, 10)).replace(/(.{4})(?!$)/g, "$1-");
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+// RFC 7638 §3.2: only the required members of each key type, in lexicographic order
+const THUMBPRINT_MEMBERS: Record<string, (keyof JsonWebKey)[]> = {
+  RSA: ["e", "kty", "n"],
+  EC: ["crv", "kty", "x", "y"],
+  OKP: ["crv", "kty", "x"],
+};
+
+// The JSON the thumbprint hashes: no whitespace, no optional members, so
+// "alg", "key_ops" or "ext" never change a key's fingerprint
+export function canonicalJwk(jwk: JsonWebKey): string {
+  const members = jwk.kty ? THUMBPRINT_MEMBERS[jwk.kty] : undefined;
+  if (!members) throw new Error(`No JWK thumbprint defined for key type ${jwk.kty ?? "(none)"}`);
+  const canonical: Record<string, unknown> = {};
+  for (const m of members) {
+    if (jwk[m] === undefined) throw new Error(`JWK is missing "${m}"`);
+    canonical[m] = jwk[m];
+  }
+  return JSON.stringify(canonical);
+}
+
+function isCryptoKey(key: PublicKeyLike): key is CryptoKey {
+  return typeof CryptoKey !== "undefined" && key instanceof CryptoKey;
+}
+
+// SHA-256 JWK thumbprint (RFC 7638): the same bytes whether the key arrives as
+// a CryptoKey, a JWK file or any PEM that converts to one
+export async function jwkThumbprint(key: PublicKeyLike): Promise<Uint8Array> {
+  const jwk = isCryptoKey(key) ? await crypto.subtle.exportKey("jwk", key) : key;
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(canonicalJwk(jwk)));
+  return new Uint8Array(digest);
+}
+
+export interface KeyFingerprints {
+  thumbprint: string; // RFC 7638, base64url
+  hex: string;
+  shortHex: string;
+  shortBase32: string;
+  bytes: Uint8Array;
+}
+
+export async function fingerprintKey(key: PublicKeyLike): Promise<KeyFingerprints> {
+  const bytes = await jwkThumbprint(key);
+  return { thumbprint: toBase64Url(bytes), hex: formatHex(bytes), shortHex: shortHex(bytes), shortBase32: shortBase32(bytes), bytes };
+}
+
+export interface SafetyIdentity {
+  id: string; // stable identifier, e.g. the agent's name
+  keys: CryptoKey[]; // every public key the agent is known by
+}
+
+const SAFETY_ITERATIONS = 5200;
+
+// One side's 30 digits, as Signal derives them: iterated SHA-512 over the key
+// bytes, then six 5-byte chunks each reduced mod 100000
+async function safetyDigits(identity: SafetyIdentity): Promise<string> {
+  const spkis = await Promise.all(identity.keys.map((k) => crypto.subtle.exportKey("spki", k)));
+  const keyBytes = new Uint8Array(spkis.reduce((n, s) => n + s.byteLength, 0));
+  let offset = 0;
+  for (const s of spkis) {
+    keyBytes.set(new Uint8Array(s), offset);
+    offset += s.byteLength;
+  }
+  const idBytes = new TextEncoder().encode(identity.id);
+  let hash = new Uint8Array([0, 0, ...keyBytes, ...idBytes]); // version 0
+  for (let i = 0; i < SAFETY_ITERATIONS; i++) {
+    const input = new Uint8Array(hash.length + keyBytes.length);
+    input.set(hash);
+    input.set(keyBytes, hash.length);
+    hash = new Uint8Array(await crypto.subtle.digest("SHA-512", input));
+  }
+  let digits = "";
+  for (let i = 0; i < 30; i += 5) {
+    const chunk = hash.slice(i, i + 5).reduce((acc, b) => acc * 256 + b, 0);
+    digits += String(chunk % 100000).padStart(5, "0");
+  }
+  return digits;
+}
+
+// Signal-style safety number for a pair: 60 digits in groups of five. Both
+// sides compute it from their own keys and the keys they hold for the other,
+// sorted so it comes out the same on each end; any substituted key changes it.
+export async function safetyNumber(a: SafetyIdentity, b: SafetyIdentity): Promise<string> {
+  const [da, db] = await Promise.all([safetyDigits(a), safetyDigits(b)]);
+  const combined = da <= db ? da + db : db + da;
+  return combined.replace(/(.{5})(?!$)/g, "$1 ");
+}
+
+export interface Identicon {
+  color: string;
+  cells: boolean[][]; // 5×5, mirrored left to right
+}
+
+// A deterministic 5×5 symmetric pattern and colour, easier to compare by eye than digits
+export function identicon(bytes: Uint8Array): Identicon {
+  const hue = ((bytes[0] << 8) | bytes[1]) % 360;
+  const cells: boolean[][] = [];
+  for (let row = 0; row < 5; row++) {
+    const left = [0, 1, 2].map((col) => ((bytes[2 + row] >> col) & 1) === 1);
+    cells.push([left[0], left[1], left[2], left[1], left[0]]);
+  }
+  return { color: `hsl(${hue} 65% 55%)`, cells };
+}
@@ -0,0 +1,161 @@
+import { arrayBufferToBase64, base64ToArrayBuffer } from "./base64";
+
+// Passphrase-protected private key file: PKCS#8 wrapped under a PBKDF2-derived key.
+// AES-GCM is used for wrapping rather than AES-KW, since AES-KW needs input
+// lengths that are a multiple of 8 bytes and PKCS#8 RSA keys usually aren't.
+// RSA, ECDSA and Ed25519 keys can be wrapped; the format name predates the last two.
+export const KEYFILE_FORMAT = "rsa-encrypted-private-key";
+export const KEYFILE_VERSION = 1;
+export const KEYFILE_EXTENSION = ".rsakey.json";
+export const DEFAULT_PBKDF2_ITERATIONS = 600_000;
+export const MIN_PBKDF2_ITERATIONS = 10_000;
+
+export interface EncryptedKeyFile {
+  format: typeof KEYFILE_FORMAT;
+  version: typeof KEYFILE_VERSION;
+  kdf: { name: "PBKDF2"; hash: "SHA-256"; iterations: number; salt: string };
+  cipher: { name: "AES-GCM"; iv: string };
+  check: string; // SHA-256 of the second half of the derived bits, to tell a wrong passphrase from corruption
+  algorithm: KeyFileAlgorithm;
+  usages: KeyUsage[];
+  wrappedKey: string;
+}
+
+// What the key is imported as again: RSA keys name their hash, ECDSA keys their curve
+export type KeyFileAlgorithm =
+  | { name: "RSASSA-PKCS1-v1_5" | "RSA-PSS" | "RSA-OAEP"; hash: string }
+  | { name: "ECDSA"; namedCurve: string }
+  | { name: "Ed25519" };
+
+function keyFileAlgorithm(key: CryptoKey): KeyFileAlgorithm {
+  const alg = key.algorithm as KeyAlgorithm & Partial<RsaHashedKeyAlgorithm & EcKeyAlgorithm>;
+  switch (alg.name) {
+    case "RSASSA-PKCS1-v1_5":
+    case "RSA-PSS":
+    case "RSA-OAEP":
+      return { name: alg.name, hash: alg.hash!.name };
+    case "ECDSA":
+      return { name: alg.name, namedCurve: alg.namedCurve! };
+    case "Ed25519":
+      return { name: alg.name };
+    default:
+      throw new Error(`${alg.name} keys can't be backed up: only RSA, ECDSA and Ed25519 keys are supported`);
+  }
+}
+
+function isKeyFileAlgorithm(alg: Partial<Record<"name" | "hash" | "namedCurve", unknown>> | undefined): boolean {
+  switch (alg?.name) {
+    case "RSASSA-PKCS1-v1_5":
+    case "RSA-PSS":
+    case "RSA-OAEP":
+      return typeof alg.hash === "string";
+    case "ECDSA":
+      return typeof alg.namedCurve === "string";
+    case "Ed25519":
+      return true;
+    default:
+      return false;
+  }
+}
+
+// The public members of a private JWK, by key type
+function publicJwk({ kty, n, e, crv, x, y }: JsonWebKey): JsonWebKey {
+  switch (kty) {
+    case "RSA":
+      return { kty, n, e };
+    case "EC":
+      return { kty, crv, x, y };
+    case "OKP":
+      return { kty, crv, x };
+    default:
+      throw new Error(`Unsupported key type ${kty ?? "(none)"}`);
+  }
+}
+
+async function deriveKek(passphrase: string, salt: Uint8Array, iterations: number): Promise<{ kek: CryptoKey; check: string }> {
+  const base = await crypto.subtle.importKey("raw", new TextEncoder().encode(passphrase), "PBKDF2", false, ["deriveBits"]);
+  const bits = new Uint8Array(
+    await crypto.subtle.deriveBits({ name: "PBKDF2", hash: "SHA-256", salt, iterations }, base, 512),
+  );
+  const kek = await crypto.subtle.importKey("raw", bits.slice(0, 32), "AES-GCM", false, ["wrapKey", "unwrapKey"]);
+  const check = arrayBufferToBase64(await crypto.subtle.digest("SHA-256", bits.slice(32)));
+  return { kek, check };
+}
+
+export async function encryptPrivateKey(
+  privateKey: CryptoKey,
+  passphrase: string,
+  iterations = DEFAULT_PBKDF2_ITERATIONS,
+): Promise<EncryptedKeyFile> {
+  if (!passphrase) throw new Error("Enter a passphrase");
+  if (!Number.isInteger(iterations) || iterations < MIN_PBKDF2_ITERATIONS) {
+    throw new Error(`Iteration count must be at least ${MIN_PBKDF2_ITERATIONS}`);
+  }
+  if (!privateKey.extractable) throw new Error("This private key is non-extractable and cannot be exported");
+  const algorithm = keyFileAlgorithm(privateKey);
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const { kek, check } = await deriveKek(passphrase, salt, iterations);
+  const wrapped = await crypto.subtle.wrapKey("pkcs8", privateKey, kek, { name: "AES-GCM", iv });
+  return {
+    format: KEYFILE_FORMAT,
+    version: KEYFILE_VERSION,
+    kdf: { name: "PBKDF2", hash: "SHA-256", iterations, salt: arrayBufferToBase64(salt.buffer) },
+    cipher: { name: "AES-GCM", iv: arrayBufferToBase64(iv.buffer) },
+    check,
+    algorithm,
+    usages: privateKey.usages,
+    wrappedKey: arrayBufferToBase64(wrapped),
+  };
+}
+
+export function parseKeyFile(text: string): EncryptedKeyFile {
+  let raw: Partial<EncryptedKeyFile>;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("Key file is corrupted: not valid JSON");
+  }
+  if (!raw || raw.format !== KEYFILE_FORMAT) throw new Error("Not an encrypted private key file");
+  if (raw.version !== KEYFILE_VERSION) throw new Error(`Unsupported key file version: ${String(raw.version)}`);
+  if (
+    raw.kdf?.name !== "PBKDF2" || typeof raw.kdf.iterations !== "number" || typeof raw.kdf.salt !== "string" ||
+    raw.cipher?.name !== "AES-GCM" || typeof raw.cipher.iv !== "string" ||
+    typeof raw.check !== "string" || typeof raw.wrappedKey !== "string" ||
+    !isKeyFileAlgorithm(raw.algorithm) || !Array.isArray(raw.usages)
+  ) {
+    throw new Error("Key file is corrupted: missing or malformed fields");
+  }
+  return raw as EncryptedKeyFile;
+}
+
+// Unwraps the private key and rebuilds its public half from the public members of its JWK
+export async function decryptPrivateKey(
+  file: EncryptedKeyFile,
+  passphrase: string,
+): Promise<{ publicKey: CryptoKey; privateKey: CryptoKey }> {
+  let salt: ArrayBuffer, iv: ArrayBuffer, wrapped: ArrayBuffer;
+  try {
+    salt = base64ToArrayBuffer(file.kdf.salt);
+    iv = base64ToArrayBuffer(file.cipher.iv);
+    wrapped = base64ToArrayBuffer(file.wrappedKey);
+  } catch {
+    throw new Error("Key file is corrupted: invalid base64 data");
+  }
+  const { kek, check } = await deriveKek(passphrase, new Uint8Array(salt), file.kdf.iterations);
+  if (check !== file.check) throw new Error("Wrong passphrase");
+
+  const algorithm = file.algorithm;
+  let privateKey: CryptoKey;
+  try {
+    privateKey = await crypto.subtle.unwrapKey(
+      "pkcs8", wrapped, kek, { name: "AES-GCM", iv }, algorithm, true, file.usages,
+    );
+  } catch {
+    throw new Error("Key file is corrupted: the encrypted key failed its integrity check");
+  }
+  const jwk = (await crypto.subtle.exportKey("jwk", privateKey)) as JsonWebKey;
+  const publicUsages: KeyUsage[] = file.usages.includes("sign") ? ["verify"] : ["encrypt"];
+  const publicKey = await crypto.subtle.importKey("jwk", publicJwk(jwk), algorithm, true, publicUsages);
+  return { publicKey, privateKey };
+}
@@ -0,0 +1,61 @@
+// RSA key-generation parameters shared by the encryption and signing generators.
+
+export type RsaModulusLength = 1024 | 2048 | 3072 | 4096;
+export type RsaHash = "SHA-1" | "SHA-256" | "SHA-384" | "SHA-512";
+
+export interface RsaKeyParams {
+  modulusLength: RsaModulusLength;
+  hash: RsaHash;
+  publicExponent: number;
+}
+
+export const MODULUS_LENGTHS: RsaModulusLength[] = [1024, 2048, 3072, 4096];
+export const RSA_HASHES: RsaHash[] = ["SHA-1", "SHA-256", "SHA-384", "SHA-512"];
+// Browsers only generate keys with these two; e = 3 is here for the small-exponent demos
+export const PUBLIC_EXPONENTS = [65537, 3];
+
+export const DEFAULT_RSA_PARAMS: RsaKeyParams = { modulusLength: 2048, hash: "SHA-256", publicExponent: 65537 };
+
+const HASH_LENGTHS: Record<RsaHash, number> = { "SHA-1": 20, "SHA-256": 32, "SHA-384": 48, "SHA-512": 64 };
+
+export function hashLength(hash: RsaHash): number {
+  return HASH_LENGTHS[hash];
+}
+
+// NIST retired 1024-bit RSA in 2013
+export function isWeakModulus(modulusLength: number): boolean {
+  return modulusLength < 2048;
+}
+
+export function isWeakHash(hash: RsaHash): boolean {
+  return hash === "SHA-1";
+}
+
+// Big-endian, without leading zeros, as generateKey expects
+export function exponentBytes(e: number): Uint8Array {
+  const bytes: number[] = [];
+  for (let v = e; v > 0; v = Math.floor(v / 256)) bytes.unshift(v % 256);
+  return new Uint8Array(bytes);
+}
+
+// RFC 8017 §7.1.1: an OAEP message can be at most k - 2·hLen - 2 bytes
+export function oaepMaxPlaintext(modulusLength: number, hash: RsaHash): number {
+  return modulusLength / 8 - 2 * hashLength(hash) - 2;
+}
+
+export function rsaParamsOf(key: CryptoKey): RsaKeyParams | null {
+  const alg = key.algorithm as Partial<RsaHashedKeyAlgorithm>;
+  if (!alg.modulusLength || !alg.publicExponent || !alg.hash) return null;
+  const publicExponent = Array.from(alg.publicExponent).reduce((acc, b) => acc * 256 + b, 0);
+  return { modulusLength: alg.modulusLength as RsaModulusLength, hash: alg.hash.name as RsaHash, publicExponent };
+}
+
+export function describeRsaParams(params: RsaKeyParams): string {
+  return `${params.modulusLength}-bit, ${params.hash}, e = ${params.publicExponent}`;
+}
+
+export async function timed<T>(run: () => Promise<T>): Promise<{ result: T; ms: number }> {
+  const start = performance.now();
+  const result = await run();
+  return { result, ms: Math.round(performance.now() - start) };
+}
@@ -0,0 +1,268 @@
+import { canonicalJwk } from "./fingerprint";
+
+// Persistent keyring: CryptoKey objects are structured-cloneable, so IndexedDB
+// can hold them directly (including non-extractable private keys). Each app
+// keeps its keys in a database of its own, named when it creates its keyring.
+
+export type KeyPurpose = "encrypt" | "sign";
+
+export interface KeyringEntry {
+  id: string;
+  owner: string;
+  purpose: KeyPurpose;
+  label: string;
+  publicKey: CryptoKey;
+  privateKey: CryptoKey;
+  extractable: boolean;
+  createdAt: number;
+}
+
+export interface KeyPairLike {
+  publicKey: CryptoKey;
+  privateKey: CryptoKey;
+}
+
+// A keyring key as an exported archive carries it, both halves as JWKs. The
+// archive is sealed under its passphrase, so the private half is never in the clear.
+export interface ArchivedKey {
+  owner: string;
+  purpose: KeyPurpose;
+  label: string;
+  active: boolean;
+  algorithm: RsaHashedImportParams | EcKeyImportParams | Algorithm;
+  publicJwk: JsonWebKey;
+  privateJwk: JsonWebKey;
+}
+
+export interface KeyringExport {
+  keys: ArchivedKey[];
+  leftOut: KeyringEntry[]; // non-extractable private keys can't leave this browser
+}
+
+export interface Keyring {
+  listKeys: (owner?: string) => Promise<KeyringEntry[]>;
+  // Every owner's name, without reading anyone's keys
+  listOwners: () => Promise<string[]>;
+  addKeyPair: (pair: KeyPairLike, opts: { owner: string; purpose: KeyPurpose; label?: string }) => Promise<KeyringEntry>;
+  renameKey: (id: string, label: string) => Promise<void>;
+  deleteKey: (id: string) => Promise<void>;
+  setActiveKey: (owner: string, purpose: KeyPurpose, id: string) => Promise<void>;
+  getActiveKeyId: (owner: string, purpose: KeyPurpose) => Promise<string | undefined>;
+  getActiveKey: (owner: string, purpose: KeyPurpose) => Promise<KeyringEntry | undefined>;
+  // Returns the active pair for owner/purpose, generating and activating one on first use.
+  // With `accepts`, an active key that doesn't fit (e.g. the wrong signature scheme) is
+  // swapped for a stored one that does, or a freshly generated one.
+  // Concurrent callers (e.g. StrictMode double effects) share a single generation.
+  ensureActiveKey: (
+    owner: string,
+    purpose: KeyPurpose,
+    generate: () => Promise<KeyPairLike>,
+    accepts?: (entry: KeyringEntry) => boolean,
+  ) => Promise<KeyringEntry>;
+  exportKeys: (owner?: string) => Promise<KeyringExport>;
+  // Adds the keys from an exported archive that aren't held yet, and makes the
+  // ones that were active there active here
+  importKeys: (keys: ArchivedKey[]) => Promise<void>;
+}
+
+const DB_VERSION = 1;
+const KEYS_STORE = "keys";
+const ACTIVE_STORE = "active";
+
+function promisify<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function activeSlot(owner: string, purpose: KeyPurpose): string {
+  return `${owner}:${purpose}`;
+}
+
+// What importing the key again takes, from the algorithm it carries
+function importParams(key: CryptoKey): RsaHashedImportParams | EcKeyImportParams | Algorithm {
+  const alg = key.algorithm as KeyAlgorithm & { hash?: KeyAlgorithm; namedCurve?: string };
+  if (alg.hash) return { name: alg.name, hash: alg.hash.name };
+  if (alg.namedCurve) return { name: alg.name, namedCurve: alg.namedCurve };
+  return { name: alg.name };
+}
+
+const exportJwk = async (key: CryptoKey) => (await crypto.subtle.exportKey("jwk", key)) as JsonWebKey;
+
+export function createKeyring(dbName: string): Keyring {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const pending = new Map<string, Promise<KeyringEntry>>();
+
+  function openKeyring(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const req = indexedDB.open(dbName, DB_VERSION);
+        req.onupgradeneeded = () => {
+          const db = req.result;
+          if (!db.objectStoreNames.contains(KEYS_STORE)) {
+            db.createObjectStore(KEYS_STORE, { keyPath: "id" }).createIndex("owner", "owner");
+          }
+          if (!db.objectStoreNames.contains(ACTIVE_STORE)) db.createObjectStore(ACTIVE_STORE);
+        };
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => {
+          dbPromise = null;
+          reject(req.error);
+        };
+      });
+    }
+    return dbPromise;
+  }
+
+  async function withStore<T>(
+    name: string,
+    mode: IDBTransactionMode,
+    fn: (store: IDBObjectStore) => IDBRequest<T>,
+  ): Promise<T> {
+    const db = await openKeyring();
+    return promisify(fn(db.transaction(name, mode).objectStore(name)));
+  }
+
+  async function listKeys(owner?: string): Promise<KeyringEntry[]> {
+    const all = await withStore<KeyringEntry[]>(KEYS_STORE, "readonly", (s) =>
+      owner ? s.index("owner").getAll(owner) : s.getAll(),
+    );
+    return all.sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async function listOwners(): Promise<string[]> {
+    const db = await openKeyring();
+    return new Promise((resolve, reject) => {
+      const owners: string[] = [];
+      const req = db.transaction(KEYS_STORE, "readonly").objectStore(KEYS_STORE).index("owner").openKeyCursor(null, "nextunique");
+      req.onsuccess = () => {
+        const cursor = req.result;
+        if (!cursor) return resolve(owners);
+        owners.push(cursor.key as string);
+        cursor.continue();
+      };
+      req.onerror = () => reject(req.error);
+    });
+  }
+
+  async function addKeyPair(
+    pair: KeyPairLike,
+    opts: { owner: string; purpose: KeyPurpose; label?: string },
+  ): Promise<KeyringEntry> {
+    const entry: KeyringEntry = {
+      id: crypto.randomUUID(),
+      owner: opts.owner,
+      purpose: opts.purpose,
+      label: opts.label ?? `${opts.owner} ${opts.purpose === "encrypt" ? "encryption" : "signing"} key`,
+      publicKey: pair.publicKey,
+      privateKey: pair.privateKey,
+      extractable: pair.privateKey.extractable,
+      createdAt: Date.now(),
+    };
+    await withStore(KEYS_STORE, "readwrite", (s) => s.put(entry));
+    return entry;
+  }
+
+  async function renameKey(id: string, label: string): Promise<void> {
+    const entry = await withStore<KeyringEntry | undefined>(KEYS_STORE, "readonly", (s) => s.get(id));
+    if (!entry) throw new Error("Key not found");
+    await withStore(KEYS_STORE, "readwrite", (s) => s.put({ ...entry, label }));
+  }
+
+  async function deleteKey(id: string): Promise<void> {
+    const entry = await withStore<KeyringEntry | undefined>(KEYS_STORE, "readonly", (s) => s.get(id));
+    if (!entry) return;
+    const slot = activeSlot(entry.owner, entry.purpose);
+    const active = await withStore<string | undefined>(ACTIVE_STORE, "readonly", (s) => s.get(slot));
+    if (active === id) await withStore(ACTIVE_STORE, "readwrite", (s) => s.delete(slot));
+    await withStore(KEYS_STORE, "readwrite", (s) => s.delete(id));
+  }
+
+  async function setActiveKey(owner: string, purpose: KeyPurpose, id: string): Promise<void> {
+    await withStore(ACTIVE_STORE, "readwrite", (s) => s.put(id, activeSlot(owner, purpose)));
+  }
+
+  async function getActiveKeyId(owner: string, purpose: KeyPurpose): Promise<string | undefined> {
+    return withStore<string | undefined>(ACTIVE_STORE, "readonly", (s) => s.get(activeSlot(owner, purpose)));
+  }
+
+  async function getActiveKey(owner: string, purpose: KeyPurpose): Promise<KeyringEntry | undefined> {
+    const id = await getActiveKeyId(owner, purpose);
+    if (!id) return undefined;
+    return withStore<KeyringEntry | undefined>(KEYS_STORE, "readonly", (s) => s.get(id));
+  }
+
+  function ensureActiveKey(
+    owner: string,
+    purpose: KeyPurpose,
+    generate: () => Promise<KeyPairLike>,
+    accepts?: (entry: KeyringEntry) => boolean,
+  ): Promise<KeyringEntry> {
+    const slot = activeSlot(owner, purpose);
+    const inFlight = pending.get(slot);
+    if (inFlight) return inFlight;
+    const p = (async () => {
+      const existing = await getActiveKey(owner, purpose);
+      if (existing && (!accepts || accepts(existing))) return existing;
+      const stored = accepts && (await listKeys(owner)).find((k) => k.purpose === purpose && accepts(k));
+      const entry = stored || (await addKeyPair(await generate(), { owner, purpose }));
+      await setActiveKey(owner, purpose, entry.id);
+      return entry;
+    })().finally(() => pending.delete(slot));
+    pending.set(slot, p);
+    return p;
+  }
+
+  async function exportKeys(owner?: string): Promise<KeyringExport> {
+    const keys: ArchivedKey[] = [];
+    const leftOut: KeyringEntry[] = [];
+    for (const entry of await listKeys(owner)) {
+      if (!entry.privateKey.extractable) {
+        leftOut.push(entry);
+        continue;
+      }
+      keys.push({
+        owner: entry.owner,
+        purpose: entry.purpose,
+        label: entry.label,
+        active: (await getActiveKeyId(entry.owner, entry.purpose)) === entry.id,
+        algorithm: importParams(entry.publicKey),
+        publicJwk: await exportJwk(entry.publicKey),
+        privateJwk: await exportJwk(entry.privateKey),
+      });
+    }
+    return { keys, leftOut };
+  }
+
+  async function importKeys(keys: ArchivedKey[]): Promise<void> {
+    const held = new Map<string, string>(); // canonical public JWK → entry id
+    for (const entry of await listKeys()) held.set(canonicalJwk(await exportJwk(entry.publicKey)), entry.id);
+    for (const key of keys) {
+      const canonical = canonicalJwk(key.publicJwk);
+      let id = held.get(canonical);
+      if (!id) {
+        const [publicKey, privateKey] = await Promise.all([key.publicJwk, key.privateJwk].map((jwk) =>
+          crypto.subtle.importKey("jwk", jwk, key.algorithm, true, (jwk.key_ops ?? []) as KeyUsage[]),
+        ));
+        id = (await addKeyPair({ publicKey, privateKey }, { owner: key.owner, purpose: key.purpose, label: key.label })).id;
+        held.set(canonical, id);
+      }
+      if (key.active) await setActiveKey(key.owner, key.purpose, id);
+    }
+  }
+
+  return {
+    listKeys,
+    listOwners,
+    addKeyPair,
+    renameKey,
+    deleteKey,
+    setActiveKey,
+    getActiveKeyId,
+    getActiveKey,
+    ensureActiveKey,
+    exportKeys,
+    importKeys,
+  };
+}
@@ -0,0 +1,46 @@
+import { DEFAULT_RSA_PARAMS, exponentBytes, type RsaHash, type RsaKeyParams } from "./keyparams";
+
+// RSA-OAEP key pairs, which wrap the AES keys of messages and files. Signing
+// pairs come from generateSignatureKeyPair in ./signature.
+
+export interface RsaEncryptionKeys {
+  publicKey: CryptoKey;
+  privateKey: CryptoKey;
+}
+
+// JWK "alg" names for RSA-OAEP; plain "RSA-OAEP" is the SHA-1 variant (RFC 7518 §4.3)
+const JWK_OAEP_HASHES: Record<string, RsaHash> = {
+  "RSA-OAEP": "SHA-1",
+  "RSA-OAEP-256": "SHA-256",
+  "RSA-OAEP-384": "SHA-384",
+  "RSA-OAEP-512": "SHA-512",
+};
+
+// The OAEP hash a pasted key names, if it names one: only a JWK's "alg" does,
+// PEM and OpenSSH keys don't carry it
+export function oaepHashOfKeyText(text: string): RsaHash | undefined {
+  if (!text.trim().startsWith("{")) return undefined;
+  try {
+    const { alg } = JSON.parse(text) as JsonWebKey;
+    return alg ? JWK_OAEP_HASHES[alg] : undefined;
+  } catch {
+    return undefined; // importing it says what's wrong
+  }
+}
+
+export async function generateEncryptionKeyPair(
+  extractable = true,
+  params: RsaKeyParams = DEFAULT_RSA_PARAMS,
+): Promise<RsaEncryptionKeys> {
+  const keyPair = await crypto.subtle.generateKey(
+    {
+      name: "RSA-OAEP",
+      modulusLength: params.modulusLength,
+      publicExponent: exponentBytes(params.publicExponent),
+      hash: params.hash,
+    },
+    extractable,
+    ["encrypt", "decrypt"],
+  );
+  return { publicKey: keyPair.publicKey, privateKey: keyPair.privateKey };
+}
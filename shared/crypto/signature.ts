@@ -0,0 +1,226 @@
+import { arrayBufferToBase64, base64ToArrayBuffer } from "./base64";
+import { DEFAULT_RSA_PARAMS, exponentBytes, hashLength, rsaParamsOf, type RsaHash, type RsaKeyParams } from "./keyparams";
+
+// Signature schemes. Each signature is stored next to its SignatureAlgorithm,
+// so verification uses the parameters it was made with instead of assuming
+// RSASSA-PKCS1-v1_5. Anything recorded before schemes existed is PKCS#1 v1.5.
+export type SignatureScheme = "RSASSA-PKCS1-v1_5" | "RSA-PSS" | "ECDSA-P256" | "ECDSA-P384" | "Ed25519";
+
+export interface SignatureAlgorithm {
+  scheme: SignatureScheme;
+  saltLength?: number; // RSA-PSS only, in bytes
+  hash?: RsaHash; // RSA schemes only, the hash the key is bound to; absent means SHA-256
+}
+
+export const SIGNATURE_SCHEMES: SignatureScheme[] = ["RSASSA-PKCS1-v1_5", "RSA-PSS", "ECDSA-P256", "ECDSA-P384", "Ed25519"];
+
+export const SCHEME_LABELS: Record<SignatureScheme, string> = {
+  "RSASSA-PKCS1-v1_5": "RSASSA-PKCS1-v1_5",
+  "RSA-PSS": "RSA-PSS",
+  "ECDSA-P256": "ECDSA P-256",
+  "ECDSA-P384": "ECDSA P-384",
+  "Ed25519": "Ed25519",
+};
+
+export const DEFAULT_PSS_SALT_LENGTH = 32; // the SHA-256 output length, as RFC 8017 recommends
+export const LEGACY_SIGNATURE_ALGORITHM: SignatureAlgorithm = { scheme: "RSASSA-PKCS1-v1_5" };
+
+export interface SignatureCheck {
+  valid: boolean;
+  reason: string;
+}
+
+export function describeAlgorithm(alg: SignatureAlgorithm): string {
+  const hash = alg.hash && alg.hash !== "SHA-256" ? ` ${alg.hash}` : "";
+  return alg.scheme === "RSA-PSS"
+    ? `RSA-PSS${hash} (salt ${alg.saltLength ?? DEFAULT_PSS_SALT_LENGTH})`
+    : SCHEME_LABELS[alg.scheme] + hash;
+}
+
+function isRsa(scheme: SignatureScheme): boolean {
+  return scheme === "RSASSA-PKCS1-v1_5" || scheme === "RSA-PSS";
+}
+
+function keyParams(scheme: SignatureScheme, hash: RsaHash = "SHA-256"): RsaHashedImportParams | EcKeyImportParams | Algorithm {
+  switch (scheme) {
+    case "RSASSA-PKCS1-v1_5":
+    case "RSA-PSS":
+      return { name: scheme, hash };
+    case "ECDSA-P256":
+      return { name: "ECDSA", namedCurve: "P-256" };
+    case "ECDSA-P384":
+      return { name: "ECDSA", namedCurve: "P-384" };
+    case "Ed25519":
+      return { name: "Ed25519" };
+  }
+}
+
+function signParams(alg: SignatureAlgorithm): AlgorithmIdentifier | RsaPssParams | EcdsaParams {
+  switch (alg.scheme) {
+    case "RSASSA-PKCS1-v1_5":
+      return { name: alg.scheme };
+    case "RSA-PSS":
+      return { name: alg.scheme, saltLength: alg.saltLength ?? DEFAULT_PSS_SALT_LENGTH };
+    case "ECDSA-P256":
+      return { name: "ECDSA", hash: "SHA-256" };
+    case "ECDSA-P384":
+      return { name: "ECDSA", hash: "SHA-384" };
+    case "Ed25519":
+      return { name: "Ed25519" };
+  }
+}
+
+// RSA parameters only apply to the RSA schemes; the curves fix everything else
+export async function generateSignatureKeyPair(
+  scheme: SignatureScheme,
+  extractable = true,
+  rsaParams: RsaKeyParams = DEFAULT_RSA_PARAMS,
+): Promise<CryptoKeyPair> {
+  const params = isRsa(scheme)
+    ? {
+      ...keyParams(scheme, rsaParams.hash),
+      modulusLength: rsaParams.modulusLength,
+      publicExponent: exponentBytes(rsaParams.publicExponent),
+    }
+    : keyParams(scheme);
+  return (await crypto.subtle.generateKey(params, extractable, ["sign", "verify"])) as CryptoKeyPair;
+}
+
+export function schemeOfKey(key: CryptoKey): SignatureScheme | null {
+  const alg = key.algorithm as KeyAlgorithm & { namedCurve?: string };
+  switch (alg.name) {
+    case "RSASSA-PKCS1-v1_5":
+    case "RSA-PSS":
+    case "Ed25519":
+      return alg.name;
+    case "ECDSA":
+      return alg.namedCurve === "P-256" ? "ECDSA-P256" : alg.namedCurve === "P-384" ? "ECDSA-P384" : null;
+    default:
+      return null;
+  }
+}
+
+// The algorithm to record with a signature: an RSA key is bound to its hash
+export function algorithmForKey(alg: SignatureAlgorithm, key: CryptoKey): SignatureAlgorithm {
+  if (!isRsa(alg.scheme)) return { scheme: alg.scheme };
+  const hash = rsaParamsOf(key)?.hash ?? "SHA-256";
+  return hash === "SHA-256" ? { scheme: alg.scheme, saltLength: alg.saltLength } : { scheme: alg.scheme, saltLength: alg.saltLength, hash };
+}
+
+const support = new Map<SignatureScheme, Promise<boolean>>();
+
+// Ed25519 in particular is missing from older browsers
+export function isSchemeSupported(scheme: SignatureScheme): Promise<boolean> {
+  let supported = support.get(scheme);
+  if (!supported) {
+    supported = isRsa(scheme)
+      ? Promise.resolve(true)
+      : crypto.subtle.generateKey(keyParams(scheme), false, ["sign", "verify"]).then(() => true, () => false);
+    support.set(scheme, supported);
+  }
+  return supported;
+}
+
+// Imports a signer's public JWK for the scheme its key type implies. Only RSA
+// keys are ambiguous (PKCS#1 v1.5 or PSS, and the hash), and `hint` settles that.
+export async function importVerifyKey(jwk: JsonWebKey, hint: SignatureAlgorithm = LEGACY_SIGNATURE_ALGORITHM): Promise<CryptoKey> {
+  const { kty, n, e, crv, x, y } = jwk; // drop usage hints so a key_ops/alg mismatch doesn't block import
+  let scheme: SignatureScheme;
+  let clean: JsonWebKey;
+  if (kty === "RSA") {
+    scheme = isRsa(hint.scheme) ? hint.scheme : "RSASSA-PKCS1-v1_5";
+    clean = { kty, n, e };
+  } else if (kty === "EC" && (crv === "P-256" || crv === "P-384")) {
+    scheme = crv === "P-256" ? "ECDSA-P256" : "ECDSA-P384";
+    clean = { kty, crv, x, y };
+  } else if (kty === "OKP" && crv === "Ed25519") {
+    scheme = "Ed25519";
+    clean = { kty, crv, x };
+  } else {
+    throw new Error(`Unsupported signer key type: ${kty}${crv ? ` ${crv}` : ""}`);
+  }
+  return crypto.subtle.importKey("jwk", clean, keyParams(scheme, hint.hash), true, ["verify"]);
+}
+
+export async function signWith(alg: SignatureAlgorithm, privateKey: CryptoKey, data: Uint8Array): Promise<string> {
+  return arrayBufferToBase64(await crypto.subtle.sign(signParams(alg), privateKey, data));
+}
+
+function signatureLength(scheme: SignatureScheme, key: CryptoKey): number {
+  switch (scheme) {
+    case "RSASSA-PKCS1-v1_5":
+    case "RSA-PSS":
+      return (key.algorithm as RsaHashedKeyAlgorithm).modulusLength / 8;
+    case "ECDSA-P256":
+    case "Ed25519":
+      return 64;
+    case "ECDSA-P384":
+      return 96;
+  }
+}
+
+// The same RSA public key can verify either RSA scheme with any hash, but a
+// CryptoKey is bound to one algorithm and hash, so re-import it when they differ
+async function asRsaScheme(key: CryptoKey, alg: SignatureAlgorithm): Promise<CryptoKey> {
+  if (!isRsa(alg.scheme)) return key;
+  const hash = alg.hash ?? "SHA-256";
+  if (key.algorithm.name === alg.scheme && rsaParamsOf(key)?.hash === hash) return key;
+  const spki = await crypto.subtle.exportKey("spki", key);
+  return crypto.subtle.importKey("spki", spki, keyParams(alg.scheme, hash), true, ["verify"]);
+}
+
+async function quietVerify(alg: SignatureAlgorithm, key: CryptoKey, sig: Uint8Array, data: Uint8Array): Promise<boolean> {
+  try {
+    return await crypto.subtle.verify(signParams(alg), await asRsaScheme(key, alg), sig, data);
+  } catch {
+    return false;
+  }
+}
+
+// When an RSA signature fails under the recorded parameters, see whether it was
+// really made with the other padding or another salt length
+async function diagnoseRsa(alg: SignatureAlgorithm, key: CryptoKey, sig: Uint8Array, data: Uint8Array): Promise<SignatureAlgorithm | null> {
+  const { hash } = alg;
+  const maxSalt = sig.length - hashLength(hash ?? "SHA-256") - 2;
+  const candidates: SignatureAlgorithm[] = [
+    { scheme: "RSASSA-PKCS1-v1_5", hash },
+    ...[DEFAULT_PSS_SALT_LENGTH, 0, 20, 48, 64, maxSalt].map((saltLength) => ({ scheme: "RSA-PSS" as const, saltLength, hash })),
+  ];
+  for (const candidate of candidates) {
+    if (candidate.scheme === alg.scheme && (candidate.saltLength ?? DEFAULT_PSS_SALT_LENGTH) === (alg.saltLength ?? DEFAULT_PSS_SALT_LENGTH)) continue;
+    if (await quietVerify(candidate, key, sig, data)) return candidate;
+  }
+  return null;
+}
+
+export async function verifyWith(
+  alg: SignatureAlgorithm,
+  publicKey: CryptoKey,
+  data: Uint8Array,
+  b64sig: string,
+): Promise<SignatureCheck> {
+  const keyScheme = schemeOfKey(publicKey);
+  const name = describeAlgorithm(alg);
+  if (!keyScheme) return { valid: false, reason: "Signer key is not a signing key" };
+  if (keyScheme !== alg.scheme && !(isRsa(keyScheme) && isRsa(alg.scheme))) {
+    return { valid: false, reason: `Wrong algorithm: signature is ${name} but the signer key is ${SCHEME_LABELS[keyScheme]}` };
+  }
+  let sig: Uint8Array;
+  try {
+    sig = new Uint8Array(base64ToArrayBuffer(b64sig));
+  } catch {
+    return { valid: false, reason: "Signature is not valid base64" };
+  }
+  const expected = signatureLength(alg.scheme, publicKey);
+  if (sig.length !== expected) {
+    return { valid: false, reason: `Signature is ${sig.length} bytes; ${name} with this key produces ${expected}` };
+  }
+  if (await quietVerify(alg, publicKey, sig, data)) return { valid: true, reason: `Valid ${name} signature` };
+  if (isRsa(alg.scheme)) {
+    const actual = await diagnoseRsa(alg, publicKey, sig, data);
+    if (actual) {
+      return { valid: false, reason: `Wrong algorithm: signature verifies as ${describeAlgorithm(actual)}, not ${name}` };
+    }
+  }
+  return { valid: false, reason: `Signature does not match under ${name}` };
+}
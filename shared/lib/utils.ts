@@ -0,0 +1,17 @@
+import { twMerge } from "tailwind-merge";
+
+export function cn(
+  ...inputs: Array<string | undefined | null | false>
+): string {
+  return twMerge(inputs.filter(Boolean).join(" "));
+}
+
+
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -1,6 +1,58 @@
 import { useState, useEffect, useRef } from 'react';
 import type { FormEvent } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import {
+  addKeyPair,
+  deleteKey,
+  ensureActiveKey,
+  exportKeys,
+  getActiveKeyId,
+  importKeys,
+  listKeys,
+  renameKey,
+  setActiveKey,
+} from './utils/keyring';
+import type { ArchivedKey, KeyPurpose, KeyringEntry } from './utils/keyring';
+import { exportKeyAs, KEY_FORMAT_LABELS, PUBLIC_KEY_FORMATS } from '@shared/crypto/keyformat';
+import type { KeyFormat } from '@shared/crypto/keyformat';
+import {
+  DEFAULT_PSS_SALT_LENGTH,
+  LEGACY_SIGNATURE_ALGORITHM,
+  SCHEME_LABELS,
+  SIGNATURE_SCHEMES,
+  algorithmForKey,
+  describeAlgorithm,
+  generateSignatureKeyPair,
+  isSchemeSupported,
+  schemeOfKey,
+  signWith,
+  verifyWith,
+} from '@shared/crypto/signature';
+import type { SignatureAlgorithm, SignatureCheck, SignatureScheme } from '@shared/crypto/signature';
+import {
+  DEFAULT_RSA_PARAMS,
+  MODULUS_LENGTHS,
+  PUBLIC_EXPONENTS,
+  RSA_HASHES,
+  describeRsaParams,
+  isWeakHash,
+  isWeakModulus,
+  oaepMaxPlaintext,
+  rsaParamsOf,
+  timed,
+} from '@shared/crypto/keyparams';
+import type { RsaHash, RsaKeyParams, RsaModulusLength } from '@shared/crypto/keyparams';
+import { fingerprintKey, identicon, safetyNumber } from '@shared/crypto/fingerprint';
+import type { KeyFingerprints } from '@shared/crypto/fingerprint';
+import { ARCHIVE_EXTENSION, serializeArchive } from '@shared/crypto/archive';
+import type { ArchiveKey } from '@shared/crypto/archive';
+import { UnlockScreen } from '@shared/components/UnlockScreen';
+import { downloadBlob } from '@shared/lib/utils';
+import { arrayBufferToBase64, base64ToArrayBuffer } from '@shared/crypto/base64';
+import { generateEncryptionKeyPair } from '@shared/crypto/oaep';
+import { archive, saveArchive, sealArchive } from './utils/archive';
+import { TRUST_LABELS, acceptChangedKeys, markVerified, observeKeys, trustOf, withContact } from '@shared/crypto/directory';
+import type { Directory, PinnedKeys, TrustState } from '@shared/crypto/directory';
 
 // --- Type Definitions ---
 interface Agent {
@@ -14,78 +66,247 @@ interface Agent {
     encryption: string | null;
   };
   isUser: boolean;
+  color: string; // the background of their message bubbles
 }
 
 interface Message {
   id: number;
   sender: string;
+  recipient: string;
   originalText: string;
   ciphertext: ArrayBuffer;
-  signature: ArrayBuffer;
+  signature: ArrayBuffer | null; // null when sealed inside the ciphertext
+  mode: EnvelopeMode;
+  signatureAlgorithm: SignatureAlgorithm;
+  verifyReason?: string;
   isSigned: boolean;
   isEncrypted: boolean;
   isTampered: boolean;
   isDecrypted: boolean;
   isVerified: boolean | null;
   isEve: boolean;
+  group?: GroupDelivery; // set on group messages, whose recipient is the group's name
+  readings?: Record<string, GroupReading>; // what each agent got out of a group message, by name
 }
 
-interface AgentsState {
-  alice: Agent;
-  bob: Agent;
-  eve: Agent;
+// Alice, Bob and Eve to start with, plus every recruit, keyed by lower-cased name
+type AgentsState = Record<string, Agent>;
+
+type AgentId = string;
+
+// Bubble colors for recruits, picked by name so each keeps theirs across reloads
+const RECRUIT_COLORS = ['bg-violet-700', 'bg-amber-700', 'bg-teal-700', 'bg-fuchsia-700', 'bg-indigo-700', 'bg-lime-700'];
+
+/**
+ * The bubble color of an agent who wasn't given one.
+ * @param {string} name The agent's name.
+ * @returns {string} A background class from RECRUIT_COLORS.
+ */
+const recruitColor = (name: string): string =>
+  RECRUIT_COLORS[[...name].reduce((sum, c) => sum + c.charCodeAt(0), 0) % RECRUIT_COLORS.length];
+
+/**
+ * An agent with no keys loaded yet.
+ * @param {string} name The agent's name, which also names their keys in the keyring.
+ * @param {string} avatar The emoji shown on their card.
+ * @param {string} color The background of their message bubbles.
+ * @returns {Agent} The agent.
+ */
+const blankAgent = (name: string, avatar: string, color = recruitColor(name)): Agent => ({
+  name, avatar, signingKeys: null, encryptionKeys: null, publicKeysPem: { signing: null, encryption: null }, isUser: false, color,
+});
+
+// A group conversation: one AES-256-GCM key per epoch, wrapped for each member on every message.
+// Removing a member starts a new epoch, so the keys they kept open nothing sent afterwards.
+interface Group {
+  id: string;
+  name: string;
+  members: string[]; // agent names
+  epoch: number;
+  key: CryptoKey;
+}
+
+// What travels with a group message besides the ciphertext
+interface GroupDelivery {
+  id: string;
+  epoch: number;
+  wrappedKeys: Record<string, ArrayBuffer>; // the epoch key, RSA-OAEP wrapped for each member
+}
+
+interface GroupReading {
+  text: string | null; // null when the reader holds no key for the message's epoch
+  verified: boolean;
+  reason: string;
+}
+
+const GROUP_RECIPIENT_PREFIX = 'group:';
+
+// A send held back until the sender confirms keys nobody verified: the typed message, or a game-mode mission
+type PendingSend = { kind: 'message' } | { kind: 'mission'; text: string };
+
+// What the encrypted archive holds: the messages, the groups with their current epoch key
+// in raw form so they can go on sending, and every agent's pinned contacts. Agent keys live in
+// the keyring, and an exported archive carries them too so its messages open in another browser.
+interface ArchiveContents {
+  messages: Message[];
+  groups: (Omit<Group, 'key'> & { key: ArrayBuffer })[];
+  directory?: Directory; // absent in archives saved before contacts were pinned
+  keys?: ArchivedKey[]; // exports only: a saved archive sits next to the keyring itself
+}
+
+/**
+ * Gathers what goes into the encrypted archive.
+ * @param {Message[]} messages The conversation.
+ * @param {Group[]} groups The groups, whose keys are exported raw.
+ * @param {Directory} directory Each agent's contacts and pinned keys.
+ * @returns {Promise<ArchiveContents>} The archive contents.
+ */
+const archiveContents = async (messages: Message[], groups: Group[], directory: Directory): Promise<ArchiveContents> => ({
+  messages,
+  groups: await Promise.all(groups.map(async (g) => ({ ...g, key: await window.crypto.subtle.exportKey('raw', g.key) }))),
+  directory,
+});
+
+// How an agent's card shows the active user's trust in that agent's keys
+const TRUST_STYLES: Record<TrustState, { icon: string; className: string }> = {
+  unknown: { icon: '❔', className: 'text-gray-400' },
+  tofu: { icon: '📌', className: 'text-yellow-300' },
+  verified: { icon: '✅', className: 'text-emerald-300' },
+  changed: { icon: '⚠️', className: 'text-red-300' },
+};
+
+// How signing and encryption are combined, and what an eavesdropper learns from each
+type EnvelopeMode = 'sign-and-encrypt' | 'sign-then-encrypt' | 'encrypt-then-sign';
+
+const ENVELOPE_MODES: Record<EnvelopeMode, { label: string; eveLearns: string }> = {
+  'sign-and-encrypt': {
+    label: 'Sign & encrypt',
+    eveLearns: 'The clear signature over the plaintext reveals the sender and lets Eve confirm plaintext guesses.',
+  },
+  'sign-then-encrypt': {
+    label: 'Sign-then-encrypt (sealed)',
+    eveLearns: 'Sender, signature and plaintext are all encrypted: Eve learns only the length.',
+  },
+  'encrypt-then-sign': {
+    label: 'Encrypt-then-sign',
+    eveLearns: 'The clear signature over the ciphertext reveals the sender, but nothing about the plaintext.',
+  },
+};
+
+// What sealing a message puts on the wire
+interface SealResult {
+  ciphertext: ArrayBuffer;
+  signature: ArrayBuffer | null; // null when sealed inside the ciphertext
+  signatureAlgorithm: SignatureAlgorithm;
+}
+
+// Marks a hybrid (RSA-OAEP wrapped AES-GCM) ciphertext envelope
+const HYBRID_MAGIC = new TextEncoder().encode('HYB1');
+
+// ' (2048-bit, SHA-256, e = 65537)' for RSA keys, '' for curve keys
+const rsaKeySuffix = (key: CryptoKey): string => {
+  const params = rsaParamsOf(key);
+  return params ? ` (${describeRsaParams(params)})` : '';
+};
+
+// A 5×5 mirrored pattern drawn from a key fingerprint, easier to compare by eye than digits
+function Identicon({ bytes, size = 40 }: { bytes: Uint8Array; size?: number }) {
+  const { color, cells } = identicon(bytes);
+  return (
+    <svg width={size} height={size} viewBox="0 0 5 5" className="rounded bg-gray-800 shrink-0" shapeRendering="crispEdges">
+      {cells.flatMap((row, y) => row.map((on, x) => on && <rect key={`${x}-${y}`} x={x} y={y} width={1} height={1} fill={color} />))}
+    </svg>
+  );
 }
 
 // --- Main App Component ---
 export default function App() {
   // --- Agent and Key State ---
   const [agents, setAgents] = useState<AgentsState>({
-    alice: { name: 'Alice', avatar: '👩‍💻', signingKeys: null, encryptionKeys: null, publicKeysPem: { signing: null, encryption: null }, isUser: true },
-    bob: { name: 'Bob', avatar: '👨‍💻', signingKeys: null, encryptionKeys: null, publicKeysPem: { signing: null, encryption: null }, isUser: false },
-    eve: { name: 'Eve', avatar: '😈', signingKeys: null, encryptionKeys: null, publicKeysPem: { signing: null, encryption: null }, isUser: false },
+    alice: { ...blankAgent('Alice', '👩‍💻', 'bg-emerald-700'), isUser: true },
+    bob: blankAgent('Bob', '👨‍💻', 'bg-sky-700'),
+    eve: blankAgent('Eve', '😈', 'bg-red-700'),
   });
+  const [recruitName, setRecruitName] = useState('');
 
   // --- Message and UI State ---
   const [messages, setMessages] = useState<Message[]>([]);
   const [inputMessage, setInputMessage] = useState('');
+  const [senderId, setSenderId] = useState<AgentId>('alice');
+  const [recipientId, setRecipientId] = useState<string>('bob'); // an agent id, or GROUP_RECIPIENT_PREFIX + a group id
   const [showKeys, setShowKeys] = useState(false);
   const [gameMode, setGameMode] = useState(false);
+  const [sendError, setSendError] = useState<string | null>(null);
+  const [envelopeMode, setEnvelopeMode] = useState<EnvelopeMode>('sign-then-encrypt');
+  const [signatureAlgorithm, setSignatureAlgorithm] = useState<SignatureAlgorithm>(LEGACY_SIGNATURE_ALGORITHM);
+  const [supportedSchemes, setSupportedSchemes] = useState<Partial<Record<SignatureScheme, boolean>>>({});
   const chatEndRef = useRef<HTMLDivElement>(null);
 
+  // --- Keyring State ---
+  const [keyringEntries, setKeyringEntries] = useState<KeyringEntry[]>([]);
+  const [activeKeyIds, setActiveKeyIds] = useState<Record<string, string | undefined>>({});
+  const [keyringVersion, setKeyringVersion] = useState(0);
+  const [nonExtractable, setNonExtractable] = useState(false);
+  // The last failure to load or change keys, and whether a scheme switch is under way
+  const [keyError, setKeyError] = useState<string | null>(null);
+  const [schemeSwitching, setSchemeSwitching] = useState(false);
+
+  // --- Key Generation Settings ---
+  const [keyParams, setKeyParams] = useState<RsaKeyParams>(DEFAULT_RSA_PARAMS);
+  const [regenerating, setRegenerating] = useState(false);
+  const [regenerateMs, setRegenerateMs] = useState<number | null>(null);
+
+  // --- Key Display Format ---
+  const [keyFormat, setKeyFormat] = useState<KeyFormat>('spki-pem');
+  const [formattedKeys, setFormattedKeys] = useState<Record<string, { signing: string; encryption: string }>>({});
+
+  // --- Key Fingerprints (RFC 7638 thumbprint of each agent's signing key) ---
+  const [fingerprints, setFingerprints] = useState<Record<string, KeyFingerprints>>({});
+  const [aliceBobSafetyNumber, setAliceBobSafetyNumber] = useState<string | null>(null);
+
+  // --- Group State ---
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [newGroupName, setNewGroupName] = useState('');
+
+  // --- Encrypted History State ---
+  // The unlocked archive key; nothing is shown until there is one. Saves run one after another.
+  const [vault, setVault] = useState<ArchiveKey | null>(null);
+  const [archiveError, setArchiveError] = useState<string | null>(null);
+  const [exportNote, setExportNote] = useState<string | null>(null);
+  const saving = useRef(Promise.resolve());
+  const [newGroupMembers, setNewGroupMembers] = useState<string[]>([]);
+
+  // --- Contact Directory State ---
+  // The keys each agent has pinned for the others, and whether the sender was asked about unverified ones
+  const [directory, setDirectory] = useState<Directory>({});
+  const [confirmUnverified, setConfirmUnverified] = useState<PendingSend | null>(null);
+
   // --- RSA Utility Functions (using Web Crypto API) ---
 
   /**
-   * Generates a new RSA key pair for signing and verification.
+   * Generates a new key pair for signing and verification.
+   * @param {boolean} extractable Whether the private key may be exported.
+   * @param {SignatureScheme} scheme RSASSA-PKCS1-v1_5, RSA-PSS, ECDSA (P-256/P-384) or Ed25519.
+   * @param {RsaKeyParams} params Modulus size, hash and public exponent (RSA schemes only).
    * @returns {Promise<CryptoKeyPair>} A promise that resolves with the key pair.
    */
-  const generateSigningKeypair = async (): Promise<CryptoKeyPair> => {
-    return window.crypto.subtle.generateKey(
-      {
-        name: 'RSASSA-PKCS1-v1_5',
-        modulusLength: 2048,
-        publicExponent: new Uint8Array([1, 0, 1]),
-        hash: 'SHA-256',
-      },
-      true, // Can be exported
-      ['sign', 'verify']
-    );
+  const generateSigningKeypair = async (
+    extractable = true,
+    scheme: SignatureScheme = 'RSASSA-PKCS1-v1_5',
+    params: RsaKeyParams = DEFAULT_RSA_PARAMS,
+  ): Promise<CryptoKeyPair> => {
+    // Public key is always exportable
+    return generateSignatureKeyPair(scheme, extractable, params);
   };
 
   /**
    * Generates a new RSA key pair for encryption and decryption.
+   * @param {boolean} extractable Whether the private key may be exported.
+   * @param {RsaKeyParams} params Modulus size, hash and public exponent.
    * @returns {Promise<CryptoKeyPair>} A promise that resolves with the key pair.
    */
-  const generateEncryptionKeypair = async (): Promise<CryptoKeyPair> => {
-    return window.crypto.subtle.generateKey(
-      {
-        name: 'RSA-OAEP',
-        modulusLength: 2048,
-        publicExponent: new Uint8Array([1, 0, 1]),
-        hash: 'SHA-256',
-      },
-      true, // Can be exported
-      ['encrypt', 'decrypt']
-    );
+  const generateEncryptionKeypair = async (extractable = true, params: RsaKeyParams = DEFAULT_RSA_PARAMS): Promise<CryptoKeyPair> => {
+    return generateEncryptionKeyPair(extractable, params);
   };
 
   /**
@@ -107,32 +328,56 @@ export default function App() {
   };
 
   /**
-   * Encrypts a message using an encryption public key.
-   * @param {CryptoKey} publicKey The public key for encryption.
+   * Encrypts a message of any length as a hybrid envelope:
+   * 'HYB1' | wrapped key length (2 bytes) | RSA-OAEP wrapped AES key | 12-byte IV | AES-GCM ciphertext.
+   * @param {CryptoKey} publicKey The public key that wraps the AES key.
    * @param {string} message The message to encrypt.
-   * @returns {Promise<ArrayBuffer>} The encrypted message as an ArrayBuffer.
+   * @returns {Promise<ArrayBuffer>} The envelope as an ArrayBuffer.
    */
   const encryptWithPublicKey = async (publicKey: CryptoKey, message: string): Promise<ArrayBuffer> => {
+    const params = rsaParamsOf(publicKey);
+    const limit = params ? oaepMaxPlaintext(params.modulusLength, params.hash) : 0;
+    if (limit < 32) throw new Error(`The recipient key's RSA-OAEP limit (${Math.max(0, limit)} bytes) is too small to wrap a 32-byte AES key`);
     const encodedMessage = stringToArrayBuffer(message);
-    return window.crypto.subtle.encrypt(
-      { name: 'RSA-OAEP' },
-      publicKey,
-      encodedMessage
-    );
+    const aesKey = await window.crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+    const iv = window.crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = new Uint8Array(await window.crypto.subtle.encrypt({ name: 'AES-GCM', iv }, aesKey, encodedMessage));
+    const rawKey = await window.crypto.subtle.exportKey('raw', aesKey);
+    const wrappedKey = new Uint8Array(await window.crypto.subtle.encrypt({ name: 'RSA-OAEP' }, publicKey, rawKey));
+
+    const envelope = new Uint8Array(HYBRID_MAGIC.length + 2 + wrappedKey.length + iv.length + ciphertext.length);
+    let offset = 0;
+    envelope.set(HYBRID_MAGIC, offset); offset += HYBRID_MAGIC.length;
+    new DataView(envelope.buffer).setUint16(offset, wrappedKey.length); offset += 2;
+    envelope.set(wrappedKey, offset); offset += wrappedKey.length;
+    envelope.set(iv, offset); offset += iv.length;
+    envelope.set(ciphertext, offset);
+    return envelope.buffer;
   };
 
   /**
-   * Decrypts a message using a decryption private key.
+   * Decrypts a message using a decryption private key. Legacy messages (raw RSA-OAEP,
+   * exactly one modulus long) are still accepted alongside hybrid envelopes.
    * @param {CryptoKey} privateKey The private key for decryption.
    * @param {ArrayBuffer} encryptedMessage The message to decrypt.
    * @returns {Promise<string>} The decrypted message as a string.
    */
   const decryptWithPrivateKey = async (privateKey: CryptoKey, encryptedMessage: ArrayBuffer): Promise<string> => {
-    const decryptedBuffer = await window.crypto.subtle.decrypt(
-      { name: 'RSA-OAEP' },
-      privateKey,
-      encryptedMessage
-    );
+    const bytes = new Uint8Array(encryptedMessage);
+    const modulusBytes = (privateKey.algorithm as RsaHashedKeyAlgorithm).modulusLength / 8;
+    if (bytes.length === modulusBytes) {
+      const decryptedBuffer = await window.crypto.subtle.decrypt({ name: 'RSA-OAEP' }, privateKey, encryptedMessage);
+      return arrayBufferToString(decryptedBuffer);
+    }
+    if (!HYBRID_MAGIC.every((b, i) => bytes[i] === b)) throw new Error('Unknown ciphertext format');
+
+    let offset = HYBRID_MAGIC.length;
+    const wrappedLength = new DataView(encryptedMessage).getUint16(offset); offset += 2;
+    const wrappedKey = bytes.slice(offset, offset + wrappedLength); offset += wrappedLength;
+    const iv = bytes.slice(offset, offset + 12); offset += 12;
+    const rawKey = await window.crypto.subtle.decrypt({ name: 'RSA-OAEP' }, privateKey, wrappedKey);
+    const aesKey = await window.crypto.subtle.importKey('raw', rawKey, { name: 'AES-GCM' }, false, ['decrypt']);
+    const decryptedBuffer = await window.crypto.subtle.decrypt({ name: 'AES-GCM', iv }, aesKey, bytes.slice(offset));
     return arrayBufferToString(decryptedBuffer);
   };
 
@@ -140,15 +385,12 @@ export default function App() {
    * Signs a message with a signing private key.
    * @param {CryptoKey} privateKey The private key for signing.
    * @param {string} message The message to sign.
+   * @param {SignatureAlgorithm} algorithm The scheme (and RSA-PSS salt length) to sign with.
    * @returns {Promise<ArrayBuffer>} The signature.
    */
-  const signMessage = async (privateKey: CryptoKey, message: string): Promise<ArrayBuffer> => {
-    const encodedMessage = stringToArrayBuffer(message);
-    return window.crypto.subtle.sign(
-      { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
-      privateKey,
-      encodedMessage
-    );
+  const signMessage = async (privateKey: CryptoKey, message: string, algorithm: SignatureAlgorithm): Promise<ArrayBuffer> => {
+    const encodedMessage = new Uint8Array(stringToArrayBuffer(message));
+    return base64ToArrayBuffer(await signWith(algorithm, privateKey, encodedMessage));
   };
 
   /**
@@ -156,71 +398,135 @@ export default function App() {
    * @param {CryptoKey} publicKey The public key for verification.
    * @param {ArrayBuffer} signature The signature to verify.
    * @param {string} message The original message.
-   * @returns {Promise<boolean>} True if the signature is valid, false otherwise.
+   * @param {SignatureAlgorithm} algorithm The algorithm recorded with the signature.
+   * @returns {Promise<SignatureCheck>} Whether the signature is valid, and why (e.g. the wrong algorithm).
    */
-  const verifySignature = async (publicKey: CryptoKey, signature: ArrayBuffer, message: string): Promise<boolean> => {
-    const encodedMessage = stringToArrayBuffer(message);
-    return window.crypto.subtle.verify(
-      { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
-      publicKey,
-      signature,
-      encodedMessage
-    );
-  };
-
-  /**
-   * Exports a public key to PEM format for display.
-   * @param {CryptoKey} key The key to export.
-   * @returns {Promise<string>} The key in PEM format.
-   */
-  const exportPublicKeyPem = async (key: CryptoKey, usage: 'sign' | 'encrypt'): Promise<string> => {
-    const exported = await window.crypto.subtle.exportKey(usage === 'sign' ? 'spki' : 'spki', key);
-    const pem = btoa(String.fromCharCode(...new Uint8Array(exported)));
-    const header = usage === 'sign' ? 'BEGIN PUBLIC KEY' : 'BEGIN PUBLIC KEY';
-    const footer = usage === 'sign' ? 'END PUBLIC KEY' : 'END PUBLIC KEY';
-    return `-----${header}-----\n${pem}\n-----${footer}-----`;
+  const verifySignature = async (publicKey: CryptoKey, signature: ArrayBuffer, message: string, algorithm: SignatureAlgorithm): Promise<SignatureCheck> => {
+    const encodedMessage = new Uint8Array(stringToArrayBuffer(message));
+    return verifyWith(algorithm, publicKey, encodedMessage, arrayBufferToBase64(signature));
   };
 
-  // --- Initial Setup on Component Mount ---
+  // --- Load (or create on first run) each agent's active keys from the keyring ---
   useEffect(() => {
     const setupAgents = async () => {
       try {
-        const [
-          aliceSigningKeys, aliceEncryptionKeys,
-          bobSigningKeys, bobEncryptionKeys,
-          eveSigningKeys, eveEncryptionKeys,
-        ] = await Promise.all([
-          generateSigningKeypair(), generateEncryptionKeypair(),
-          generateSigningKeypair(), generateEncryptionKeypair(),
-          generateSigningKeypair(), generateEncryptionKeypair(),
-        ]);
-        
-        // Export public keys to PEM format for display
-        const [
-          aliceSigningPem, aliceEncryptionPem,
-          bobSigningPem, bobEncryptionPem,
-          eveSigningPem, eveEncryptionPem,
-        ] = await Promise.all([
-          exportPublicKeyPem(aliceSigningKeys.publicKey, 'sign'),
-          exportPublicKeyPem(aliceEncryptionKeys.publicKey, 'encrypt'),
-          exportPublicKeyPem(bobSigningKeys.publicKey, 'sign'),
-          exportPublicKeyPem(bobEncryptionKeys.publicKey, 'encrypt'),
-          exportPublicKeyPem(eveSigningKeys.publicKey, 'sign'),
-          exportPublicKeyPem(eveEncryptionKeys.publicKey, 'encrypt'),
-        ]);
+        const loadAgent = async (agent: Agent): Promise<Agent> => {
+          const [signing, encryption] = await Promise.all([
+            ensureActiveKey(agent.name, 'sign', () => generateSigningKeypair()),
+            ensureActiveKey(agent.name, 'encrypt', () => generateEncryptionKeypair()),
+          ]);
+          // Export public keys to PEM format for display
+          const [signingPem, encryptionPem] = await Promise.all([
+            exportKeyAs(signing.publicKey, 'spki-pem'),
+            exportKeyAs(encryption.publicKey, 'spki-pem'),
+          ]);
+          return {
+            ...agent,
+            signingKeys: { publicKey: signing.publicKey, privateKey: signing.privateKey },
+            encryptionKeys: { publicKey: encryption.publicKey, privateKey: encryption.privateKey },
+            publicKeysPem: { signing: signingPem, encryption: encryptionPem },
+          };
+        };
 
-        setAgents({
-          alice: { ...agents.alice, signingKeys: aliceSigningKeys, encryptionKeys: aliceEncryptionKeys, publicKeysPem: { signing: aliceSigningPem, encryption: aliceEncryptionPem } },
-          bob: { ...agents.bob, signingKeys: bobSigningKeys, encryptionKeys: bobEncryptionKeys, publicKeysPem: { signing: bobSigningPem, encryption: bobEncryptionPem } },
-          eve: { ...agents.eve, signingKeys: eveSigningKeys, encryptionKeys: eveEncryptionKeys, publicKeysPem: { signing: eveSigningPem, encryption: eveEncryptionPem } },
-        });
+        // Anyone else who owns keys in the keyring is a recruit
+        const known = new Set(Object.values(agents).map((agent) => agent.name));
+        const recruits = [...new Set((await listKeys()).map((entry) => entry.owner))]
+          .filter((owner) => !known.has(owner))
+          .map((owner) => blankAgent(owner, '🕵️'));
+        const loaded = await Promise.all([...Object.values(agents), ...recruits].map(loadAgent));
+        setAgents(Object.fromEntries(loaded.map((agent) => [agent.name.toLowerCase(), agent])));
+        const alice = loaded.find((agent) => agent.name === 'Alice');
+        if (!alice) return;
+        // Alice's active signing key decides the scheme (the keyring can switch keys)
+        const scheme = alice.signingKeys ? schemeOfKey(alice.signingKeys.publicKey) : null;
+        setSignatureAlgorithm((prev) => (!scheme || prev.scheme === scheme ? prev : { scheme }));
+
+        const entries = await listKeys();
+        const ids: Record<string, string | undefined> = {};
+        for (const agent of loaded) {
+          for (const purpose of ['encrypt', 'sign'] as KeyPurpose[]) {
+            ids[`${agent.name}:${purpose}`] = await getActiveKeyId(agent.name, purpose);
+          }
+        }
+        setKeyringEntries(entries);
+        setActiveKeyIds(ids);
       } catch (error) {
-        console.error("Failed to generate keys:", error);
+        setKeyError(`Loading the keys failed: ${error instanceof Error ? error.message : String(error)}`);
       }
     };
     setupAgents();
+  }, [keyringVersion]);
+
+  // --- Find out which signature schemes this browser supports (Ed25519 is the usual gap) ---
+  useEffect(() => {
+    SIGNATURE_SCHEMES.forEach((scheme) => {
+      isSchemeSupported(scheme).then((ok) => setSupportedSchemes((prev) => ({ ...prev, [scheme]: ok })));
+    });
   }, []);
 
+  // --- Re-render every agent's public keys whenever the display format changes ---
+  useEffect(() => {
+    if (!showKeys) return;
+    const formatKeys = async () => {
+      const next: Record<string, { signing: string; encryption: string }> = {};
+      for (const agent of Object.values(agents)) {
+        if (!agent.signingKeys || !agent.encryptionKeys) continue;
+        next[agent.name] = {
+          // Only RSA keys have PKCS#1 and ssh-rsa forms
+          signing: await exportKeyAs(agent.signingKeys.publicKey, keyFormat, `${agent.name.toLowerCase()}-signing`)
+            .catch((error: Error) => `Not available as ${KEY_FORMAT_LABELS[keyFormat]}: ${error.message}`),
+          encryption: await exportKeyAs(agent.encryptionKeys.publicKey, keyFormat, `${agent.name.toLowerCase()}-encryption`),
+        };
+      }
+      setFormattedKeys(next);
+    };
+    formatKeys();
+  }, [showKeys, keyFormat, agents]);
+
+  // --- Fingerprint every agent, and the Alice–Bob safety number, whenever keys change ---
+  useEffect(() => {
+    const { alice, bob } = agents;
+    const computeFingerprints = async () => {
+      const next: Record<string, KeyFingerprints> = {};
+      for (const agent of Object.values(agents)) {
+        if (agent.signingKeys) next[agent.name] = await fingerprintKey(agent.signingKeys.publicKey);
+      }
+      setFingerprints(next);
+      if (alice.signingKeys && alice.encryptionKeys && bob.signingKeys && bob.encryptionKeys) {
+        setAliceBobSafetyNumber(await safetyNumber(
+          { id: alice.name, keys: [alice.encryptionKeys.publicKey, alice.signingKeys.publicKey] },
+          { id: bob.name, keys: [bob.encryptionKeys.publicKey, bob.signingKeys.publicKey] },
+        ));
+      }
+    };
+    computeFingerprints();
+  }, [agents]);
+
+  // --- Every agent pins the keys published for the others on first sight, and notices when they change ---
+  useEffect(() => {
+    if (!vault) return;
+    const observePublishedKeys = async () => {
+      const published: Record<string, PinnedKeys> = {};
+      for (const agent of Object.values(agents)) {
+        if (!agent.signingKeys || !agent.encryptionKeys) continue;
+        const [encrypt, sign] = await Promise.all([fingerprintKey(agent.encryptionKeys.publicKey), fingerprintKey(agent.signingKeys.publicKey)]);
+        published[agent.name] = { encrypt: encrypt.hex, sign: sign.hex };
+      }
+      setDirectory((prev) => {
+        let next = prev;
+        for (const holder of Object.keys(published)) {
+          for (const [name, keys] of Object.entries(published)) {
+            const contact = next[holder]?.[name];
+            const seen = name === holder ? contact : observeKeys(contact, keys);
+            if (seen && seen !== contact) next = withContact(next, holder, name, seen);
+          }
+        }
+        return next;
+      });
+    };
+    observePublishedKeys();
+  }, [agents, vault]);
+
   // --- Autoscroll to the bottom of the chat window ---
   useEffect(() => {
     if (chatEndRef.current) {
@@ -228,62 +534,407 @@ export default function App() {
     }
   }, [messages]);
 
+  // --- Seal every change back into the encrypted archive ---
+  useEffect(() => {
+    if (!vault) return;
+    saving.current = saving.current
+      .then(async () => {
+        await saveArchive(await sealArchive(vault, await archiveContents(messages, groups, directory)));
+        setArchiveError(null);
+      })
+      .catch((err) => setArchiveError(err instanceof Error ? err.message : String(err)));
+  }, [vault, messages, groups, directory]);
+
   // --- Event Handlers ---
 
   /**
-   * Handles sending a message from Alice to Bob.
+   * Restores the conversation from an unlocked archive, or starts afresh.
+   * @param {ArchiveKey} archiveKey The key the archive is sealed under from now on.
+   * @param {ArchiveContents | null} contents What was saved, or null for a new archive.
+   */
+  const handleUnlock = async (archiveKey: ArchiveKey, contents: ArchiveContents | null) => {
+    if (contents) {
+      setMessages(contents.messages);
+      setGroups(await Promise.all(contents.groups.map(async (g) => ({
+        ...g,
+        key: await window.crypto.subtle.importKey('raw', g.key, 'AES-GCM', true, ['encrypt', 'decrypt']),
+      }))));
+      setDirectory(contents.directory ?? {});
+      if (contents.keys) {
+        await importKeys(contents.keys);
+        setKeyringVersion((v) => v + 1);
+      }
+    }
+    setVault(archiveKey);
+  };
+
+  /**
+   * Forgets the unlocked conversation; it comes back from the archive with the passphrase.
+   */
+  const handleLock = () => {
+    setVault(null);
+    setExportNote(null);
+    setMessages([]);
+    setGroups([]);
+    setDirectory({});
+  };
+
+  /**
+   * Downloads the encrypted archive, still sealed under the passphrase, with the keyring in it
+   * so the conversation can be read anywhere else.
+   */
+  const handleExportArchive = async () => {
+    if (!vault) return;
+    try {
+      const { keys, leftOut } = await exportKeys();
+      const file = await sealArchive(vault, { ...(await archiveContents(messages, groups, directory)), keys });
+      setExportNote(leftOut.length ? `Exported without ${leftOut.map((k) => k.label).join(', ')}: non-extractable keys can't leave this browser` : null);
+      downloadBlob(new Blob([serializeArchive(file)], { type: 'application/json' }), `secret-agent-messenger${ARCHIVE_EXTENSION}`);
+    } catch (err) {
+      setArchiveError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  /**
+   * Encrypts a message to one agent and signs it as another in the chosen envelope mode.
+   * @param {string} text The plaintext.
+   * @param {Agent} from The sender, whose private key signs.
+   * @param {Agent} to The recipient, whose public key encrypts.
+   * @returns {Promise<SealResult>} What goes on the wire, and the algorithm it was signed with.
+   */
+  const sealMessage = async (text: string, from: Agent, to: Agent): Promise<SealResult> => {
+    if (!to.encryptionKeys || !from.signingKeys) throw new Error('Keys are not ready');
+    const toKey = to.encryptionKeys.publicKey;
+    const fromKey = from.signingKeys.privateKey;
+    // An RSA key is bound to its hash, so record that alongside the scheme
+    const alg = algorithmForKey(signatureAlgorithm, fromKey);
+    switch (envelopeMode) {
+      case 'sign-and-encrypt':
+        return {
+          ciphertext: await encryptWithPublicKey(toKey, text),
+          signature: await signMessage(fromKey, text, alg),
+          signatureAlgorithm: alg,
+        };
+      case 'sign-then-encrypt': {
+        // Sender and recipient are signed too, so the recipient can't re-encrypt it to someone else as the sender's
+        const signed = JSON.stringify({ sender: from.name, recipient: to.name, text });
+        const signature = await signMessage(fromKey, signed, alg);
+        const sealed = JSON.stringify({ sender: from.name, recipient: to.name, text, signature: btoa(String.fromCharCode(...new Uint8Array(signature))), alg });
+        return { ciphertext: await encryptWithPublicKey(toKey, sealed), signature: null, signatureAlgorithm: alg };
+      }
+      case 'encrypt-then-sign': {
+        const ciphertext = await encryptWithPublicKey(toKey, text);
+        const ciphertextB64 = btoa(String.fromCharCode(...new Uint8Array(ciphertext)));
+        return { ciphertext, signature: await signMessage(fromKey, ciphertextB64, alg), signatureAlgorithm: alg };
+      }
+    }
+  };
+
+  /**
+   * Decrypts a message as its recipient and checks the sender's signature according to its envelope mode.
+   * @param {Message} message The received message.
+   * @returns {Promise<{ text: string; verified: boolean; reason: string }>} The plaintext and signature result.
+   */
+  const openMessage = async (message: Message): Promise<{ text: string; verified: boolean; reason: string }> => {
+    const from = agentNamed(message.sender);
+    const to = agentNamed(message.recipient);
+    if (!to?.encryptionKeys || !from?.signingKeys) throw new Error('Keys are not ready');
+    const toKey = to.encryptionKeys.privateKey;
+    const fromKey = from.signingKeys.publicKey;
+    const check = async (signature: ArrayBuffer | null, signed: string, alg: SignatureAlgorithm): Promise<SignatureCheck> =>
+      signature ? verifySignature(fromKey, signature, signed, alg) : { valid: false, reason: 'Message carries no signature' };
+    switch (message.mode) {
+      case 'sign-and-encrypt': {
+        const text = await decryptWithPrivateKey(toKey, message.ciphertext);
+        const { valid, reason } = await check(message.signature, text, message.signatureAlgorithm);
+        return { text, verified: valid, reason };
+      }
+      case 'sign-then-encrypt': {
+        const sealed = JSON.parse(await decryptWithPrivateKey(toKey, message.ciphertext));
+        if (sealed.sender !== message.sender || sealed.recipient !== message.recipient) {
+          return { text: sealed.text, verified: false, reason: `Sealed as ${sealed.sender} → ${sealed.recipient}, not ${message.sender} → ${message.recipient}` };
+        }
+        const signature = Uint8Array.from(atob(sealed.signature), (c) => c.charCodeAt(0)).buffer;
+        const signed = JSON.stringify({ sender: sealed.sender, recipient: sealed.recipient, text: sealed.text });
+        const { valid, reason } = await check(signature, signed, sealed.alg ?? LEGACY_SIGNATURE_ALGORITHM);
+        return { text: sealed.text, verified: valid, reason };
+      }
+      case 'encrypt-then-sign': {
+        const ciphertextB64 = btoa(String.fromCharCode(...new Uint8Array(message.ciphertext)));
+        const { valid, reason } = await check(message.signature, ciphertextB64, message.signatureAlgorithm);
+        return { text: await decryptWithPrivateKey(toKey, message.ciphertext), verified: valid, reason };
+      }
+    }
+  };
+
+  /**
+   * Finds an agent by display name.
+   * @param {string} name The agent's name, as recorded on a message.
+   * @returns {Agent | undefined} The agent, if there is one by that name.
+   */
+  const agentNamed = (name: string): Agent | undefined => Object.values(agents).find((a: Agent) => a.name === name);
+
+  /**
+   * Makes an agent the active user, moving the recipient off them if needed.
+   * @param {AgentId} id The agent who sends from now on.
+   */
+  const handleSelectSender = (id: AgentId) => {
+    setSenderId(id);
+    setConfirmUnverified(null);
+    setAgents((prev) => Object.fromEntries(Object.entries(prev).map(([key, agent]) => [key, { ...agent, isUser: key === id }])));
+    if (id === recipientId) setRecipientId(Object.keys(agents).find((other) => other !== id) ?? recipientId);
+  };
+
+  /**
+   * How far an agent trusts the keys a message would be encrypted to.
+   * @param {string} holder The sender's name, whose directory is consulted.
+   * @param {string} target An agent id, or GROUP_RECIPIENT_PREFIX + a group id.
+   * @returns {{ name: string; trust: TrustState }[]} Each recipient other than the sender, with their trust state.
+   */
+  const recipientTrust = (holder: string, target: string): { name: string; trust: TrustState }[] => {
+    const group = groups.find((g) => GROUP_RECIPIENT_PREFIX + g.id === target);
+    const names = group ? group.members : agents[target] ? [agents[target].name] : [];
+    return names.filter((name) => name !== holder).map((name) => ({ name, trust: trustOf(directory[holder]?.[name]) }));
+  };
+
+  /**
+   * Records that the active user compared a contact's fingerprints out of band.
+   * @param {string} name The contact whose pinned keys were checked.
+   */
+  const handleMarkVerified = (name: string) => {
+    const holder = agents[senderId].name;
+    setDirectory((prev) => {
+      const contact = prev[holder]?.[name];
+      return contact && !contact.changed ? withContact(prev, holder, name, markVerified(contact)) : prev;
+    });
+  };
+
+  /**
+   * Pins a contact's changed keys in place of the old ones. They start out unverified again.
+   * @param {string} name The contact whose new keys the active user accepts.
+   */
+  const handleAcceptKeyChange = (name: string) => {
+    const holder = agents[senderId].name;
+    setDirectory((prev) => {
+      const contact = prev[holder]?.[name];
+      return contact?.changed ? withContact(prev, holder, name, acceptChangedKeys(contact)) : prev;
+    });
+  };
+
+  /**
+   * Creates an agent with fresh keys from the current settings; the keyring reload picks them up.
+   */
+  const handleRecruitAgent = () => {
+    const name = recruitName.trim();
+    if (!name || agents[name.toLowerCase()]) return;
+    setRecruitName('');
+    updateKeyring(async () => {
+      await Promise.all([
+        ensureActiveKey(name, 'sign', () => generateSigningKeypair(!nonExtractable, signatureAlgorithm.scheme, keyParams)),
+        ensureActiveKey(name, 'encrypt', () => generateEncryptionKeypair(!nonExtractable, keyParams)),
+      ]);
+    });
+  };
+
+  /**
+   * Encrypts a message once under a group's epoch key, wraps that key for every member,
+   * and seals the sender's signature inside.
+   * @param {string} text The plaintext.
+   * @param {Agent} from The sender, who must be a member.
+   * @param {Group} group The group it goes to.
+   * @returns {Promise<{ ciphertext: ArrayBuffer; signatureAlgorithm: SignatureAlgorithm; delivery: GroupDelivery }>} The 12-byte IV and AES-GCM ciphertext, and the wrapped keys.
+   */
+  const sealGroupMessage = async (text: string, from: Agent, group: Group) => {
+    if (!from.signingKeys) throw new Error('Keys are not ready');
+    if (!group.members.includes(from.name)) throw new Error(`${from.name} is not in ${group.name}`);
+    const alg = algorithmForKey(signatureAlgorithm, from.signingKeys.privateKey);
+    // The group and epoch are signed too, so a member can't replay it into another group as the sender's
+    const signed = JSON.stringify({ sender: from.name, group: group.id, epoch: group.epoch, text });
+    const signature = await signMessage(from.signingKeys.privateKey, signed, alg);
+    const sealed = JSON.stringify({ sender: from.name, text, signature: btoa(String.fromCharCode(...new Uint8Array(signature))), alg });
+    const iv = window.crypto.getRandomValues(new Uint8Array(12));
+    const body = new Uint8Array(await window.crypto.subtle.encrypt({ name: 'AES-GCM', iv }, group.key, stringToArrayBuffer(sealed)));
+    const ciphertext = new Uint8Array(iv.length + body.length);
+    ciphertext.set(iv);
+    ciphertext.set(body, iv.length);
+
+    const rawKey = await window.crypto.subtle.exportKey('raw', group.key);
+    const wrappedKeys: Record<string, ArrayBuffer> = {};
+    for (const member of group.members) {
+      const publicKey = agentNamed(member)?.encryptionKeys?.publicKey;
+      if (!publicKey) throw new Error(`No encryption key for ${member}`);
+      wrappedKeys[member] = await window.crypto.subtle.encrypt({ name: 'RSA-OAEP' }, publicKey, rawKey);
+    }
+    return { ciphertext: ciphertext.buffer, signatureAlgorithm: alg, delivery: { id: group.id, epoch: group.epoch, wrappedKeys } };
+  };
+
+  /**
+   * Tries to read a group message as any agent. The epoch key may come from this message or from
+   * any other message of the same epoch that was wrapped for them.
+   * @param {number} messageId The group message.
+   * @param {string} readerName The agent trying to read it.
+   */
+  const handleReadGroupMessage = async (messageId: number, readerName: string) => {
+    const message = messages.find((m) => m.id === messageId);
+    const reader = agentNamed(readerName);
+    const delivery = message?.group;
+    if (!message || !delivery || !reader?.encryptionKeys) return;
+    let reading: GroupReading;
+    const wrapped = delivery.wrappedKeys[readerName] ?? messages
+      .map((m) => m.group)
+      .find((g) => g && g.id === delivery.id && g.epoch === delivery.epoch && g.wrappedKeys[readerName])
+      ?.wrappedKeys[readerName];
+    if (!wrapped) {
+      reading = { text: null, verified: false, reason: `No epoch ${delivery.epoch} key was ever wrapped for ${readerName}` };
+    } else {
+      try {
+        const rawKey = await window.crypto.subtle.decrypt({ name: 'RSA-OAEP' }, reader.encryptionKeys.privateKey, wrapped);
+        const key = await window.crypto.subtle.importKey('raw', rawKey, { name: 'AES-GCM' }, false, ['decrypt']);
+        const bytes = new Uint8Array(message.ciphertext);
+        const sealed = JSON.parse(arrayBufferToString(await window.crypto.subtle.decrypt({ name: 'AES-GCM', iv: bytes.slice(0, 12) }, key, bytes.slice(12))));
+        const signerKey = agentNamed(sealed.sender)?.signingKeys?.publicKey;
+        const signed = JSON.stringify({ sender: sealed.sender, group: delivery.id, epoch: delivery.epoch, text: sealed.text });
+        const signature = Uint8Array.from(atob(sealed.signature), (c) => c.charCodeAt(0)).buffer;
+        const { valid, reason } = signerKey
+          ? await verifySignature(signerKey, signature, signed, sealed.alg)
+          : { valid: false, reason: `No signing key for ${sealed.sender}` };
+        const via = delivery.wrappedKeys[readerName] ? '' : ' (key from another message of this epoch)';
+        reading = { text: sealed.text, verified: valid, reason: reason + via };
+      } catch {
+        reading = { text: null, verified: false, reason: 'Decryption failed' };
+      }
+    }
+    setMessages((prev) => prev.map((m) => (m.id === messageId ? { ...m, readings: { ...m.readings, [readerName]: reading } } : m)));
+  };
+
+  /**
+   * Starts a group with its first epoch key.
+   */
+  const handleCreateGroup = async () => {
+    const name = newGroupName.trim();
+    if (!name || newGroupMembers.length < 2) return;
+    const key = await window.crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+    const group: Group = { id: crypto.randomUUID(), name, members: newGroupMembers, epoch: 1, key };
+    setGroups((prev) => [...prev, group]);
+    setNewGroupName('');
+    setNewGroupMembers([]);
+  };
+
+  /**
+   * Adds or removes a group member. Removal rotates the key to a new epoch; a newcomer
+   * simply receives the current key with the next message.
+   * @param {Group} group The group to change.
+   * @param {string} member The agent's name.
+   * @param {boolean} add Whether they join or leave.
+   */
+  const handleGroupMember = async (group: Group, member: string, add: boolean) => {
+    const next = add
+      ? { ...group, members: [...group.members, member] }
+      : {
+        ...group,
+        members: group.members.filter((m) => m !== member),
+        epoch: group.epoch + 1,
+        key: await window.crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']),
+      };
+    setGroups((prev) => prev.map((g) => (g.id === group.id ? next : g)));
+  };
+
+  /**
+   * Handles sending a message from the active user to the chosen recipient. A changed key
+   * blocks sending until it is accepted, and an unverified one has to be confirmed first.
    * @param {FormEvent} e The form event.
+   * @param {boolean} confirmed Whether the sender already agreed to use unverified keys.
    */
-  const handleSendMessage = async (e: FormEvent) => {
+  const handleSendMessage = async (e: FormEvent, confirmed = false) => {
     e.preventDefault();
-    if (!inputMessage.trim() || !agents.bob.encryptionKeys || !agents.alice.signingKeys) return;
-    
-    // Encrypt the message with Bob's public encryption key
-    const encryptedData = await encryptWithPublicKey(agents.bob.encryptionKeys.publicKey, inputMessage);
-    // Sign the message with Alice's private signing key
-    const signature = await signMessage(agents.alice.signingKeys.privateKey, inputMessage);
+    const from = agents[senderId];
+    if (!inputMessage.trim()) return;
+    const trust = recipientTrust(from.name, recipientId);
+    if (trust.some((t) => t.trust === 'changed')) return;
+    if (!confirmed && trust.some((t) => t.trust !== 'verified')) {
+      setConfirmUnverified({ kind: 'message' });
+      return;
+    }
+    setConfirmUnverified(null);
+    const group = groups.find((g) => GROUP_RECIPIENT_PREFIX + g.id === recipientId);
+    if (group) {
+      if (!inputMessage.trim()) return;
+      try {
+        const { ciphertext, signatureAlgorithm: algorithm, delivery } = await sealGroupMessage(inputMessage, from, group);
+        setMessages((prev) => [...prev, {
+          id: Date.now(),
+          sender: from.name,
+          recipient: group.name,
+          originalText: inputMessage,
+          ciphertext,
+          signature: null,
+          mode: 'sign-then-encrypt',
+          signatureAlgorithm: algorithm,
+          isSigned: true,
+          isEncrypted: true,
+          isTampered: false,
+          isDecrypted: false,
+          isVerified: null,
+          isEve: false,
+          group: delivery,
+        }]);
+        setInputMessage('');
+        setSendError(null);
+      } catch (error) {
+        setSendError(error instanceof Error ? error.message : String(error));
+      }
+      return;
+    }
+    const to = agents[recipientId];
+    if (!inputMessage.trim() || !to?.encryptionKeys || !from.signingKeys) return;
 
-    // Create a new message object
-    const newMessage: Message = {
-      id: Date.now(),
-      sender: 'Alice',
-      originalText: inputMessage,
-      ciphertext: encryptedData,
-      signature: signature,
-      isSigned: true,
-      isEncrypted: true,
-      isTampered: false,
-      isDecrypted: false,
-      isVerified: null,
-      isEve: false,
-    };
+    try {
+      // Encrypt for the recipient and sign as the sender, in the selected envelope mode
+      const { ciphertext: encryptedData, signature, signatureAlgorithm: algorithm } = await sealMessage(inputMessage, from, to);
 
-    setMessages((prev) => [...prev, newMessage]);
-    setInputMessage('');
+      // Create a new message object
+      const newMessage: Message = {
+        id: Date.now(),
+        sender: from.name,
+        recipient: to.name,
+        originalText: inputMessage,
+        ciphertext: encryptedData,
+        signature: signature,
+        mode: envelopeMode,
+        signatureAlgorithm: algorithm,
+        isSigned: true,
+        isEncrypted: true,
+        isTampered: false,
+        isDecrypted: false,
+        isVerified: null,
+        isEve: false,
+      };
+
+      setMessages((prev) => [...prev, newMessage]);
+      setInputMessage('');
+      setSendError(null);
+    } catch (error) {
+      console.error("Encryption failed:", error);
+      setSendError(error instanceof Error ? error.message : String(error));
+    }
   };
 
   /**
-   * Decrypts a message for Bob.
+   * Decrypts a message for its recipient.
    * @param {number} messageId The ID of the message to decrypt.
    */
   const handleDecryptMessage = async (messageId: number) => {
     const messageToDecrypt = messages.find((m) => m.id === messageId);
-    if (!messageToDecrypt || !agents.bob.encryptionKeys || !agents.alice.signingKeys) return;
+    if (!messageToDecrypt) return;
     
     try {
-      // Decrypt the message with Bob's private encryption key
-      const decryptedText = await decryptWithPrivateKey(agents.bob.encryptionKeys.privateKey, messageToDecrypt.ciphertext);
-      
-      // Verify the signature with Alice's public signing key
-      let isVerified = false;
-      if (messageToDecrypt.isSigned && agents.alice.signingKeys) {
-        isVerified = await verifySignature(agents.alice.signingKeys.publicKey, messageToDecrypt.signature, decryptedText);
-      }
+      // Decrypt with the recipient's private key and verify the sender's signature per the envelope mode
+      const { text: decryptedText, verified: isVerified, reason } = await openMessage(messageToDecrypt);
 
       setMessages((prev) =>
         prev.map((m) =>
           m.id === messageId
-            ? { ...m, originalText: decryptedText, isDecrypted: true, isVerified: isVerified, isEve: false } as Message
+            ? { ...m, originalText: decryptedText, isDecrypted: true, isVerified: isVerified, verifyReason: reason, isEve: false } as Message
             : m
         )
       );
@@ -307,10 +958,10 @@ export default function App() {
     setMessages((prev) =>
       prev.map((m) => {
         if (m.id === messageId && !m.isTampered && m.isEncrypted) {
-          // Change the first byte of the ciphertext to simulate tampering
-          const tamperedCiphertext = new Uint8Array(m.ciphertext);
+          // Change the last byte (AES-GCM payload) to simulate tampering
+          const tamperedCiphertext = new Uint8Array(m.ciphertext.slice(0));
           if (tamperedCiphertext.length > 0) {
-            tamperedCiphertext[0] = tamperedCiphertext[0] ^ 1; // Flip a bit
+            tamperedCiphertext[tamperedCiphertext.length - 1] ^= 1; // Flip a bit
           }
           return { ...m, ciphertext: tamperedCiphertext.buffer, isTampered: true, originalText: 'EVE HAS TAMPERED WITH THIS MESSAGE!' };
         }
@@ -320,28 +971,50 @@ export default function App() {
   };
 
   /**
-   * Toggles game mode and sends a new encrypted mission.
+   * Toggles game mode and sends a new encrypted mission from Alice to Bob. Bob's key goes
+   * through the same checks as any message: changed blocks it, unverified asks first.
+   * @param {string} confirmed The mission Alice already agreed to send to an unverified key.
    */
-  const handleGameMode = async () => {
+  const handleGameMode = async (confirmed?: string) => {
     setGameMode(true);
     const missions = [
       'The package is under the third bench, near the fountain.',
       'The password is "Hydra" - mission at midnight.',
       'Find the informant at the old clock tower by dawn.',
     ];
-    const missionText = missions[Math.floor(Math.random() * missions.length)];
+    const missionText = confirmed ?? missions[Math.floor(Math.random() * missions.length)];
 
     if (!agents.bob.encryptionKeys || !agents.alice.signingKeys) return;
+    const trust = recipientTrust('Alice', 'bob');
+    if (trust.some((t) => t.trust === 'changed')) {
+      setSendError("Bob's key changed since Alice pinned it; accept or check it before the mission goes out");
+      return;
+    }
+    if (confirmed === undefined && trust.some((t) => t.trust !== 'verified')) {
+      setConfirmUnverified({ kind: 'mission', text: missionText });
+      return;
+    }
+    setConfirmUnverified(null);
 
-    const encryptedData = await encryptWithPublicKey(agents.bob.encryptionKeys.publicKey, missionText);
-    const signature = await signMessage(agents.alice.signingKeys.privateKey, missionText);
+    let sealed: SealResult;
+    try {
+      sealed = await sealMessage(missionText, agents.alice, agents.bob);
+      setSendError(null);
+    } catch (error) {
+      setSendError(error instanceof Error ? error.message : String(error));
+      return;
+    }
+    const { ciphertext: encryptedData, signature, signatureAlgorithm: algorithm } = sealed;
 
     const newMessage: Message = {
       id: Date.now(),
       sender: 'Alice',
+      recipient: 'Bob',
       originalText: missionText,
       ciphertext: encryptedData,
       signature: signature,
+      mode: envelopeMode,
+      signatureAlgorithm: algorithm,
       isSigned: true,
       isEncrypted: true,
       isTampered: false,
@@ -353,23 +1026,155 @@ export default function App() {
     setMessages((prev) => [...prev, newMessage]);
   };
 
+  /**
+   * Runs a keyring change, then reloads every agent's active keys.
+   * @param {() => Promise<void>} change The keyring mutation to apply.
+   */
+  const updateKeyring = async (change: () => Promise<void>) => {
+    try {
+      await change();
+      setKeyError(null);
+    } catch (error) {
+      setKeyError(`Updating the keyring failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    setKeyringVersion((v) => v + 1);
+  };
+
+  /**
+   * Generates a fresh key pair for an agent and makes it active.
+   * @param {string} owner The agent name.
+   * @param {KeyPurpose} purpose Whether this is an encryption or signing key.
+   */
+  const handleNewKey = (owner: string, purpose: KeyPurpose) =>
+    updateKeyring(async () => {
+      const pair = purpose === 'sign'
+        ? await generateSigningKeypair(!nonExtractable, signatureAlgorithm.scheme, keyParams)
+        : await generateEncryptionKeypair(!nonExtractable, keyParams);
+      const entry = await addKeyPair(pair, { owner, purpose });
+      await setActiveKey(owner, purpose, entry.id);
+    });
+
+  /**
+   * Switches every agent to a signature scheme, reusing a stored key of that scheme when there is one.
+   * All the keys are found or generated before any agent's active key changes, so a failure
+   * (e.g. Ed25519 missing from this browser) leaves everyone on the old scheme.
+   * @param {SignatureAlgorithm} algorithm The scheme (and RSA-PSS salt length) to sign new messages with.
+   */
+  const handleSignatureAlgorithm = async (algorithm: SignatureAlgorithm) => {
+    const { scheme } = algorithm;
+    if (scheme === signatureAlgorithm.scheme) {
+      setSignatureAlgorithm(algorithm);
+      return;
+    }
+    setSchemeSwitching(true);
+    try {
+      const entries = await Promise.all(Object.values(agents).map(async (agent) => {
+        const stored = (await listKeys(agent.name)).find((k) => k.purpose === 'sign' && schemeOfKey(k.publicKey) === scheme);
+        return { name: agent.name, stored, fresh: stored ? null : await generateSigningKeypair(true, scheme, keyParams) };
+      }));
+      await Promise.all(entries.map(async ({ name, stored, fresh }) => {
+        const entry = stored ?? (await addKeyPair(fresh!, { owner: name, purpose: 'sign' }));
+        await setActiveKey(name, 'sign', entry.id);
+      }));
+      setSignatureAlgorithm(algorithm);
+      setKeyError(null);
+    } catch (error) {
+      setKeyError(`Switching the signature scheme failed: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setKeyringVersion((v) => v + 1);
+      setSchemeSwitching(false);
+    }
+  };
+
+  /**
+   * Gives every agent fresh signing and encryption keys built from the current settings, timing the generation.
+   */
+  const handleRegenerateKeys = () => {
+    setRegenerating(true);
+    updateKeyring(async () => {
+      const { ms } = await timed(() => Promise.all(Object.values(agents).map(async (agent) => {
+        const signing = await generateSigningKeypair(!nonExtractable, signatureAlgorithm.scheme, keyParams);
+        const encryption = await generateEncryptionKeypair(!nonExtractable, keyParams);
+        const [signEntry, encryptEntry] = await Promise.all([
+          addKeyPair(signing, { owner: agent.name, purpose: 'sign' }),
+          addKeyPair(encryption, { owner: agent.name, purpose: 'encrypt' }),
+        ]);
+        await setActiveKey(agent.name, 'sign', signEntry.id);
+        await setActiveKey(agent.name, 'encrypt', encryptEntry.id);
+      })));
+      setRegenerateMs(ms);
+    }).finally(() => setRegenerating(false));
+  };
+
+  // RSA-OAEP fits at most k - 2·hLen - 2 bytes, and hybrid encryption needs room for a 32-byte AES key
+  const oaepLimit = oaepMaxPlaintext(keyParams.modulusLength, keyParams.hash);
+  const bobKeyParams = agents.bob.encryptionKeys ? rsaParamsOf(agents.bob.encryptionKeys.publicKey) : null;
+
+  // The sender's trust in every key the next message is encrypted to
+  const sendTrust = recipientTrust(agents[senderId].name, recipientId);
+  const changedRecipients = sendTrust.filter((t) => t.trust === 'changed').map((t) => t.name);
+  // What the pending confirmation is about: the typed message, or Alice's mission to Bob
+  const confirmHolder = confirmUnverified?.kind === 'mission' ? 'Alice' : agents[senderId].name;
+  const confirmTrust = confirmUnverified?.kind === 'mission' ? recipientTrust('Alice', 'bob') : sendTrust;
+  const confirmNames = confirmTrust.filter((t) => t.trust === 'unknown' || t.trust === 'tofu').map((t) => t.name);
+
   // --- UI Layout and Rendering ---
-  const renderAgentCard = (agent: Agent) => (
-    <div className={`p-4 rounded-xl shadow-xl transition-transform transform ${agent.isUser ? 'bg-emerald-900 border-2 border-emerald-500' : agent.name === 'Eve' ? 'bg-red-900 border-2 border-red-500' : 'bg-sky-900 border-2 border-sky-500'} hover:scale-105`}>
-      <div className="flex items-center space-x-4">
-        <div className="text-4xl">{agent.avatar}</div>
-        <div>
-          <h2 className="text-lg font-bold text-gray-100">{agent.name}</h2>
-          <p className="text-sm font-mono text-gray-400">Agent ID: {agent.publicKeysPem.signing ? `${agent.publicKeysPem.signing.substring(30, 40)}...` : 'Generating...'}</p>
+  const renderAgentCard = (agent: Agent) => {
+    // Trust as the active user sees it: the keys they pinned for this agent
+    const viewer = agents[senderId].name;
+    const contact = directory[viewer]?.[agent.name];
+    const trust = trustOf(contact);
+    const changedKey = contact?.changed && (contact.changed.encrypt !== contact.pinned.encrypt ? 'encrypt' : 'sign');
+    return (
+      <div className={`p-4 rounded-xl shadow-xl transition-transform transform ${agent.isUser ? 'bg-emerald-900 border-2 border-emerald-500' : agent.name === 'Eve' ? 'bg-red-900 border-2 border-red-500' : 'bg-sky-900 border-2 border-sky-500'} hover:scale-105`}>
+        <div className="flex items-center space-x-4">
+          <div className="text-4xl">{agent.avatar}</div>
+          <div>
+            <h2 className="text-lg font-bold text-gray-100">{agent.name}</h2>
+            <p className="text-sm font-mono text-gray-400">Agent ID: {fingerprints[agent.name]?.shortHex ?? 'Generating...'}</p>
+            {fingerprints[agent.name] && (
+              <p className="text-xs font-mono text-gray-500" title="First 80 bits of the key fingerprint in base32">{fingerprints[agent.name].shortBase32}</p>
+            )}
+          </div>
+          {fingerprints[agent.name] && (
+            <div className="ml-auto" title={`SHA-256 JWK thumbprint: ${fingerprints[agent.name].hex}`}>
+              <Identicon bytes={fingerprints[agent.name].bytes} />
+            </div>
+          )}
         </div>
+        {!agent.isUser && (
+          <div className="mt-3 flex flex-wrap items-center gap-2 text-xs">
+            <span className={TRUST_STYLES[trust].className}>
+              {TRUST_STYLES[trust].icon} {TRUST_LABELS[trust]} by {viewer}
+            </span>
+            {trust === 'tofu' && (
+              <button
+                onClick={() => handleMarkVerified(agent.name)}
+                title={`After comparing ${agent.name}'s fingerprint or the safety number in person or over the phone`}
+                className="bg-gray-800 hover:bg-gray-700 text-gray-200 py-0.5 px-2 rounded-full"
+              >
+                Mark verified
+              </button>
+            )}
+          </div>
+        )}
+        {!agent.isUser && contact?.changed && changedKey && (
+          <p className="mt-1 text-xs font-mono text-red-300 break-all">
+            {changedKey === 'encrypt' ? 'Encryption' : 'Signing'} key pinned {contact.pinned[changedKey].slice(0, 19)}…, now {contact.changed[changedKey].slice(0, 19)}…
+          </p>
+        )}
       </div>
-    </div>
-  );
+    );
+  };
 
   const renderMessageBubble = (message: Message) => {
-    const isAlice = message.sender === 'Alice';
-    const isBob = !isAlice; // In our simple app, Bob is the recipient of Alice's messages
+    // The active user's messages sit on the right, everyone else's on the left, each in their own color
+    const from = agents[message.sender.toLowerCase()];
+    const side = from?.isUser ? 'self-end' : 'self-start';
+    const color = from?.color ?? recruitColor(message.sender);
     const isEve = message.isEve;
+    // Eve can only attack conversations she is not part of
+    const eveIsParty = message.sender === 'Eve' || message.recipient === 'Eve' || Boolean(message.group?.wrappedKeys['Eve']);
 
     // Framer Motion variants for the message bubble
     const bubbleVariants = {
@@ -383,7 +1188,7 @@ export default function App() {
       <AnimatePresence>
         <motion.div
           key={message.id}
-          className={`relative p-4 rounded-xl shadow-lg my-2 max-w-lg ${isAlice ? 'bg-emerald-700 self-end' : isBob ? 'bg-sky-700 self-start' : isEve ? 'bg-red-700 self-start' : 'self-center'}`}
+          className={`relative p-4 rounded-xl shadow-lg my-2 max-w-lg ${color} ${side}`}
           variants={bubbleVariants}
           initial="hidden"
           animate="visible"
@@ -397,8 +1202,16 @@ export default function App() {
             animate={{ opacity: message.isDecrypted ? 0 : 1, scale: message.isDecrypted ? 0.9 : 1 }}
             transition={{ duration: 0.5, delay: 0.2 }}
           >
-            {isEve ? 'Eavesdropping... 😈' : `🔒 Encrypted message: ${btoa(String.fromCharCode(...new Uint8Array(message.ciphertext))).substring(0, 50)}...`}
+            {isEve ? 'Eavesdropping... 😈' : `🔒 Encrypted message: ${btoa(String.fromCharCode(...new Uint8Array(message.ciphertext.slice(0, 48)))).substring(0, 50)}...`}
           </motion.div>
+          <p className="mt-1 text-xs text-gray-300">
+            {message.sender} → {message.recipient} • {message.group
+              ? `Group epoch ${message.group.epoch}, key wrapped for ${Object.keys(message.group.wrappedKeys).join(', ')}`
+              : `Envelope: ${ENVELOPE_MODES[message.mode].label}`} • Signature: {describeAlgorithm(message.signatureAlgorithm)}
+          </p>
+          {isEve && (
+            <p className="mt-1 text-xs text-red-200">😈 Eve learns: {ENVELOPE_MODES[message.mode].eveLearns}</p>
+          )}
 
           {/* Decrypted message - animates in */}
           {message.isDecrypted && (
@@ -408,28 +1221,54 @@ export default function App() {
               animate={{ opacity: 1, y: 0 }}
               transition={{ delay: 0.7, duration: 0.5 }}
             >
-              <h3 className="font-bold text-lg">{isBob ? 'Bob receives:' : 'Eve receives:'}</h3>
+              <h3 className="font-bold text-lg">{isEve ? 'Eve receives:' : `${message.recipient} receives:`}</h3>
               <p>{message.originalText}</p>
               {message.isSigned && (
                 <span className={`text-xs mt-2 font-mono flex items-center`}>
                   Signature: {message.isVerified === true ? '✅ Authentic' : message.isVerified === false ? '❌ Forged' : 'Verifying...'}
+                  {message.verifyReason && <span className="ml-2 opacity-80">({message.verifyReason})</span>}
                 </span>
               )}
             </motion.div>
           )}
 
-          {/* Action buttons for Bob and Eve */}
-          {isBob && !message.isDecrypted && (
+          {/* Group messages: every agent tries their own keys */}
+          {message.group && (
+            <div className="mt-2 space-y-1">
+              <div className="flex flex-wrap gap-2 justify-end">
+                {Object.values(agents).map((agent) => (
+                  <button
+                    key={agent.name}
+                    onClick={() => handleReadGroupMessage(message.id, agent.name)}
+                    className="bg-sky-600 hover:bg-sky-500 text-white text-xs font-bold py-1 px-3 rounded-full transition-all"
+                  >
+                    Read as {agent.name}
+                  </button>
+                ))}
+              </div>
+              {Object.entries(message.readings ?? {}).map(([reader, reading]) => (
+                <p key={reader} className="text-sm">
+                  <span className="font-bold">{reader}:</span>{' '}
+                  {reading.text === null
+                    ? <span className="text-gray-300">🔒 {reading.reason}</span>
+                    : <>{reading.text} <span className="text-xs font-mono">{reading.verified ? '✅' : '❌'} ({reading.reason})</span></>}
+                </p>
+              ))}
+            </div>
+          )}
+
+          {/* Action buttons for the recipient and Eve */}
+          {!message.group && !message.isDecrypted && (
             <div className="mt-2 text-right">
               <button
                 onClick={() => handleDecryptMessage(message.id)}
                 className="bg-sky-600 hover:bg-sky-500 text-white text-sm font-bold py-1 px-3 rounded-full transition-all"
               >
-                Decrypt
+                Decrypt as {message.recipient}
               </button>
             </div>
           )}
-          {isAlice && !isEve && !message.isDecrypted && (
+          {!message.group && !eveIsParty && !isEve && !message.isDecrypted && (
             <div className="mt-2 flex space-x-2">
               <button
                 onClick={() => handleTamperMessage(message.id)}
@@ -450,6 +1289,8 @@ export default function App() {
     );
   };
 
+  if (!vault) return <UnlockScreen<ArchiveContents> title="Secret Agent Messenger" store={archive} contents="Messages" onUnlock={handleUnlock} />;
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-900 to-black text-white font-sans flex flex-col items-center p-4 sm:p-8">
       {/* Header and Agent Cards */}
@@ -463,13 +1304,103 @@ export default function App() {
           Secret Agent Messenger
         </h1>
         <p className="text-lg mt-2 text-gray-400">A cryptographic demonstration</p>
+        <div className="mt-3 flex justify-center gap-2 text-sm">
+          <button onClick={handleExportArchive} className="bg-gray-800 hover:bg-gray-700 py-1 px-4 rounded-full">Export encrypted history</button>
+          <button onClick={handleLock} className="bg-gray-800 hover:bg-gray-700 py-1 px-4 rounded-full">🔒 Lock</button>
+        </div>
+        {archiveError && <p className="mt-2 text-xs text-red-400">Saving the encrypted history failed: {archiveError}</p>}
+        {exportNote && <p className="mt-2 text-xs text-amber-300">{exportNote}</p>}
       </motion.div>
 
       {/* Agents Section */}
       <div className="grid grid-cols-1 sm:grid-cols-3 gap-6 w-full max-w-5xl mb-8">
-        {renderAgentCard(agents.alice)}
-        {renderAgentCard(agents.bob)}
-        {renderAgentCard(agents.eve)}
+        {Object.entries(agents).map(([id, agent]) => (
+          <div key={id}>{renderAgentCard(agent)}</div>
+        ))}
+      </div>
+      <div className="w-full max-w-5xl -mt-4 mb-8 flex justify-center gap-2">
+        <input
+          type="text"
+          value={recruitName}
+          onChange={(e) => setRecruitName(e.target.value)}
+          placeholder="New agent's name..."
+          className="px-3 py-1 rounded-full bg-gray-700 text-white text-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+        />
+        <button
+          onClick={handleRecruitAgent}
+          disabled={!recruitName.trim() || Boolean(agents[recruitName.trim().toLowerCase()])}
+          className="bg-gray-800 hover:bg-gray-700 disabled:opacity-50 text-white text-sm font-bold py-1 px-4 rounded-full"
+        >
+          Recruit agent
+        </button>
+      </div>
+      {aliceBobSafetyNumber && (
+        <div className="w-full max-w-5xl -mt-4 mb-8 text-center text-xs text-gray-400">
+          Alice ↔ Bob safety number (compare out of band):{' '}
+          <span className="font-mono text-gray-200">{aliceBobSafetyNumber}</span>
+        </div>
+      )}
+
+      {/* Groups */}
+      <div className="w-full max-w-5xl bg-gray-800 bg-opacity-50 p-4 rounded-xl mb-8 text-sm space-y-3">
+        <h2 className="text-lg font-bold text-gray-200">👥 Groups</h2>
+        <p className="text-xs text-gray-400">
+          A group message is AES-encrypted once and its key is RSA-OAEP wrapped for every member. Removing a member rotates the key.
+        </p>
+        <div className="flex flex-wrap items-center gap-3">
+          <input
+            type="text"
+            value={newGroupName}
+            onChange={(e) => setNewGroupName(e.target.value)}
+            placeholder="Group name..."
+            className="px-3 py-1 rounded-full bg-gray-700 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+          />
+          {Object.values(agents).map((agent) => (
+            <label key={agent.name} className="flex items-center gap-1 text-gray-300">
+              <input
+                type="checkbox"
+                checked={newGroupMembers.includes(agent.name)}
+                onChange={(e) => setNewGroupMembers((prev) => (e.target.checked ? [...prev, agent.name] : prev.filter((n) => n !== agent.name)))}
+              />
+              {agent.name}
+            </label>
+          ))}
+          <button
+            onClick={handleCreateGroup}
+            disabled={!newGroupName.trim() || newGroupMembers.length < 2}
+            className="bg-cyan-700 hover:bg-cyan-600 disabled:opacity-50 text-white text-xs font-bold py-1 px-3 rounded-full"
+          >
+            Create group
+          </button>
+        </div>
+        {groups.map((group) => (
+          <div key={group.id} className="flex flex-wrap items-center gap-2 bg-gray-900 p-2 rounded-lg">
+            <span className="font-bold text-gray-200">{group.name}</span>
+            <span className="text-xs text-gray-400">epoch {group.epoch}</span>
+            {group.members.map((member) => (
+              <span key={member} className="flex items-center gap-1 bg-gray-700 rounded-full px-2 py-0.5 text-xs">
+                {member}
+                <button
+                  onClick={() => handleGroupMember(group, member, false)}
+                  disabled={group.members.length <= 1}
+                  title={`Remove ${member} and rotate the key`}
+                  className="text-gray-400 hover:text-white disabled:opacity-30"
+                >
+                  ✕
+                </button>
+              </span>
+            ))}
+            {Object.values(agents).filter((agent) => !group.members.includes(agent.name)).map((agent) => (
+              <button
+                key={agent.name}
+                onClick={() => handleGroupMember(group, agent.name, true)}
+                className="bg-gray-700 hover:bg-gray-600 text-xs rounded-full px-2 py-0.5 text-gray-300"
+              >
+                + {agent.name}
+              </button>
+            ))}
+          </div>
+        ))}
       </div>
       
       {/* Game Mode Status */}
@@ -492,12 +1423,44 @@ export default function App() {
           {showKeys ? 'Hide Keys' : 'Show Keys'}
         </button>
         <button
-          onClick={handleGameMode}
+          onClick={() => handleGameMode()}
           className="bg-purple-600 hover:bg-purple-500 text-white font-bold py-2 px-6 rounded-full shadow-lg transition-all transform hover:scale-105"
         >
           🎮 Game Mode
         </button>
+        <div className="flex items-center gap-2 bg-gray-800 rounded-full py-2 px-4 text-sm">
+          Signature:
+          <select
+            value={signatureAlgorithm.scheme}
+            disabled={schemeSwitching}
+            onChange={(e) => {
+              const scheme = e.target.value as SignatureScheme;
+              handleSignatureAlgorithm(scheme === 'RSA-PSS' ? { scheme, saltLength: DEFAULT_PSS_SALT_LENGTH } : { scheme });
+            }}
+            className="bg-gray-700 text-white rounded px-2 py-1"
+          >
+            {SIGNATURE_SCHEMES.map((scheme) => (
+              <option key={scheme} value={scheme} disabled={supportedSchemes[scheme] === false}>
+                {SCHEME_LABELS[scheme]}{supportedSchemes[scheme] === false ? ' (unsupported)' : ''}
+              </option>
+            ))}
+          </select>
+          {signatureAlgorithm.scheme === 'RSA-PSS' && (
+            <label className="flex items-center gap-1">
+              salt
+              <input
+                type="number"
+                min={0}
+                max={222}
+                value={signatureAlgorithm.saltLength ?? DEFAULT_PSS_SALT_LENGTH}
+                onChange={(e) => handleSignatureAlgorithm({ scheme: 'RSA-PSS', saltLength: Math.max(0, Number(e.target.value) || 0) })}
+                className="w-16 bg-gray-700 text-white rounded px-2 py-1"
+              />
+            </label>
+          )}
+        </div>
       </div>
+      {keyError && <p className="-mt-4 mb-8 text-sm text-red-400">{keyError}</p>}
 
       {/* Key Viewer Modal */}
       <AnimatePresence>
@@ -515,6 +1478,16 @@ export default function App() {
               exit={{ scale: 0.9, y: 50 }}
             >
               <h2 className="text-2xl font-bold text-center mb-4 text-white">Agent Keys</h2>
+              <div className="flex justify-center items-center gap-2 mb-4 text-sm text-gray-300">
+                Format:
+                <select
+                  value={keyFormat}
+                  onChange={(e) => setKeyFormat(e.target.value as KeyFormat)}
+                  className="bg-gray-700 text-white rounded px-2 py-1"
+                >
+                  {PUBLIC_KEY_FORMATS.map(f => <option key={f} value={f}>{KEY_FORMAT_LABELS[f]}</option>)}
+                </select>
+              </div>
               <div className="space-y-4">
                 {Object.values(agents).map(agent => (
                   <div key={agent.name} className="bg-gray-900 p-4 rounded-lg">
@@ -522,16 +1495,117 @@ export default function App() {
                     <div className="space-y-2">
                       <div className="bg-gray-700 p-3 rounded-md text-sm font-mono break-all text-gray-200">
                         <p className="font-bold text-cyan-400">Signing Public Key:</p>
-                        <pre className="whitespace-pre-wrap">{agent.publicKeysPem.signing || 'Generating...'}</pre>
+                        <pre className="whitespace-pre-wrap">{formattedKeys[agent.name]?.signing || 'Generating...'}</pre>
                       </div>
                       <div className="bg-gray-700 p-3 rounded-md text-sm font-mono break-all text-gray-200">
                         <p className="font-bold text-pink-400">Encryption Public Key:</p>
-                        <pre className="whitespace-pre-wrap">{agent.publicKeysPem.encryption || 'Generating...'}</pre>
+                        <pre className="whitespace-pre-wrap">{formattedKeys[agent.name]?.encryption || 'Generating...'}</pre>
                       </div>
                     </div>
                   </div>
                 ))}
               </div>
+              <div className="mt-6 bg-gray-900 p-4 rounded-lg text-left">
+                <h3 className="text-xl font-semibold text-gray-300 mb-3">Key Generation</h3>
+                <div className="flex flex-wrap items-center gap-3 text-sm text-gray-300">
+                  <label className="flex items-center gap-1">
+                    Modulus:
+                    <select
+                      value={keyParams.modulusLength}
+                      onChange={(e) => setKeyParams({ ...keyParams, modulusLength: Number(e.target.value) as RsaModulusLength })}
+                      className="bg-gray-700 text-white rounded px-2 py-1"
+                    >
+                      {MODULUS_LENGTHS.map(m => <option key={m} value={m}>{m}-bit{isWeakModulus(m) ? ' (weak)' : ''}</option>)}
+                    </select>
+                  </label>
+                  <label className="flex items-center gap-1">
+                    Hash:
+                    <select
+                      value={keyParams.hash}
+                      onChange={(e) => setKeyParams({ ...keyParams, hash: e.target.value as RsaHash })}
+                      className="bg-gray-700 text-white rounded px-2 py-1"
+                    >
+                      {RSA_HASHES.map(h => <option key={h} value={h}>{h}{isWeakHash(h) ? ' (weak)' : ''}</option>)}
+                    </select>
+                  </label>
+                  <label className="flex items-center gap-1">
+                    Exponent e:
+                    <select
+                      value={keyParams.publicExponent}
+                      onChange={(e) => setKeyParams({ ...keyParams, publicExponent: Number(e.target.value) })}
+                      className="bg-gray-700 text-white rounded px-2 py-1"
+                    >
+                      {PUBLIC_EXPONENTS.map(e => <option key={e} value={e}>{e}</option>)}
+                    </select>
+                  </label>
+                  <button
+                    onClick={handleRegenerateKeys}
+                    disabled={regenerating || oaepLimit < 32}
+                    className="bg-cyan-700 hover:bg-cyan-600 disabled:opacity-50 text-white text-xs font-bold py-1 px-3 rounded-full"
+                  >
+                    {regenerating ? 'Generating...' : 'Regenerate all keys'}
+                  </button>
+                </div>
+                <p className="mt-2 text-xs text-gray-400">
+                  RSA-OAEP with these settings encrypts at most {Math.max(0, oaepLimit)} bytes per block.
+                  {bobKeyParams && ` Bob's active key: ${describeRsaParams(bobKeyParams)}, max ${Math.max(0, oaepMaxPlaintext(bobKeyParams.modulusLength, bobKeyParams.hash))} bytes.`}
+                  {regenerateMs !== null && ` Last regeneration took ${regenerateMs} ms.`}
+                </p>
+                {isWeakModulus(keyParams.modulusLength) && <p className="mt-1 text-xs text-yellow-400">⚠️ {keyParams.modulusLength}-bit RSA is within reach of well-funded attackers; use 2048 or more.</p>}
+                {isWeakHash(keyParams.hash) && <p className="mt-1 text-xs text-yellow-400">⚠️ SHA-1 has practical collisions; signatures over it can be forged.</p>}
+                {keyParams.publicExponent === 3 && <p className="mt-1 text-xs text-yellow-400">⚠️ e = 3 is only safe with proper padding.</p>}
+                {oaepLimit < 32 && <p className="mt-1 text-xs text-red-400">⚠️ {keyParams.modulusLength}-bit RSA-OAEP with {keyParams.hash} can't wrap a 32-byte AES key.</p>}
+              </div>
+              <div className="mt-6 bg-gray-900 p-4 rounded-lg">
+                <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                  <h3 className="text-xl font-semibold text-gray-300">Keyring</h3>
+                  <label className="text-sm text-gray-400 flex items-center gap-2">
+                    <input type="checkbox" checked={nonExtractable} onChange={(e) => setNonExtractable(e.target.checked)} />
+                    New private keys are non-extractable
+                  </label>
+                </div>
+                {keyError && <p className="mb-3 text-sm text-red-400">{keyError}</p>}
+                <div className="flex flex-wrap gap-2 mb-3">
+                  {Object.values(agents).map(agent => (
+                    <div key={agent.name} className="flex gap-1">
+                      <button onClick={() => handleNewKey(agent.name, 'sign')} className="bg-cyan-700 hover:bg-cyan-600 text-white text-xs font-bold py-1 px-3 rounded-full">
+                        New {agent.name} signing key
+                      </button>
+                      <button onClick={() => handleNewKey(agent.name, 'encrypt')} className="bg-pink-700 hover:bg-pink-600 text-white text-xs font-bold py-1 px-3 rounded-full">
+                        New {agent.name} encryption key
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <div className="space-y-2 max-h-60 overflow-y-auto text-left">
+                  {keyringEntries.map(entry => {
+                    const isActive = activeKeyIds[`${entry.owner}:${entry.purpose}`] === entry.id;
+                    return (
+                      <div key={entry.id} className="bg-gray-700 p-2 rounded-md text-sm flex flex-wrap items-center gap-2">
+                        <input
+                          defaultValue={entry.label}
+                          onBlur={(e) => e.target.value !== entry.label && updateKeyring(() => renameKey(entry.id, e.target.value))}
+                          className="flex-grow bg-gray-800 text-white rounded px-2 py-1"
+                        />
+                        <span className="text-xs text-gray-400">
+                          {entry.owner} • {entry.purpose === 'sign' ? SCHEME_LABELS[schemeOfKey(entry.publicKey) ?? 'RSASSA-PKCS1-v1_5'] : 'RSA-OAEP'}
+                          {rsaKeySuffix(entry.publicKey)} • {new Date(entry.createdAt).toLocaleString()}{!entry.extractable && ' • non-extractable'}
+                        </span>
+                        {isActive ? (
+                          <span className="text-xs font-bold text-emerald-400">Active</span>
+                        ) : (
+                          <button onClick={() => updateKeyring(() => setActiveKey(entry.owner, entry.purpose, entry.id))} className="bg-emerald-700 hover:bg-emerald-600 text-white text-xs font-bold py-1 px-3 rounded-full">
+                            Use
+                          </button>
+                        )}
+                        <button onClick={() => updateKeyring(() => deleteKey(entry.id))} className="bg-red-700 hover:bg-red-600 text-white text-xs font-bold py-1 px-3 rounded-full">
+                          Delete
+                        </button>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
               <div className="mt-6 text-center">
                 <button
                   onClick={() => setShowKeys(false)}
@@ -556,20 +1630,96 @@ export default function App() {
 
         {/* Input Form */}
         <form onSubmit={handleSendMessage} className="mt-4 flex items-center space-x-4">
+          <select
+            value={senderId}
+            onChange={(e) => handleSelectSender(e.target.value as AgentId)}
+            aria-label="Send as"
+            className="p-3 rounded-full bg-gray-700 text-white border border-transparent focus:outline-none focus:ring-2 focus:ring-cyan-500"
+          >
+            {Object.keys(agents).map((id) => (
+              <option key={id} value={id}>{agents[id].avatar} {agents[id].name}</option>
+            ))}
+          </select>
+          <span className="text-gray-400">→</span>
+          <select
+            value={recipientId}
+            onChange={(e) => {
+              setRecipientId(e.target.value);
+              setConfirmUnverified(null);
+            }}
+            aria-label="Send to"
+            className="p-3 rounded-full bg-gray-700 text-white border border-transparent focus:outline-none focus:ring-2 focus:ring-cyan-500"
+          >
+            {Object.keys(agents).filter((id) => id !== senderId).map((id) => (
+              <option key={id} value={id}>{agents[id].avatar} {agents[id].name}</option>
+            ))}
+            {groups.map((group) => (
+              <option key={group.id} value={GROUP_RECIPIENT_PREFIX + group.id}>👥 {group.name}</option>
+            ))}
+          </select>
+          <select
+            value={envelopeMode}
+            onChange={(e) => setEnvelopeMode(e.target.value as EnvelopeMode)}
+            className="p-3 rounded-full bg-gray-700 text-white border border-transparent focus:outline-none focus:ring-2 focus:ring-cyan-500"
+          >
+            {(Object.keys(ENVELOPE_MODES) as EnvelopeMode[]).map((mode) => (
+              <option key={mode} value={mode}>{ENVELOPE_MODES[mode].label}</option>
+            ))}
+          </select>
           <input
             type="text"
             value={inputMessage}
             onChange={(e) => setInputMessage(e.target.value)}
-            placeholder="Type your secret message..."
+            placeholder={`${agents[senderId].name} types a secret message...`}
             className="flex-grow p-3 rounded-full bg-gray-700 text-white placeholder-gray-400 border border-transparent focus:outline-none focus:ring-2 focus:ring-cyan-500 transition-all"
           />
           <button
             type="submit"
-            className="bg-cyan-600 hover:bg-cyan-500 text-white font-bold py-3 px-6 rounded-full shadow-lg transition-all transform hover:scale-105"
+            disabled={changedRecipients.length > 0}
+            className="bg-cyan-600 hover:bg-cyan-500 disabled:opacity-50 text-white font-bold py-3 px-6 rounded-full shadow-lg transition-all transform hover:scale-105"
           >
             Send
           </button>
         </form>
+        {changedRecipients.length > 0 && (
+          <div className="mt-3 p-3 rounded-lg bg-red-900 border border-red-500 text-sm space-y-2">
+            <p className="font-bold">⚠️ {changedRecipients.join(', ')}: key changed since {agents[senderId].name} pinned it</p>
+            <p className="text-xs text-red-200">
+              A new key can be a routine rotation, or someone putting their own key in its place. Nothing is sent until {agents[senderId].name} accepts
+              it; compare fingerprints out of band first.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {changedRecipients.map((name) => (
+                <button
+                  key={name}
+                  onClick={() => handleAcceptKeyChange(name)}
+                  className="bg-red-700 hover:bg-red-600 text-white text-xs font-bold py-1 px-3 rounded-full"
+                >
+                  Accept {name}'s new key
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+        {confirmUnverified && !confirmTrust.some((t) => t.trust === 'changed') && confirmNames.length > 0 && (
+          <div className="mt-3 p-3 rounded-lg bg-yellow-900 border border-yellow-500 text-sm flex flex-wrap items-center gap-2">
+            <span>
+              {confirmHolder} hasn't verified {confirmNames.join(', ')}'s key, so anyone who swapped it could read
+              {confirmUnverified.kind === 'mission' ? ' the mission' : ' this'}. Send anyway?
+            </span>
+            <button
+              type="button"
+              onClick={(e) => (confirmUnverified.kind === 'mission' ? handleGameMode(confirmUnverified.text) : handleSendMessage(e, true))}
+              className="bg-yellow-600 hover:bg-yellow-500 text-white text-xs font-bold py-1 px-3 rounded-full"
+            >
+              Send anyway
+            </button>
+            <button type="button" onClick={() => setConfirmUnverified(null)} className="text-xs text-gray-300 hover:text-white">
+              Cancel
+            </button>
+          </div>
+        )}
+        {sendError && <p className="mt-2 text-sm text-red-400">Send failed: {sendError}</p>}
       </div>
     </div>
   );
@@ -0,0 +1,10 @@
+import { createArchiveStore } from '@shared/crypto/archive';
+
+// This app's saved history, kept apart from the other apps' in its own database
+export const archive = createArchiveStore({
+  format: 'rsa-application-archive',
+  name: 'an archive from this app',
+  dbName: 'rsa-application-archive',
+});
+
+export const { deleteArchive, loadArchive, parseArchive, saveArchive, sealArchive } = archive;
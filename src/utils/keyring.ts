@@ -0,0 +1,19 @@
+import { createKeyring } from '@shared/crypto/keyring';
+
+export type { ArchivedKey, KeyPairLike, KeyPurpose, Keyring, KeyringEntry } from '@shared/crypto/keyring';
+
+// This app's keys, kept apart from the other apps' in their own database
+export const keyring = createKeyring('rsa-application-keyring');
+
+export const {
+  addKeyPair,
+  deleteKey,
+  ensureActiveKey,
+  exportKeys,
+  getActiveKey,
+  getActiveKeyId,
+  importKeys,
+  listKeys,
+  renameKey,
+  setActiveKey,
+} = keyring;